@@ -1,27 +1,70 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { Timeline } from './components/Timeline';
 import { ReportDisplay } from './components/ReportDisplay';
 import { RegistrationForm } from './components/RegistrationForm';
-import { analyzeDocumentsMetadata, generateMedicalReport } from './services/geminiService';
-import { saveDocumentsToStorage, loadDocumentsFromStorage, clearDocumentsStorage, removeDocumentFromStorage } from './services/storageService';
-import { AppStep, ProcessedDocument, ReportData, PatientProfile } from './types';
-import { Loader2, ArrowRight, LayoutDashboard, RefreshCcw, Key } from 'lucide-react';
-
-const STORAGE_KEY_PROFILE = 'medichronicle_profile';
+import { DossierSwitcher } from './components/DossierSwitcher';
+import { VaultUnlock } from './components/VaultUnlock';
+import { VaultSettings } from './components/VaultSettings';
+import { ExportArchiveDialog } from './components/ExportArchiveDialog';
+import { ImportArchiveDialog } from './components/ImportArchiveDialog';
+import { RedactionReview } from './components/RedactionReview';
+import { ReportHistory } from './components/ReportHistory';
+import { ReportStream } from './components/ReportStream';
+import { ReportSettingsPanel } from './components/ReportSettingsPanel';
+import { useTranslation } from './components/LanguageProvider';
+import { analyzeDocumentsMetadata, countAnalyzedFiles, generateMedicalReport, isReportSource, MetadataProgress, ReportDraft } from './services/geminiService';
+import { saveDocumentsToStorage, saveDocumentToStorage, loadDocumentsFromStorage, clearDocumentsStorage, saveReportToStorage, loadReportFromStorage, saveReportVersion, loadReportHistory, saveAnalysisCheckpoint, loadAnalysisCheckpoint, clearAnalysisCheckpoint } from './services/storageService';
+import { isAbortError } from './services/aiProvider';
+import { assignDuplicateClusters, chooseCanonicalCopy, ensureDocumentHashes } from './services/duplicateService';
+import { ensureDocumentText, needsTextExtraction } from './services/textService';
+import { resolveDocument } from './services/documentService';
+import { getDocumentPages } from './services/pageGroupService';
+import { isReportSettingsComplete, loadReportSettings, saveReportSettings } from './services/reportTemplateService';
+import { LANGUAGES, formatMegabytes } from './services/i18nService';
+import { DEFAULT_REDACTION_SETTINGS, createTextRedactor, loadRedactionSettings, saveRedactionSettings } from './services/redactionService';
+import { loadDossiers, saveDossiers, loadActiveDossierId, saveActiveDossierId, createDossierId } from './services/dossierService';
+import { isVaultEnabled, loadVaultConfig, lockVault, unlockVault, VaultConfig } from './services/vaultService';
+import { changeVaultPassphrase, disableVault, enableVault, resetVault, setAutoLockMinutes } from './services/vaultSetupService';
+import { AppStep, ProcessedDocument, ReportData, PatientProfile, AnalysisCheckpoint, AnalysisRedaction, RedactionSettings, ReportSettings, Locale } from './types';
+import { Loader2, ArrowRight, ArrowLeft, LayoutDashboard, RefreshCcw, Key, FileText, AlertTriangle, Pause, Play, X, Lock, ShieldCheck, Archive, Plus, CheckCircle2, History, Languages } from 'lucide-react';
 
 // window.aistudio is globally defined in the environment; local declaration is removed to prevent type conflicts.
 
 const App: React.FC = () => {
+  const { t, locale, setLocale } = useTranslation();
   const [step, setStep] = useState<AppStep>(AppStep.REGISTRATION);
+  const [dossiers, setDossiers] = useState<PatientProfile[]>([]);
   const [profile, setProfile] = useState<PatientProfile | null>(null);
   const [documents, setDocuments] = useState<ProcessedDocument[]>([]);
   const [report, setReport] = useState<ReportData | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isInitializing, setIsInitializing] = useState(true);
   const [hasApiKey, setHasApiKey] = useState<boolean>(true);
-  const [analysisProgress, setAnalysisProgress] = useState({ current: 0, total: 0 });
+  const [analysisProgress, setAnalysisProgress] = useState<MetadataProgress>({ files: 0, totalFiles: 0, bytes: 0, totalBytes: 0 });
+  const [unmatchedFiles, setUnmatchedFiles] = useState<File[]>([]);
+  const [pendingAnalysis, setPendingAnalysis] = useState<AnalysisCheckpoint | null>(null);
+  const [isAnalysisPaused, setIsAnalysisPaused] = useState(false);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [vaultConfig, setVaultConfig] = useState<VaultConfig | null>(loadVaultConfig);
+  const [isLocked, setIsLocked] = useState(isVaultEnabled);
+  const [showVaultSettings, setShowVaultSettings] = useState(false);
+  const [archiveDialog, setArchiveDialog] = useState<'export' | 'import' | null>(null);
+  // Files waiting in the redaction review before they are sent for analysis
+  const [pendingUpload, setPendingUpload] = useState<{ files: File[]; existing: ProcessedDocument[]; continuesPrevious?: boolean[] } | null>(null);
+  const [isAddingRecords, setIsAddingRecords] = useState(false);
+  const [reportHistory, setReportHistory] = useState<ReportData[]>([]);
+  const [showReportHistory, setShowReportHistory] = useState(false);
+  // Outcome of the last run that added records to a non-empty dossier
+  const [appendResult, setAppendResult] = useState<{ added: number; duplicates: number } | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  const reportControllerRef = useRef<AbortController | null>(null);
+  const [reportDraft, setReportDraft] = useState<ReportDraft | null>(null);
+  const [reportSettings, setReportSettings] = useState<ReportSettings>(loadReportSettings);
+  // Sealed in vault mode, so only read once storage is unlocked
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(DEFAULT_REDACTION_SETTINGS);
+  const analysisStopIntentRef = useRef<'pause' | 'cancel' | null>(null);
 
   useEffect(() => {
     const initApp = async () => {
@@ -32,17 +75,8 @@ const App: React.FC = () => {
           setHasApiKey(selected);
         }
 
-        const savedProfile = localStorage.getItem(STORAGE_KEY_PROFILE);
-        if (savedProfile) {
-          setProfile(JSON.parse(savedProfile));
-          const savedDocs = await loadDocumentsFromStorage();
-          if (savedDocs && savedDocs.length > 0) {
-            setDocuments(savedDocs);
-            setStep(AppStep.REVIEW);
-          } else {
-            setStep(AppStep.UPLOAD);
-          }
-        }
+        // An encrypted vault is hydrated only after it has been unlocked
+        if (!isVaultEnabled()) await hydrate();
       } catch (err) {
         console.error("Hydration failed", err);
       } finally {
@@ -52,6 +86,36 @@ const App: React.FC = () => {
     initApp();
   }, []);
 
+  const isBusy = (step === AppStep.ANALYZING_METADATA && !isAnalysisPaused) || step === AppStep.GENERATING_REPORT;
+
+  // Auto-lock after a period without user activity. Long-running work keeps
+  // the vault open so an unattended analysis is not interrupted.
+  useEffect(() => {
+    if (!vaultConfig || isLocked || isBusy) return;
+    let timer = window.setTimeout(handleLock, vaultConfig.autoLockMinutes * 60 * 1000);
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(handleLock, vaultConfig.autoLockMinutes * 60 * 1000);
+    };
+    const events = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(e => window.addEventListener(e, resetTimer));
+    return () => {
+      window.clearTimeout(timer);
+      events.forEach(e => window.removeEventListener(e, resetTimer));
+    };
+  }, [vaultConfig, isLocked, isBusy]);
+
+  const hydrate = async () => {
+    setRedactionSettings(await loadRedactionSettings());
+    const savedDossiers = await loadDossiers();
+    setDossiers(savedDossiers);
+    const activeId = loadActiveDossierId();
+    const savedProfile = savedDossiers.find(d => d.id === activeId) || savedDossiers[0];
+    if (savedProfile) {
+      await openDossier(savedProfile);
+    }
+  };
+
   const handleSelectKey = async () => {
     if ((window as any).aistudio) {
       await (window as any).aistudio.openSelectKey();
@@ -60,75 +124,463 @@ const App: React.FC = () => {
     }
   };
 
-  const handleProfileComplete = (newProfile: PatientProfile) => {
+  const openDossier = async (dossier: PatientProfile) => {
+    setProfile(dossier);
+    saveActiveDossierId(dossier.id);
+    setError(null);
+
+    const [storedDocs, savedReport, savedHistory, checkpoint] = await Promise.all([
+      loadDocumentsFromStorage(dossier.id),
+      loadReportFromStorage(dossier.id),
+      loadReportHistory(dossier.id),
+      loadAnalysisCheckpoint(dossier.id)
+    ]);
+
+    // Records saved before local duplicate detection existed get hashed once
+    let savedDocs = storedDocs;
+    if (storedDocs.some(d => !d.contentHash)) {
+      savedDocs = assignDuplicateClusters(await ensureDocumentHashes(storedDocs));
+      await saveDocumentsToStorage(dossier.id, savedDocs);
+    }
+    // Likewise for the searchable text of PDF and Word records
+    if (needsTextExtraction(savedDocs)) {
+      savedDocs = await ensureDocumentText(savedDocs);
+      await saveDocumentsToStorage(dossier.id, savedDocs);
+    }
+    setDocuments(savedDocs);
+    setReport(savedReport);
+    setReportHistory(savedHistory);
+    // Pick up where the saved report left off; otherwise keep the remembered type and length
+    setReportSettings(savedReport?.settings ?? loadReportSettings());
+    setUnmatchedFiles([]);
+    setPendingAnalysis(checkpoint);
+    setAppendResult(null);
+    setIsAddingRecords(false);
+
+    if (checkpoint) {
+      // An analysis was interrupted (failure or reload); offer to resume it
+      setAnalysisProgress({ files: countAnalyzedFiles(checkpoint), totalFiles: checkpoint.files.length, bytes: 0, totalBytes: 0 });
+      setIsAnalysisPaused(true);
+      setStep(AppStep.ANALYZING_METADATA);
+    } else {
+      setStep(savedDocs.length > 0 ? AppStep.REVIEW : AppStep.UPLOAD);
+    }
+  };
+
+  const updateDossiers = async (updated: PatientProfile[]) => {
+    setDossiers(updated);
+    await saveDossiers(updated);
+  };
+
+  const handleProfileComplete = async (details: Omit<PatientProfile, 'id'>) => {
+    const newProfile: PatientProfile = { ...details, id: createDossierId() };
+    await updateDossiers([...dossiers, newProfile]);
     setProfile(newProfile);
-    localStorage.setItem(STORAGE_KEY_PROFILE, JSON.stringify(newProfile));
+    saveActiveDossierId(newProfile.id);
+    setDocuments([]);
+    setReport(null);
+    setReportHistory([]);
     setStep(AppStep.UPLOAD);
   };
 
-  const handleFilesSelected = async (files: File[]) => {
+  const handleSelectDossier = async (id: string) => {
+    const dossier = dossiers.find(d => d.id === id);
+    if (!dossier || dossier.id === profile?.id) return;
+    try {
+      await openDossier(dossier);
+    } catch (err) {
+      console.error("Failed to open dossier", err);
+      setError(t('app.loadFailed'));
+    }
+  };
+
+  const handleCreateDossier = () => {
+    setError(null);
+    setStep(AppStep.REGISTRATION);
+  };
+
+  const handleCancelCreate = () => {
+    setStep(documents.length > 0 ? AppStep.REVIEW : AppStep.UPLOAD);
+  };
+
+  const handleArchiveImported = async (imported: PatientProfile) => {
+    const exists = dossiers.some(d => d.id === imported.id);
+    await updateDossiers(exists ? dossiers.map(d => d.id === imported.id ? imported : d) : [...dossiers, imported]);
+    setArchiveDialog(null);
+    await openDossier(imported);
+  };
+
+  const handleRenameDossier = async (id: string, name: string) => {
+    const updated = dossiers.map(d => d.id === id ? { ...d, name } : d);
+    await updateDossiers(updated);
+    if (profile?.id === id) setProfile({ ...profile, name });
+  };
+
+  const handleDeleteDossier = async (id: string) => {
+    const dossier = dossiers.find(d => d.id === id);
+    if (!dossier || !confirm(t('app.confirmDeleteDossier', { name: dossier.name }))) return;
+
+    await clearDocumentsStorage(id);
+    const remaining = dossiers.filter(d => d.id !== id);
+    await updateDossiers(remaining);
+
+    if (profile?.id === id) {
+      if (remaining.length > 0) {
+        await openDossier(remaining[0]);
+      } else {
+        saveActiveDossierId(null);
+        setProfile(null);
+        setDocuments([]);
+        setReport(null);
+        setReportHistory([]);
+        setStep(AppStep.REGISTRATION);
+      }
+    }
+  };
+
+  // Analyzes `files` and merges the results after `existing`. Files the model
+  // could not be matched to are kept aside instead of being guessed at.
+  const runAnalysis = async (files: File[], existing: ProcessedDocument[], redaction: AnalysisRedaction | null, continuesPrevious: boolean[]) => {
+    if (!profile) return;
     if (!hasApiKey && (window as any).aistudio) {
-      setError("Please connect your API key first using the button below.");
+      setError(t('app.connectKeyFirst'));
       return;
     }
 
+    const checkpoint: AnalysisCheckpoint = {
+      dossierId: profile.id,
+      files,
+      baseDocumentIds: existing.map(d => d.id),
+      redaction: redaction || undefined,
+      continuesPrevious,
+      nextIndex: 0,
+      documents: [],
+      unmatchedIndices: [],
+      updatedAt: new Date().toISOString()
+    };
+    await saveAnalysisCheckpoint(checkpoint);
+    await executeAnalysis(checkpoint);
+  };
+
+  // Runs (or resumes) a checkpointed analysis. Each finished batch is persisted,
+  // so a failure, pause or reload only loses the batch in flight.
+  const executeAnalysis = async (job: AnalysisCheckpoint) => {
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    analysisStopIntentRef.current = null;
+
     setError(null);
+    setPendingAnalysis(job);
+    setIsAnalysisPaused(false);
     setStep(AppStep.ANALYZING_METADATA);
-    setAnalysisProgress({ current: 0, total: files.length });
+    setAnalysisProgress({ files: countAnalyzedFiles(job), totalFiles: job.files.length, bytes: 0, totalBytes: 0 });
 
     try {
-      const metaData = await analyzeDocumentsMetadata(files, (current, total) => {
-        setAnalysisProgress({ current, total });
+      const { documents: metaData, unmatchedFiles: unmatched } = await analyzeDocumentsMetadata(job.files, setAnalysisProgress, {
+        resumeFrom: job,
+        signal: controller.signal,
+        // Resumed runs mask with the settings chosen when the run started
+        redaction: job.redaction && {
+          redactText: createTextRedactor(profile, job.redaction.settings),
+          boxes: job.redaction.boxes
+        },
+        continuesPrevious: job.continuesPrevious,
+        onRetry: (attempt, delayMs) => {
+          setRetryNotice(t('app.retrying', { seconds: Math.ceil(delayMs / 1000), attempt: attempt + 1 }));
+        },
+        onBatchComplete: async (state) => {
+          setRetryNotice(null);
+          const updated: AnalysisCheckpoint = { ...job, ...state, updatedAt: new Date().toISOString() };
+          await saveAnalysisCheckpoint(updated);
+          setPendingAnalysis(updated);
+        }
+      });
+
+      const processed: ProcessedDocument[] = metaData.map(({ pageCount, ...meta }) => {
+        const file = job.files[meta.originalIndex!];
+        return {
+          ...meta,
+          file,
+          pageFiles: pageCount ? job.files.slice(meta.originalIndex!, meta.originalIndex! + pageCount) : undefined,
+          previewUrl: URL.createObjectURL(file)
+        };
       });
 
-      const processed: ProcessedDocument[] = metaData.map((meta, index) => ({
-        ...meta,
-        file: files[index],
-        previewUrl: URL.createObjectURL(files[index])
-      }));
+      const existing = documents.filter(d => job.baseDocumentIds.includes(d.id));
+      // Duplicates are found across the whole dossier, not just this upload
+      const merged = assignDuplicateClusters(await ensureDocumentHashes([...existing, ...processed]));
+      await saveDocumentsToStorage(job.dossierId, merged);
+      await clearAnalysisCheckpoint(job.dossierId);
 
-      await saveDocumentsToStorage(processed);
-      setDocuments(processed);
+      if (existing.length > 0 && processed.length > 0) {
+        const added = merged.filter(d => processed.some(p => p.id === d.id));
+        setAppendResult({ added: added.length, duplicates: added.filter(d => d.isDuplicate).length });
+        // The saved report no longer covers every record
+        if (report && !report.isStale) {
+          const staleReport = { ...report, isStale: true };
+          await saveReportToStorage(job.dossierId, staleReport);
+          setReport(staleReport);
+        }
+      }
+      setDocuments(merged);
+      setUnmatchedFiles(unmatched);
+      setPendingAnalysis(null);
       setStep(AppStep.REVIEW);
     } catch (err: any) {
+      if (isAbortError(err) && analysisStopIntentRef.current === 'cancel') {
+        await discardAnalysis(job.dossierId);
+        return;
+      }
+
+      // Progress is checkpointed: stay on the analysis screen so the run can be resumed
+      setIsAnalysisPaused(true);
+      if (isAbortError(err)) return;
+
       const msg = typeof err === 'string' ? err : (err.message || JSON.stringify(err));
       if (msg.includes("403") || msg.includes("permission")) {
-        setError("API Permission Error: Your API key session may have expired. Please reconnect your key.");
+        setError(t('app.permissionError'));
         setHasApiKey(false);
       } else {
         setError(msg);
       }
-      setStep(AppStep.UPLOAD);
+    } finally {
+      analysisControllerRef.current = null;
+      setRetryNotice(null);
     }
   };
 
+  const discardAnalysis = async (dossierId: string) => {
+    await clearAnalysisCheckpoint(dossierId);
+    setPendingAnalysis(null);
+    setIsAnalysisPaused(false);
+    setError(null);
+    setStep(documents.length > 0 ? AppStep.REVIEW : AppStep.UPLOAD);
+  };
+
+  const handlePauseAnalysis = () => {
+    analysisStopIntentRef.current = 'pause';
+    analysisControllerRef.current?.abort();
+  };
+
+  const handleResumeAnalysis = () => {
+    if (pendingAnalysis) executeAnalysis(pendingAnalysis);
+  };
+
+  const handleCancelAnalysis = async () => {
+    if (!pendingAnalysis || !confirm(t('app.confirmCancelAnalysis'))) return;
+    if (analysisControllerRef.current) {
+      // The running analysis discards its checkpoint once it has stopped
+      analysisStopIntentRef.current = 'cancel';
+      analysisControllerRef.current.abort();
+    } else {
+      await discardAnalysis(pendingAnalysis.dossierId);
+    }
+  };
+
+  // New uploads are always merged after the records already in the dossier
+  const handleFilesSelected = (files: File[]) => {
+    setIsAddingRecords(false);
+    setAppendResult(null);
+    setPendingUpload({ files, existing: documents });
+  };
+
+  const handleRetryUnmatched = () => setPendingUpload({ files: unmatchedFiles, existing: documents });
+
+  const handleRedactionSettingsChange = async (next: RedactionSettings) => {
+    setRedactionSettings(next);
+    await saveRedactionSettings(next);
+  };
+
+  const handleRedactionConfirmed = (redaction: AnalysisRedaction | null, continuesPrevious: boolean[]) => {
+    if (!pendingUpload) return;
+    setPendingUpload(null);
+    runAnalysis(pendingUpload.files, pendingUpload.existing, redaction, continuesPrevious);
+  };
+
+  // Regrouping re-analyzes the pages involved; the records they came from are
+  // replaced once the new analysis is merged.
+  const handleSplitPages = (id: string) => {
+    const doc = documents.find(d => d.id === id);
+    if (!doc) return;
+    const files = getDocumentPages(doc);
+    setAppendResult(null);
+    setPendingUpload({ files, existing: documents.filter(d => d.id !== id), continuesPrevious: files.map(() => false) });
+  };
+
+  // `ids` in page order
+  const handleJoinPages = (ids: string[]) => {
+    const selected = ids.map(id => documents.find(d => d.id === id)).filter((d): d is ProcessedDocument => !!d);
+    const files = selected.flatMap(getDocumentPages);
+    setAppendResult(null);
+    setPendingUpload({ files, existing: documents.filter(d => !ids.includes(d.id)), continuesPrevious: files.map((_, i) => i > 0) });
+  };
+
   const handleRemoveDocument = async (id: string) => {
-    const updated = documents.filter(d => d.id !== id);
+    if (!profile) return;
+    // Re-cluster so a removed canonical copy hands over to another member
+    const updated = assignDuplicateClusters(documents.filter(d => d.id !== id), documents);
     setDocuments(updated);
-    await removeDocumentFromStorage(id);
+    await saveDocumentsToStorage(profile.id, updated);
   };
 
+  const handleKeepCopy = async (groupId: string, docId: string) => {
+    if (!profile) return;
+    const updated = chooseCanonicalCopy(documents, groupId, docId);
+    setDocuments(updated);
+    await saveDocumentsToStorage(profile.id, updated);
+  };
+
+  const handleUpdateDocument = async (updated: ProcessedDocument) => {
+    if (!profile) return;
+    setDocuments(documents.map(d => d.id === updated.id ? updated : d));
+    await saveDocumentToStorage(profile.id, updated);
+  };
+
+  // Nothing is saved until the stream has completed, so a cancelled or failed
+  // run leaves the records and the previously saved report as they were.
   const handleGenerateReport = async () => {
+    if (!profile) return;
+    const controller = new AbortController();
+    reportControllerRef.current = controller;
+    setReportDraft(null);
+    setError(null);
     setStep(AppStep.GENERATING_REPORT);
     try {
-      const reportData = await generateMedicalReport(documents);
+      const reportData = await generateMedicalReport(documents, {
+        settings: reportSettings,
+        redactText: createTextRedactor(profile, redactionSettings),
+        signal: controller.signal,
+        onDraft: setReportDraft
+      });
+      await saveReportToStorage(profile.id, reportData);
+      await saveReportVersion(profile.id, reportData);
       setReport(reportData);
+      setReportHistory(prev => [...prev, reportData]);
+      setAppendResult(null);
       setStep(AppStep.RESULT);
     } catch (err: any) {
-        setError("Report generation failed. Try reconnecting your API key.");
-        setStep(AppStep.REVIEW);
+      if (!isAbortError(err)) {
+        const msg = typeof err === 'string' ? err : (err.message || JSON.stringify(err));
+        setError(t('app.reportFailed', { message: msg }));
+      }
+      setStep(AppStep.REVIEW);
+    } finally {
+      reportControllerRef.current = null;
+      setReportDraft(null);
     }
   };
 
+  const handleCancelReport = () => reportControllerRef.current?.abort();
+
+  const handleReportSettingsChange = (settings: ReportSettings) => {
+    setReportSettings(settings);
+    saveReportSettings(settings);
+  };
+
+  // Makes an earlier version the current report again
+  const handleOpenReportVersion = async (version: ReportData) => {
+    if (!profile) return;
+    const basedOn = new Set(version.version?.documentIds);
+    const active = documents.map(resolveDocument).filter(isReportSource);
+    const reopened: ReportData = {
+      ...version,
+      isStale: active.length !== basedOn.size || active.some(d => !basedOn.has(d.id))
+    };
+    await saveReportToStorage(profile.id, reopened);
+    setReport(reopened);
+    setShowReportHistory(false);
+    setStep(AppStep.RESULT);
+  };
+
   const handleReset = async () => {
-    if (confirm("Clear all records?")) {
-        await clearDocumentsStorage();
+    if (profile && confirm(t('app.confirmClear', { name: profile.name }))) {
+        await clearDocumentsStorage(profile.id);
         setDocuments([]);
         setReport(null);
+        setReportHistory([]);
+        setUnmatchedFiles([]);
+        setPendingAnalysis(null);
+        setAppendResult(null);
         setStep(AppStep.UPLOAD);
     }
   };
 
+  const handleUnlock = async (passphrase: string): Promise<boolean> => {
+    if (!(await unlockVault(passphrase))) return false;
+    setIsLocked(false);
+    try {
+      await hydrate();
+    } catch (err) {
+      console.error("Hydration failed", err);
+      setError(t('app.vaultReadFailed'));
+    }
+    return true;
+  };
+
+  // Drops every decrypted record from memory; storage stays encrypted.
+  const handleLock = () => {
+    // A report finishing after the key is gone could not be stored encrypted
+    reportControllerRef.current?.abort();
+    lockVault();
+    setDocuments(prev => {
+      prev.forEach(d => URL.revokeObjectURL(d.previewUrl));
+      return [];
+    });
+    setDossiers([]);
+    setProfile(null);
+    setReport(null);
+    setReportHistory([]);
+    setShowReportHistory(false);
+    setReportSettings(loadReportSettings());
+    setRedactionSettings(DEFAULT_REDACTION_SETTINGS);
+    setUnmatchedFiles([]);
+    setPendingAnalysis(null);
+    setIsAnalysisPaused(false);
+    setError(null);
+    setShowVaultSettings(false);
+    setArchiveDialog(null);
+    setPendingUpload(null);
+    setIsAddingRecords(false);
+    setAppendResult(null);
+    setStep(AppStep.REGISTRATION);
+    setIsLocked(true);
+  };
+
+  const handleResetVault = async () => {
+    if (!confirm(t('app.confirmErase'))) return;
+    await resetVault();
+    setVaultConfig(null);
+    setIsLocked(false);
+    setStep(AppStep.REGISTRATION);
+  };
+
+  const handleEnableVault = async (passphrase: string, autoLockMinutes: number) => {
+    await enableVault(passphrase, autoLockMinutes);
+    setVaultConfig(loadVaultConfig());
+  };
+
+  const handleChangePassphrase = async (current: string, next: string) => {
+    const changed = await changeVaultPassphrase(current, next);
+    if (changed) setVaultConfig(loadVaultConfig());
+    return changed;
+  };
+
+  const handleDisableVault = async (current: string) => {
+    const disabled = await disableVault(current);
+    if (disabled) setVaultConfig(null);
+    return disabled;
+  };
+
+  const handleAutoLockChange = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    setVaultConfig(loadVaultConfig());
+  };
+
+  // Measured by payload once batches are planned, as one large file can outweigh many small ones
+  const analysisFraction = analysisProgress.totalBytes > 0
+    ? analysisProgress.bytes / analysisProgress.totalBytes
+    : analysisProgress.files / (analysisProgress.totalFiles || 1);
+
   if (isInitializing) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-slate-50">
@@ -146,17 +598,47 @@ const App: React.FC = () => {
             <span className="font-black text-xl tracking-tight">MediChronicle AI</span>
           </div>
           <div className="flex items-center gap-4">
+            <label className="flex items-center gap-1.5 text-slate-400 hover:text-medical-600 transition-colors" title={t('app.language')}>
+              <Languages className="w-3 h-3" />
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                aria-label={t('app.language')}
+                className="bg-transparent text-[10px] font-black uppercase tracking-widest focus:outline-none cursor-pointer"
+              >
+                {LANGUAGES.map(language => <option key={language.id} value={language.id}>{language.nativeName}</option>)}
+              </select>
+            </label>
+            {dossiers.length > 0 && !isLocked && !isBusy && (
+              <DossierSwitcher
+                dossiers={dossiers}
+                activeId={profile?.id || null}
+                onSelect={handleSelectDossier}
+                onCreate={handleCreateDossier}
+                onImport={() => setArchiveDialog('import')}
+                onRename={handleRenameDossier}
+                onDelete={handleDeleteDossier}
+              />
+            )}
             {!hasApiKey && (window as any).aistudio && (
               <button 
                 onClick={handleSelectKey}
                 className="text-[10px] font-black uppercase tracking-widest text-white bg-medical-600 px-3 py-1.5 rounded-lg flex items-center gap-1.5 hover:bg-medical-700 transition-colors"
               >
-                <Key className="w-3 h-3" /> Connect Key
+                <Key className="w-3 h-3" /> {t('app.connectKey')}
+              </button>
+            )}
+            {!isLocked && !isBusy && (
+              <button
+                onClick={() => setShowVaultSettings(true)}
+                className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-1.5 hover:text-medical-600 transition-colors"
+              >
+                {vaultConfig ? <ShieldCheck className="w-3 h-3 text-medical-500" /> : <Lock className="w-3 h-3" />} {t('app.vault')}
               </button>
             )}
             {profile && (
               <button onClick={handleReset} className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-1.5 hover:text-red-500 transition-colors">
-                <RefreshCcw className="w-3 h-3" /> Clear Dossier
+                <RefreshCcw className="w-3 h-3" /> {t('app.clearDossier')}
               </button>
             )}
           </div>
@@ -172,53 +654,172 @@ const App: React.FC = () => {
                 onClick={handleSelectKey}
                 className="bg-red-600 text-white text-xs font-black uppercase tracking-widest py-3 px-6 rounded-xl self-start hover:bg-red-700 transition-all"
               >
-                Reconnect API Key
+                {t('app.reconnectKey')}
               </button>
             )}
           </div>
         )}
 
-        {step === AppStep.REGISTRATION && <RegistrationForm onComplete={handleProfileComplete} />}
+        {isLocked && <VaultUnlock onUnlock={handleUnlock} onReset={handleResetVault} />}
+
+        {!isLocked && step === AppStep.REGISTRATION && <RegistrationForm onComplete={handleProfileComplete} onCancel={profile ? handleCancelCreate : undefined} onImport={() => setArchiveDialog('import')} />}
         {step === AppStep.UPLOAD && <FileUpload onFilesSelected={handleFilesSelected} />}
         
         {step === AppStep.ANALYZING_METADATA && (
           <div className="text-center py-20 animate-in zoom-in duration-300">
             <div className="relative inline-block mb-8">
-                <Loader2 className="w-16 h-16 animate-spin text-medical-500" />
+                {isAnalysisPaused ? (
+                    <Pause className="w-16 h-16 text-slate-300" />
+                ) : (
+                    <Loader2 className="w-16 h-16 animate-spin text-medical-500" />
+                )}
                 <div className="absolute inset-0 flex items-center justify-center text-[10px] font-black text-medical-600">
-                    {Math.round((analysisProgress.current / analysisProgress.total) * 100)}%
+                    {Math.round(analysisFraction * 100)}%
                 </div>
             </div>
-            <h3 className="text-xl font-black text-slate-900 mb-2">Analyzing Medical Records</h3>
-            <p className="text-slate-500 text-sm">Processing record {analysisProgress.current} of {analysisProgress.total}...</p>
+            <h3 className="text-xl font-black text-slate-900 mb-2">{isAnalysisPaused ? t('app.analysisPaused') : t('app.analyzing')}</h3>
+            <p className="text-slate-500 text-sm">
+                {isAnalysisPaused
+                    ? t('app.pausedProgress', analysisProgress)
+                    : t('app.progress', analysisProgress)}
+            </p>
+            {analysisProgress.totalBytes > 0 && !isAnalysisPaused && (
+                <p className="text-slate-400 text-xs mt-1">
+                    {t('app.progressBytes', { sent: formatMegabytes(analysisProgress.bytes, locale), total: formatMegabytes(analysisProgress.totalBytes, locale) })}
+                </p>
+            )}
+            {retryNotice && !isAnalysisPaused && <p className="text-amber-600 text-xs font-bold mt-2">{retryNotice}</p>}
             <div className="max-w-md mx-auto mt-8 bg-slate-200 h-2 rounded-full overflow-hidden">
                 <div 
-                    className="bg-medical-500 h-full transition-all duration-500" 
-                    style={{ width: `${(analysisProgress.current / (analysisProgress.total || 1)) * 100}%` }}
+                    className={`${isAnalysisPaused ? 'bg-slate-400' : 'bg-medical-500'} h-full transition-all duration-500`}
+                    style={{ width: `${analysisFraction * 100}%` }}
                 />
             </div>
+            <div className="flex justify-center gap-3 mt-8">
+                {isAnalysisPaused ? (
+                    <button onClick={handleResumeAnalysis} className="text-[10px] font-black uppercase tracking-widest text-white bg-medical-600 px-4 py-2 rounded-lg flex items-center gap-1.5 hover:bg-medical-700 transition-colors">
+                        <Play className="w-3 h-3" /> {t('app.resume')}
+                    </button>
+                ) : (
+                    <button onClick={handlePauseAnalysis} className="text-[10px] font-black uppercase tracking-widest text-slate-600 border border-slate-200 px-4 py-2 rounded-lg flex items-center gap-1.5 hover:border-medical-200 transition-colors">
+                        <Pause className="w-3 h-3" /> {t('app.pause')}
+                    </button>
+                )}
+                <button onClick={handleCancelAnalysis} className="text-[10px] font-black uppercase tracking-widest text-slate-400 px-4 py-2 rounded-lg flex items-center gap-1.5 hover:text-red-500 transition-colors">
+                    <X className="w-3 h-3" /> {t('common.cancel')}
+                </button>
+            </div>
           </div>
         )}
 
         {step === AppStep.REVIEW && (
           <div className="grid lg:grid-cols-3 gap-10">
             <div className="lg:col-span-2">
-              <Timeline documents={documents} onRemove={handleRemoveDocument} />
+              {unmatchedFiles.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 mb-6 flex items-start gap-3 shadow-sm">
+                  <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-amber-800 font-bold text-sm uppercase tracking-tight">{t('app.notAnalyzed', { count: unmatchedFiles.length })}</p>
+                    <p className="text-xs text-amber-700">{t('app.notAnalyzedHint')}</p>
+                    <ul className="mt-2 text-[10px] text-amber-700 font-medium italic space-y-0.5">
+                      {unmatchedFiles.map((file, i) => <li key={`${file.name}-${i}`} className="truncate">{file.name}</li>)}
+                    </ul>
+                    <div className="flex gap-3 mt-3">
+                      <button onClick={handleRetryUnmatched} className="text-[10px] font-black uppercase tracking-widest text-white bg-amber-600 px-3 py-1.5 rounded-lg hover:bg-amber-700 transition-colors">
+                        {t('app.retryAnalysis')}
+                      </button>
+                      <button onClick={() => setUnmatchedFiles([])} className="text-[10px] font-black uppercase tracking-widest text-amber-700 hover:text-amber-900 transition-colors">
+                        {t('app.dismiss')}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+              {appendResult && (
+                <div className="bg-emerald-50 border border-emerald-200 rounded-2xl p-4 mb-6 flex items-start gap-3 shadow-sm">
+                  <CheckCircle2 className="w-5 h-5 text-emerald-500 shrink-0 mt-0.5" />
+                  <div className="flex-1">
+                    <p className="text-emerald-800 font-bold text-sm uppercase tracking-tight">{t('app.recordsAdded', { count: appendResult.added })}</p>
+                    <p className="text-xs text-emerald-700">
+                      {appendResult.duplicates > 0
+                        ? t('app.duplicatesAdded', { count: appendResult.duplicates })
+                        : ''}
+                      {report ? t('app.reportNotUpdated') : ''}
+                    </p>
+                  </div>
+                  <button onClick={() => setAppendResult(null)} className="p-1 text-emerald-600 hover:text-emerald-800 rounded-lg">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+              {isAddingRecords && (
+                <div className="mb-6">
+                  <div className="flex justify-between items-center mb-3">
+                    <h4 className="font-black text-slate-900 uppercase tracking-tighter">{t('app.addRecords')}</h4>
+                    <button onClick={() => setIsAddingRecords(false)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-1.5 hover:text-slate-600 transition-colors">
+                      <X className="w-3 h-3" /> {t('common.cancel')}
+                    </button>
+                  </div>
+                  <FileUpload onFilesSelected={handleFilesSelected} />
+                </div>
+              )}
+              <Timeline
+                documents={documents}
+                onRemove={handleRemoveDocument}
+                onUpdate={handleUpdateDocument}
+                onKeepCopy={handleKeepCopy}
+                onSplitPages={handleSplitPages}
+                onJoinPages={handleJoinPages}
+              />
             </div>
             <div className="sticky top-24 h-fit">
               <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-2xl ring-1 ring-slate-100">
-                <h4 className="font-black text-slate-900 uppercase tracking-tighter mb-4">Summary</h4>
+                <h4 className="font-black text-slate-900 uppercase tracking-tighter mb-4">{t('app.summary')}</h4>
                 <div className="space-y-3 mb-8">
                     <div className="flex justify-between text-sm">
-                        <span className="text-slate-500">Records</span>
+                        <span className="text-slate-500">{t('app.records')}</span>
                         <span className="font-bold">{documents.length}</span>
                     </div>
                 </div>
+                <button
+                  onClick={() => setIsAddingRecords(true)}
+                  disabled={isAddingRecords}
+                  className="w-full mb-3 border border-slate-200 text-slate-600 py-4 rounded-2xl font-black uppercase tracking-widest text-[10px] flex items-center justify-center gap-2 hover:border-medical-200 hover:text-medical-600 transition-all disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" /> {t('app.addRecords')}
+                </button>
+                <div className="border-t border-slate-100 pt-5 mt-5 mb-5">
+                  <ReportSettingsPanel settings={reportSettings} onChange={handleReportSettingsChange} />
+                </div>
                 <button 
                   onClick={handleGenerateReport}
-                  className="w-full bg-slate-900 text-white py-5 rounded-2xl font-black uppercase tracking-widest text-xs flex items-center justify-center gap-3 hover:bg-slate-800 transition-all shadow-xl active:scale-95"
+                  disabled={!isReportSettingsComplete(reportSettings)}
+                  className="w-full bg-slate-900 text-white py-5 rounded-2xl font-black uppercase tracking-widest text-xs flex items-center justify-center gap-3 hover:bg-slate-800 transition-all shadow-xl active:scale-95 disabled:opacity-50 disabled:active:scale-100"
+                >
+                  {t('app.synthesize')} <ArrowRight className="w-4 h-4 rtl:rotate-180" />
+                </button>
+                {report && (
+                  <button
+                    onClick={() => setStep(AppStep.RESULT)}
+                    className="w-full mt-3 border border-slate-200 text-slate-600 py-4 rounded-2xl font-black uppercase tracking-widest text-[10px] flex items-center justify-center gap-2 hover:border-medical-200 hover:text-medical-600 transition-all"
+                  >
+                    <FileText className="w-4 h-4" /> {t('app.openReport')}
+                    {report.isStale && <span className="text-amber-600">{t('app.outdated')}</span>}
+                  </button>
+                )}
+                {reportHistory.length > 0 && (
+                  <button
+                    onClick={() => setShowReportHistory(true)}
+                    className="w-full mt-3 text-slate-400 py-2 font-black uppercase tracking-widest text-[10px] flex items-center justify-center gap-2 hover:text-medical-600 transition-colors"
+                  >
+                    <History className="w-4 h-4" /> {t('app.reportHistoryCount', { count: reportHistory.length })}
+                  </button>
+                )}
+                <button
+                  onClick={() => setArchiveDialog('export')}
+                  className="w-full mt-3 text-slate-400 py-2 font-black uppercase tracking-widest text-[10px] flex items-center justify-center gap-2 hover:text-medical-600 transition-colors"
                 >
-                  Synthesize History <ArrowRight className="w-4 h-4" />
+                  <Archive className="w-4 h-4" /> {t('app.exportDossier')}
                 </button>
               </div>
             </div>
@@ -226,17 +827,70 @@ const App: React.FC = () => {
         )}
 
         {step === AppStep.GENERATING_REPORT && (
-          <div className="text-center py-20">
-            <Loader2 className="w-12 h-12 animate-spin mx-auto text-medical-600 mb-6" />
-            <h3 className="text-xl font-black text-slate-900">Synthesizing Records</h3>
-            <p className="text-slate-500 mt-2 text-sm">Generating long-form clinical synthesis...</p>
-          </div>
+          <ReportStream settings={reportSettings} draft={reportDraft} onCancel={handleCancelReport} />
         )}
 
         {step === AppStep.RESULT && report && (
-          <ReportDisplay report={report} documents={documents} patientName={profile?.name} />
+          <div className="space-y-6">
+            <div className="flex justify-between items-center">
+              <button
+                onClick={() => setStep(AppStep.REVIEW)}
+                className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-1.5 hover:text-medical-600 transition-colors"
+              >
+                <ArrowLeft className="w-3 h-3 rtl:rotate-180" /> {t('app.backToRecords')}
+              </button>
+              {reportHistory.length > 0 && (
+                <button
+                  onClick={() => setShowReportHistory(true)}
+                  className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-1.5 hover:text-medical-600 transition-colors"
+                >
+                  <History className="w-3 h-3" /> {t('app.reportHistory')}
+                </button>
+              )}
+            </div>
+            <ReportDisplay report={report} documents={documents} profile={profile} onRegenerate={handleGenerateReport} />
+          </div>
         )}
       </main>
+
+      {archiveDialog === 'export' && profile && (
+        <ExportArchiveDialog profile={profile} documents={documents} report={report} reportHistory={reportHistory} onClose={() => setArchiveDialog(null)} />
+      )}
+      {showReportHistory && (
+        <ReportHistory
+          versions={reportHistory}
+          currentId={report?.version?.id}
+          documents={documents}
+          onOpen={handleOpenReportVersion}
+          onClose={() => setShowReportHistory(false)}
+        />
+      )}
+      {pendingUpload && profile && (
+        <RedactionReview
+          files={pendingUpload.files}
+          continuesPrevious={pendingUpload.continuesPrevious}
+          profile={profile}
+          settings={redactionSettings}
+          onSettingsChange={handleRedactionSettingsChange}
+          onConfirm={handleRedactionConfirmed}
+          onCancel={() => setPendingUpload(null)}
+        />
+      )}
+      {archiveDialog === 'import' && (
+        <ImportArchiveDialog dossiers={dossiers} onImported={handleArchiveImported} onClose={() => setArchiveDialog(null)} />
+      )}
+
+      {showVaultSettings && (
+        <VaultSettings
+          config={vaultConfig}
+          onEnable={handleEnableVault}
+          onChangePassphrase={handleChangePassphrase}
+          onDisable={handleDisableVault}
+          onAutoLockChange={handleAutoLockChange}
+          onLock={handleLock}
+          onClose={() => setShowVaultSettings(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,88 @@
+import React from 'react';
+import { ProcessedDocument } from '../types';
+import { buildChronology } from '../services/timelineService';
+import { useTranslation } from './LanguageProvider';
+
+interface ChronologyViewProps {
+  // Resolved documents as currently filtered.
+  documents: ProcessedDocument[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+// Dots stacked per month before the column collapses into a "+n" marker.
+const MAX_STACK = 10;
+
+const DOT_COLORS: Record<ProcessedDocument['type'], string> = {
+  LAB: 'bg-blue-500',
+  IMAGING: 'bg-purple-500',
+  PRESCRIPTION: 'bg-green-500',
+  NOTE: 'bg-slate-500',
+  OTHER: 'bg-slate-300',
+};
+
+export const ChronologyView: React.FC<ChronologyViewProps> = ({ documents, selectedId, onSelect }) => {
+  const { t, language } = useTranslation();
+  const buckets = buildChronology(documents);
+  const undatedCount = documents.filter(d => !d.date).length;
+
+  return (
+    <div className="bg-white border border-slate-100 rounded-2xl p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('chronology.title')}</p>
+        <div className="flex items-center gap-3">
+          {(['LAB', 'IMAGING', 'PRESCRIPTION', 'NOTE', 'OTHER'] as const).map(type => (
+            <span key={type} className="flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-slate-400">
+              <span className={`w-2 h-2 rounded-full ${DOT_COLORS[type]}`} /> {t(`docType.${type}`)}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {buckets.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">{t('chronology.empty')}</p>
+      ) : (
+        <div className="overflow-x-auto pb-1">
+          <div className="flex items-end gap-1 min-w-max">
+            {buckets.map((bucket, i) => {
+              const label = new Date(bucket.year, bucket.month).toLocaleDateString(language.tag, { year: 'numeric', month: 'long' });
+              const shown = bucket.documents.slice(0, MAX_STACK);
+              const hidden = bucket.documents.slice(MAX_STACK);
+              return (
+                <div key={bucket.key} className="flex flex-col items-center w-5" title={t('chronology.bucket', { month: label, count: bucket.documents.length })}>
+                  <div className="h-36 flex flex-col-reverse items-center gap-0.5">
+                    {shown.map(doc => (
+                      <button
+                        key={doc.id}
+                        onClick={() => onSelect(doc.id)}
+                        title={`${doc.date} · ${t(`docType.${doc.type}`)}: ${doc.summary}`}
+                        className={`w-3 h-3 rounded-full ${DOT_COLORS[doc.type]} ${doc.isDuplicate ? 'opacity-40' : ''} ${selectedId === doc.id ? 'ring-2 ring-offset-1 ring-medical-500' : ''} hover:scale-125 transition-transform`}
+                      />
+                    ))}
+                    {hidden.length > 0 && (
+                      <button
+                        onClick={() => onSelect(hidden[0].id)}
+                        title={t('chronology.more', { count: hidden.length, month: label })}
+                        className="text-[8px] font-black text-slate-500 hover:text-medical-600"
+                      >
+                        +{hidden.length}
+                      </button>
+                    )}
+                  </div>
+                  <div className={`w-full h-px mt-1 ${bucket.month === 0 ? 'bg-slate-400' : 'bg-slate-200'}`} />
+                  <span className="h-4 text-[8px] font-black text-slate-400 whitespace-nowrap">
+                    {bucket.month === 0 || i === 0 ? bucket.year : ''}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {undatedCount > 0 && (
+        <p className="mt-2 text-[10px] text-slate-400 italic">{t('chronology.undated', { count: undatedCount })}</p>
+      )}
+    </div>
+  );
+};
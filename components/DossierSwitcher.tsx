@@ -0,0 +1,121 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { PatientProfile } from '../types';
+import { useTranslation } from './LanguageProvider';
+import { Users, ChevronDown, Plus, Pencil, Trash2, Check, X, Upload } from 'lucide-react';
+
+interface DossierSwitcherProps {
+  dossiers: PatientProfile[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onImport: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const DossierSwitcher: React.FC<DossierSwitcherProps> = ({ dossiers, activeId, onSelect, onCreate, onImport, onRename, onDelete }) => {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const active = dossiers.find(d => d.id === activeId);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setEditingId(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const startRename = (dossier: PatientProfile) => {
+    setEditingId(dossier.id);
+    setDraftName(dossier.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-[10px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-1.5 border border-slate-200 px-3 py-1.5 rounded-lg hover:border-medical-200 transition-colors"
+      >
+        <Users className="w-3 h-3 text-medical-500" />
+        <span className="max-w-[140px] truncate">{active ? active.name : t('dossiers.select')}</span>
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute end-0 z-[60] mt-2 w-72 bg-white border border-slate-200 rounded-2xl shadow-2xl p-2">
+          <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-3 pt-2 pb-1">{t('dossiers.title')}</p>
+          <div className="max-h-72 overflow-y-auto">
+            {dossiers.map(dossier => (
+              <div
+                key={dossier.id}
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl group ${dossier.id === activeId ? 'bg-medical-50' : 'hover:bg-slate-50'}`}
+              >
+                {editingId === dossier.id ? (
+                  <>
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 text-sm font-medium border border-slate-200 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-medical-500"
+                    />
+                    <button onClick={commitRename} className="p-1 text-medical-600 hover:bg-medical-100 rounded-lg" title={t('common.save')}>
+                      <Check className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:bg-slate-100 rounded-lg" title={t('common.cancel')}>
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => { onSelect(dossier.id); setIsOpen(false); }}
+                      className="flex-1 min-w-0 text-start"
+                    >
+                      <p className={`text-sm truncate ${dossier.id === activeId ? 'font-black text-medical-700' : 'font-bold text-slate-700'}`}>{dossier.name}</p>
+                      <p className="text-[10px] text-slate-400">{dossier.dob} · {t(`gender.${dossier.gender}`)}</p>
+                    </button>
+                    <button onClick={() => startRename(dossier)} className="p-1 text-slate-300 hover:text-medical-600 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity" title={t('dossiers.rename')}>
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => onDelete(dossier.id)} className="p-1 text-slate-300 hover:text-red-500 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity" title={t('common.delete')}>
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => { onCreate(); setIsOpen(false); }}
+            className="w-full mt-1 flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-black uppercase tracking-widest text-medical-600 hover:bg-medical-50 transition-colors"
+          >
+            <Plus className="w-3.5 h-3.5" /> {t('dossiers.new')}
+          </button>
+          <button
+            onClick={() => { onImport(); setIsOpen(false); }}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-black uppercase tracking-widest text-slate-500 hover:bg-slate-50 transition-colors"
+          >
+            <Upload className="w-3.5 h-3.5" /> {t('dossiers.import')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
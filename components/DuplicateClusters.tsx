@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { ProcessedDocument } from '../types';
+import { resolveDocument } from '../services/documentService';
+import { useTranslation } from './LanguageProvider';
+import { AlertTriangle, ChevronDown, ChevronUp, CheckCircle2, File as FileIcon } from 'lucide-react';
+
+interface DuplicateClustersProps {
+  clusters: ProcessedDocument[][];
+  onKeep: (groupId: string, docId: string) => void;
+}
+
+export const DuplicateClusters: React.FC<DuplicateClustersProps> = ({ clusters, onKeep }) => {
+  const { t } = useTranslation();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (clusters.length === 0) return null;
+  const duplicateCount = clusters.reduce((sum, cluster) => sum + cluster.length - 1, 0);
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 shadow-sm">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" />
+        <div className="flex-1">
+          <p className="text-amber-800 font-bold text-sm uppercase tracking-tight">{t('duplicates.title')}</p>
+          <p className="text-xs text-amber-700">
+            {t('duplicates.summary', { copies: duplicateCount, groups: clusters.length })}
+          </p>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="text-[10px] font-black uppercase tracking-widest text-amber-700 flex items-center gap-1 hover:text-amber-900 transition-colors"
+        >
+          {isExpanded ? t('common.hide') : t('common.review')} {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          {clusters.map(cluster => {
+            const groupId = cluster[0].duplicateGroupId!;
+            const exact = cluster.every(d => d.contentHash === cluster[0].contentHash);
+            return (
+              <div key={groupId} className="bg-white rounded-xl border border-amber-100 p-3">
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-2">
+                  {exact ? t('duplicates.identical') : t('duplicates.visual')}
+                </p>
+                <div className="flex gap-3 overflow-x-auto">
+                  {cluster.map(source => {
+                    const doc = resolveDocument(source);
+                    const isKept = !doc.isDuplicate;
+                    return (
+                      <div key={doc.id} className={`w-28 shrink-0 rounded-lg border p-1.5 ${isKept ? 'border-emerald-300 bg-emerald-50' : 'border-slate-100'}`}>
+                        <div className="aspect-[3/4] bg-slate-50 rounded-md overflow-hidden flex items-center justify-center">
+                          {doc.file.type.startsWith('image/') ? (
+                            <img src={doc.previewUrl} alt={t('duplicates.copy')} className="w-full h-full object-cover" />
+                          ) : (
+                            <FileIcon className="w-8 h-8 text-slate-300" />
+                          )}
+                        </div>
+                        <p className="text-[9px] text-slate-500 font-medium truncate mt-1" title={doc.file.name}>{doc.file.name}</p>
+                        {isKept ? (
+                          <p className="text-[9px] font-black uppercase tracking-widest text-emerald-600 flex items-center gap-1 mt-1">
+                            <CheckCircle2 className="w-3 h-3" /> {t('duplicates.kept')}
+                          </p>
+                        ) : (
+                          <button
+                            onClick={() => onKeep(groupId, doc.id)}
+                            className="text-[9px] font-black uppercase tracking-widest text-medical-600 hover:text-medical-800 mt-1"
+                          >
+                            {t('duplicates.keep')}
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { PatientProfile, ProcessedDocument, ReportData } from '../types';
+import { createDossierArchive } from '../services/archiveService';
+import { useTranslation } from './LanguageProvider';
+import { Archive, Loader2, X } from 'lucide-react';
+
+interface ExportArchiveDialogProps {
+  profile: PatientProfile;
+  documents: ProcessedDocument[];
+  report: ReportData | null;
+  reportHistory: ReportData[];
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none transition-all font-medium text-sm";
+const labelClass = "block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2";
+
+export const ExportArchiveDialog: React.FC<ExportArchiveDialogProps> = ({ profile, documents, report, reportHistory, onClose }) => {
+  const { t } = useTranslation();
+  const [usePassword, setUsePassword] = useState(true);
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (usePassword && !password) return setError(t('exportArchive.passwordMissing'));
+    if (usePassword && password !== confirmation) return setError(t('exportArchive.passwordMismatch'));
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await createDossierArchive(profile, documents, report, reportHistory, usePassword ? password : undefined);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `MediChronicle_Dossier_${profile.name.replace(/\s+/g, '_')}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (err) {
+      console.error("Archive Export Error:", err);
+      setError(t('exportArchive.failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-900/40 flex items-center justify-center p-4" onClick={isExporting ? undefined : onClose}>
+      <form onSubmit={handleExport} className="bg-white w-full max-w-md rounded-[2rem] shadow-2xl p-8 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-3">
+            <Archive className="w-6 h-6 text-medical-600" />
+            <div>
+              <h3 className="font-black text-slate-900 uppercase tracking-tighter">{t('exportArchive.title')}</h3>
+              <p className="text-xs text-slate-500">
+                {reportHistory.length > 1
+                  ? t('exportArchive.summaryVersions', { name: profile.name, records: documents.length, versions: reportHistory.length })
+                  : report
+                    ? t('exportArchive.summaryReport', { name: profile.name, records: documents.length })
+                    : t('exportArchive.summary', { name: profile.name, records: documents.length })}
+              </p>
+            </div>
+          </div>
+          <button type="button" onClick={onClose} disabled={isExporting} className="p-1 text-slate-400 hover:text-slate-600 rounded-lg">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-700 cursor-pointer">
+          <input type="checkbox" checked={usePassword} onChange={(e) => setUsePassword(e.target.checked)} className="accent-medical-600" />
+          {t('exportArchive.protect')}
+        </label>
+
+        {usePassword ? (
+          <>
+            <div>
+              <label className={labelClass}>{t('archive.password')}</label>
+              <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('exportArchive.confirmPassword')}</label>
+              <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} className={inputClass} />
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl p-3">
+            {t('exportArchive.unprotectedWarning')}
+          </p>
+        )}
+
+        {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={isExporting}
+          className="w-full bg-medical-600 text-white py-3 rounded-xl font-black uppercase tracking-widest text-[10px] flex items-center justify-center gap-2 hover:bg-medical-700 transition-all disabled:opacity-60"
+        >
+          {isExporting && <Loader2 className="w-3 h-3 animate-spin" />} {t('exportArchive.download')}
+        </button>
+      </form>
+    </div>
+  );
+};
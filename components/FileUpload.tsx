@@ -1,5 +1,6 @@
 
 import React, { useCallback } from 'react';
+import { useTranslation } from './LanguageProvider';
 import { Upload, FileText, FileImage } from 'lucide-react';
 
 interface FileUploadProps {
@@ -14,6 +15,7 @@ const SUPPORTED_TYPES = [
 ];
 
 export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected }) => {
+  const { t } = useTranslation();
   const handleFiles = (incomingFiles: FileList | null) => {
     if (!incomingFiles) return;
     const files = Array.from(incomingFiles).filter((file: File) => SUPPORTED_TYPES.includes(file.type));
@@ -48,16 +50,16 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected }) => {
         <div className="bg-medical-50 p-4 rounded-full mb-4 group-hover:scale-110 transition-transform">
             <Upload className="w-8 h-8 text-medical-600" />
         </div>
-        <h3 className="text-lg font-semibold text-slate-700 mb-2">Upload Medical Documents</h3>
+        <h3 className="text-lg font-semibold text-slate-700 mb-2">{t('upload.title')}</h3>
         <p className="text-slate-500 text-sm mb-6 max-w-xs mx-auto">
-          Drag and drop photos, PDFs, or Word documents of your labs, imaging, or prescriptions.
+          {t('upload.hint')}
         </p>
         <span className="bg-medical-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-medical-500 transition-colors shadow-md">
-            Select Files
+            {t('upload.select')}
         </span>
         <div className="mt-4 flex gap-4 text-xs text-slate-400">
-            <span className="flex items-center gap-1"><FileImage className="w-3 h-3" /> Images</span>
-            <span className="flex items-center gap-1"><FileText className="w-3 h-3" /> PDF / Word</span>
+            <span className="flex items-center gap-1"><FileImage className="w-3 h-3" /> {t('upload.images')}</span>
+            <span className="flex items-center gap-1"><FileText className="w-3 h-3" /> {t('upload.documents')}</span>
         </div>
       </label>
     </div>
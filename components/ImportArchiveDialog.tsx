@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { PatientProfile } from '../types';
+import { ArchiveError, DossierArchive, DossierManifest, findArchiveConflict, openDossierArchive, readDossierArchive, restoreDossierArchive } from '../services/archiveService';
+import { createDossierId } from '../services/dossierService';
+import { useTranslation } from './LanguageProvider';
+import { Archive, AlertTriangle, Loader2, Upload, X } from 'lucide-react';
+
+interface ImportArchiveDialogProps {
+  dossiers: PatientProfile[];
+  onImported: (profile: PatientProfile) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none transition-all font-medium text-sm";
+const labelClass = "block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2";
+
+export const ImportArchiveDialog: React.FC<ImportArchiveDialogProps> = ({ dossiers, onImported, onClose }) => {
+  const { t } = useTranslation();
+  const [archive, setArchive] = useState<DossierArchive | null>(null);
+  const [manifest, setManifest] = useState<DossierManifest | null>(null);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const conflict = manifest ? findArchiveConflict(manifest, dossiers) : null;
+
+  const errorMessage = (err: unknown) =>
+    err instanceof ArchiveError ? t(err.key, err.params) : t('importArchive.unreadable');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setManifest(null);
+    setIsWorking(true);
+    try {
+      const read = await readDossierArchive(file);
+      setArchive(read);
+      if (!read.encrypted) setManifest(await openDossierArchive(read));
+    } catch (err) {
+      setArchive(null);
+      setError(errorMessage(err));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!archive) return;
+    setError(null);
+    setIsWorking(true);
+    try {
+      setManifest(await openDossierArchive(archive, password));
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async (replace: boolean) => {
+    if (!manifest) return;
+    if (replace && conflict && !confirm(t('importArchive.confirmReplace', { name: conflict.name }))) return;
+    setError(null);
+    setIsWorking(true);
+    try {
+      const dossierId = replace && conflict ? conflict.id : createDossierId();
+      onImported(await restoreDossierArchive(manifest, dossierId));
+    } catch (err) {
+      console.error("Archive Import Error:", err);
+      setError(t('importArchive.restoreFailed'));
+      setIsWorking(false);
+    }
+  };
+
+  const buttonClass = "w-full py-3 rounded-xl font-black uppercase tracking-widest text-[10px] flex items-center justify-center gap-2 transition-all disabled:opacity-60";
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-900/40 flex items-center justify-center p-4" onClick={isWorking ? undefined : onClose}>
+      <div className="bg-white w-full max-w-md rounded-[2rem] shadow-2xl p-8 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-3">
+            <Archive className="w-6 h-6 text-medical-600" />
+            <div>
+              <h3 className="font-black text-slate-900 uppercase tracking-tighter">{t('dossiers.import')}</h3>
+              <p className="text-xs text-slate-500">{t('importArchive.hint')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} disabled={isWorking} className="p-1 text-slate-400 hover:text-slate-600 rounded-lg">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {!manifest && (
+          <label className={`${buttonClass} border border-dashed border-slate-300 text-slate-600 hover:border-medical-300 hover:text-medical-600 cursor-pointer`}>
+            {isWorking && !archive ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />} {t('importArchive.choose')}
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+          </label>
+        )}
+
+        {archive?.encrypted && !manifest && (
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <div>
+              <label className={labelClass}>{t('importArchive.password')}</label>
+              <input type="password" autoFocus value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+            </div>
+            <button type="submit" disabled={isWorking} className={`${buttonClass} bg-medical-600 text-white hover:bg-medical-700`}>
+              {isWorking && <Loader2 className="w-3 h-3 animate-spin" />} {t('importArchive.open')}
+            </button>
+          </form>
+        )}
+
+        {manifest && (
+          <div className="space-y-4">
+            <div className="bg-slate-50 rounded-2xl p-4 text-sm">
+              <p className="font-bold text-slate-900">{manifest.profile.name}</p>
+              <p className="text-xs text-slate-500">
+                {t('importArchive.born', { dob: manifest.profile.dob })} · {t('common.records', { count: manifest.documents.length })} · {manifest.reports.length > 0 ? t('importArchive.withReport') : t('importArchive.withoutReport')}
+              </p>
+            </div>
+
+            {conflict ? (
+              <>
+                <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex gap-3">
+                  <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
+                  <p className="text-xs text-amber-700">
+                    {conflict.id === manifest.profile.id
+                      ? t('importArchive.sameDossier', { name: conflict.name })
+                      : t('importArchive.samePatient', { name: conflict.name })}
+                  </p>
+                </div>
+                <button onClick={() => handleRestore(true)} disabled={isWorking} className={`${buttonClass} bg-slate-900 text-white hover:bg-slate-800`}>
+                  {isWorking && <Loader2 className="w-3 h-3 animate-spin" />} {t('importArchive.replace')}
+                </button>
+                <button onClick={() => handleRestore(false)} disabled={isWorking} className={`${buttonClass} border border-slate-200 text-slate-600 hover:border-medical-200 hover:text-medical-600`}>
+                  {t('importArchive.separate')}
+                </button>
+              </>
+            ) : (
+              <button onClick={() => handleRestore(false)} disabled={isWorking} className={`${buttonClass} bg-medical-600 text-white hover:bg-medical-700`}>
+                {isWorking && <Loader2 className="w-3 h-3 animate-spin" />} {t('dossiers.import')}
+              </button>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
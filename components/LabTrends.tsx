@@ -0,0 +1,99 @@
+import React from 'react';
+import { LabSeries, isOutOfRange } from '../services/labService';
+import { useTranslation } from './LanguageProvider';
+import { TrendingUp } from 'lucide-react';
+
+interface LabTrendsProps {
+  series: LabSeries[];
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const PADDING = { top: 10, right: 12, bottom: 22, left: 36 };
+
+const TrendChart: React.FC<{ series: LabSeries }> = ({ series }) => {
+  const { language } = useTranslation();
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString(language.tag, { year: 'numeric', month: 'short' });
+  const { points } = series;
+  const times = points.map(p => new Date(p.date).getTime());
+  const reference = points[points.length - 1];
+  const values = [
+    ...points.map(p => p.value),
+    ...(reference.referenceLow !== null ? [reference.referenceLow] : []),
+    ...(reference.referenceHigh !== null ? [reference.referenceHigh] : []),
+  ];
+
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+  const spread = maxValue - minValue || Math.abs(maxValue) || 1;
+  const yMin = minValue - spread * 0.1;
+  const yMax = maxValue + spread * 0.1;
+  const tMin = Math.min(...times);
+  const tMax = Math.max(...times);
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (t: number) => PADDING.left + (tMax === tMin ? plotWidth / 2 : ((t - tMin) / (tMax - tMin)) * plotWidth);
+  const y = (v: number) => PADDING.top + (1 - (v - yMin) / (yMax - yMin)) * plotHeight;
+
+  const bandTop = y(reference.referenceHigh ?? yMax);
+  const bandBottom = y(reference.referenceLow ?? yMin);
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(times[i]).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      {(reference.referenceLow !== null || reference.referenceHigh !== null) && (
+        <rect x={PADDING.left} y={bandTop} width={plotWidth} height={Math.max(bandBottom - bandTop, 0)} fill="#dcfce7" opacity={0.7} />
+      )}
+      <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={PADDING.top + plotHeight} stroke="#e2e8f0" />
+      <line x1={PADDING.left} y1={PADDING.top + plotHeight} x2={PADDING.left + plotWidth} y2={PADDING.top + plotHeight} stroke="#e2e8f0" />
+      <text x={PADDING.left - 4} y={PADDING.top + 4} textAnchor="end" fontSize="8" fill="#94a3b8">{+yMax.toFixed(1)}</text>
+      <text x={PADDING.left - 4} y={PADDING.top + plotHeight} textAnchor="end" fontSize="8" fill="#94a3b8">{+yMin.toFixed(1)}</text>
+      <text x={PADDING.left} y={CHART_HEIGHT - 6} fontSize="8" fill="#94a3b8">{formatDate(points[0].date)}</text>
+      {points.length > 1 && (
+        <text x={PADDING.left + plotWidth} y={CHART_HEIGHT - 6} textAnchor="end" fontSize="8" fill="#94a3b8">{formatDate(points[points.length - 1].date)}</text>
+      )}
+      <path d={path} fill="none" stroke="#0284c7" strokeWidth={2} strokeLinejoin="round" />
+      {points.map((p, i) => (
+        <circle key={`${p.documentId}-${i}`} cx={x(times[i])} cy={y(p.value)} r={3.5} fill={isOutOfRange(p) ? '#e11d48' : '#0284c7'} stroke="#fff" strokeWidth={1.5}>
+          <title>{`${p.date}: ${p.value} ${p.unit}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export const LabTrends: React.FC<LabTrendsProps> = ({ series }) => {
+  const { t } = useTranslation();
+  if (series.length === 0) return null;
+
+  return (
+    <section>
+      <div className="flex items-center gap-3 mb-6 text-medical-600">
+        <TrendingUp className="w-7 h-7" />
+        <h2 className="text-2xl font-black uppercase tracking-tighter">{t('labs.trends')}</h2>
+      </div>
+      <div className="grid sm:grid-cols-2 gap-6">
+        {series.map(s => {
+          const latest = s.points[s.points.length - 1];
+          return (
+            <div key={`${s.analyte}-${s.unit}`} className="p-5 rounded-[1.5rem] border border-slate-100 bg-slate-50/40">
+              <div className="flex justify-between items-baseline mb-3">
+                <h3 className="font-black text-slate-800 tracking-tight">{s.analyte}</h3>
+                <p className={`text-sm font-bold ${isOutOfRange(latest) ? 'text-rose-600' : 'text-slate-600'}`}>
+                  {latest.value} <span className="text-[10px] text-slate-400 font-medium">{s.unit}</span>
+                </p>
+              </div>
+              <TrendChart series={s} />
+              <p className="text-[10px] text-slate-400 font-medium mt-2">
+                {t('labs.measurements', { count: s.points.length })}
+                {(latest.referenceLow !== null || latest.referenceHigh !== null) &&
+                  ` · ${t('labs.reference', { range: `${latest.referenceLow ?? '–'}–${latest.referenceHigh ?? '–'} ${s.unit}` })}`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Locale } from '../types';
+import { MessageKey } from '../locales/en';
+import { TranslationParams, getLanguage, loadUiLocale, saveUiLocale, translate } from '../services/i18nService';
+
+interface LanguageContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}
+
+const LanguageContext = createContext<LanguageContextValue>({ locale: 'en', setLocale: () => {} });
+
+// Holds the interface language and mirrors it onto <html lang dir>, so the
+// whole layout flips for right-to-left languages.
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadUiLocale);
+
+  useEffect(() => {
+    const language = getLanguage(locale);
+    document.documentElement.lang = language.tag;
+    document.documentElement.dir = language.rtl ? 'rtl' : 'ltr';
+  }, [locale]);
+
+  const setLocale = (next: Locale) => {
+    setLocaleState(next);
+    saveUiLocale(next);
+  };
+
+  return <LanguageContext.Provider value={{ locale, setLocale }}>{children}</LanguageContext.Provider>;
+};
+
+export const useTranslation = () => {
+  const { locale, setLocale } = useContext(LanguageContext);
+  const t = useCallback((key: MessageKey, params?: TranslationParams) => translate(locale, key, params), [locale]);
+  return { t, locale, setLocale, language: getLanguage(locale) };
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { MedicationCourse } from '../types';
+import { formatRegimen } from '../services/medicationService';
+import { useTranslation } from './LanguageProvider';
+import { Pill } from 'lucide-react';
+
+interface MedicationHistoryProps {
+  medications: MedicationCourse[];
+}
+
+export const MedicationHistory: React.FC<MedicationHistoryProps> = ({ medications }) => {
+  const { t, locale, language } = useTranslation();
+  const formatDate = (iso: string | null) =>
+    iso ? new Date(iso).toLocaleDateString(language.tag, { year: 'numeric', month: 'short', day: 'numeric' }) : t('common.unknown');
+  if (medications.length === 0) return null;
+  const active = medications.filter(m => m.isActive);
+
+  return (
+    <section>
+      <div className="flex items-center gap-3 mb-6 text-medical-600">
+        <Pill className="w-7 h-7" />
+        <h2 className="text-2xl font-black uppercase tracking-tighter">{t('medications.title')}</h2>
+      </div>
+
+      <div className="mb-6">
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">{t('medications.active')}</p>
+        {active.length === 0 ? (
+          <p className="text-sm text-slate-500 italic">{t('medications.noneActive')}</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {active.map((m, i) => (
+              <span key={`${m.drug}-${i}`} className="bg-green-50 border border-green-200 text-green-800 px-3 py-1.5 rounded-xl text-sm font-bold">
+                {m.drug} <span className="font-medium text-green-600 text-xs">{formatRegimen(m, locale)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto rounded-[1.5rem] border border-slate-100">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <tr>
+              <th className="text-start px-4 py-3">{t('medications.drug')}</th>
+              <th className="text-start px-4 py-3">{t('medications.regimen')}</th>
+              <th className="text-start px-4 py-3">{t('medications.start')}</th>
+              <th className="text-start px-4 py-3">{t('medications.stop')}</th>
+              <th className="text-start px-4 py-3">{t('medications.prescriber')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {medications.map((m, i) => (
+              <tr key={`${m.drug}-${m.startDate}-${i}`} className="text-slate-700">
+                <td className="px-4 py-3 font-bold">{m.drug}</td>
+                <td className="px-4 py-3">{formatRegimen(m, locale)}</td>
+                <td className="px-4 py-3">{formatDate(m.startDate)}</td>
+                <td className="px-4 py-3">
+                  {m.isActive ? (
+                    <span className="text-green-600 font-bold">{t('medications.activeBadge')}</span>
+                  ) : (
+                    <span title={m.endInferred ? t('medications.inferredHint') : t('medications.documented')}>
+                      {formatDate(m.endDate)}{m.endInferred && <span className="text-slate-400"> {t('medications.inferred')}</span>}
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-slate-500">{m.prescriber || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
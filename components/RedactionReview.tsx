@@ -0,0 +1,365 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisRedaction, PatientProfile, RedactionBox, RedactionSettings } from '../types';
+import { AIPart } from '../services/aiProvider';
+import { outgoingFileName, prepareFileParts } from '../services/geminiService';
+import { ExtractedText, extractLocalText, pagesWithoutText } from '../services/textService';
+import { createTextRedactor, isValidPattern } from '../services/redactionService';
+import { canContinuePrevious, proposePageGroups } from '../services/pageGroupService';
+import { useTranslation } from './LanguageProvider';
+import { EyeOff, Loader2, Plus, Send, Trash2, Undo2, X, File as FileIcon, Link2, Unlink2 } from 'lucide-react';
+
+interface RedactionReviewProps {
+  files: File[];
+  // Grouping chosen before the review, e.g. when regrouping stored records;
+  // proposed from the files otherwise.
+  continuesPrevious?: boolean[];
+  profile: PatientProfile;
+  // Remembered across reviews; changes are saved by the caller.
+  settings: RedactionSettings;
+  onSettingsChange: (settings: RedactionSettings) => void;
+  onConfirm: (redaction: AnalysisRedaction | null, continuesPrevious: boolean[]) => void;
+  onCancel: () => void;
+}
+
+interface Preview {
+  name: string;
+  parts: AIPart[];
+}
+
+const labelClass = "block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2";
+const inputClass = "w-full px-3 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none transition-all text-xs font-medium";
+
+// Boxes smaller than this (in page fractions) are treated as stray clicks.
+const MIN_BOX_SIZE = 0.01;
+
+// Masked tokens such as [PATIENT NAME] are highlighted in the text preview.
+const MaskedText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(/(\[[A-Z][A-Z0-9 ]*\])/).map((segment, i) => i % 2 === 1
+      ? <mark key={i} className="bg-slate-900 text-white rounded px-1">{segment}</mark>
+      : <React.Fragment key={i}>{segment}</React.Fragment>
+    )}
+  </>
+);
+
+// The outgoing image, with boxes drawn by dragging over it.
+const DrawableImage: React.FC<{ src: string; canDraw: boolean; onDraw: (box: RedactionBox) => void }> = ({ src, canDraw, onDraw }) => {
+  const { t } = useTranslation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<RedactionBox | null>(null);
+
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const boxFrom = (a: { x: number; y: number }, b: { x: number; y: number }): RedactionBox => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  });
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!canDraw) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setStart(pointAt(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (start) setDraft(boxFrom(start, pointAt(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!start) return;
+    const box = boxFrom(start, pointAt(e));
+    setStart(null);
+    setDraft(null);
+    if (box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE) onDraw(box);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      className={`relative inline-block select-none touch-none border border-slate-200 rounded-lg overflow-hidden ${canDraw ? 'cursor-crosshair' : ''}`}
+    >
+      <img src={src} alt={t('redaction.imageAlt')} draggable={false} className="block max-w-full max-h-[70vh]" />
+      {draft && (
+        <div
+          className="absolute bg-slate-900/70 border-2 border-red-500"
+          style={{ left: `${draft.x * 100}%`, top: `${draft.y * 100}%`, width: `${draft.width * 100}%`, height: `${draft.height * 100}%` }}
+        />
+      )}
+    </div>
+  );
+};
+
+const SettingsPanel: React.FC<{ settings: RedactionSettings; profile: PatientProfile; onChange: (settings: RedactionSettings) => void }> = ({ settings, profile, onChange }) => {
+  const { t } = useTranslation();
+  const [label, setLabel] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    if (!label.trim()) return setError(t('redaction.labelMissing'));
+    if (!isValidPattern(pattern)) return setError(t('redaction.invalidPattern'));
+    onChange({
+      ...settings,
+      patterns: [...settings.patterns, { id: crypto.randomUUID(), label: label.trim(), pattern, enabled: true }]
+    });
+    setLabel('');
+    setPattern('');
+    setError(null);
+  };
+
+  const updatePattern = (id: string, enabled: boolean) =>
+    onChange({ ...settings, patterns: settings.patterns.map(p => p.id === id ? { ...p, enabled } : p) });
+
+  const removePattern = (id: string) =>
+    onChange({ ...settings, patterns: settings.patterns.filter(p => p.id !== id) });
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-sm font-bold text-slate-700 cursor-pointer">
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ ...settings, enabled: e.target.checked })} className="accent-medical-600" />
+        {t('redaction.enable')}
+      </label>
+
+      {settings.enabled ? (
+        <>
+          <div className="space-y-2">
+            <span className={labelClass}>{t('redaction.patientDetails')}</span>
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={settings.maskName} onChange={(e) => onChange({ ...settings, maskName: e.target.checked })} className="accent-medical-600" />
+              {t('redaction.name', { name: profile.name })}
+            </label>
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={settings.maskDob} onChange={(e) => onChange({ ...settings, maskDob: e.target.checked })} className="accent-medical-600" />
+              {t('redaction.dob', { dob: profile.dob })}
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <span className={labelClass}>{t('redaction.patterns')}</span>
+            {settings.patterns.map(p => (
+              <div key={p.id} className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer min-w-0" title={p.pattern}>
+                  <input type="checkbox" checked={p.enabled} onChange={(e) => updatePattern(p.id, e.target.checked)} className="accent-medical-600" />
+                  <span className="truncate">{p.label}</span>
+                </label>
+                {!p.builtIn && (
+                  <button onClick={() => removePattern(p.id)} className="p-1 text-slate-300 hover:text-red-500 rounded-lg" title={t('redaction.removePattern')}>
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <span className={labelClass}>{t('redaction.addPattern')}</span>
+            <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder={t('redaction.labelPlaceholder')} className={inputClass} />
+            <input value={pattern} onChange={(e) => setPattern(e.target.value)} placeholder={t('redaction.patternPlaceholder')} className={`${inputClass} font-mono`} />
+            {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+            <button onClick={handleAdd} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-medical-700 bg-medical-50 hover:bg-medical-100 transition-colors">
+              <Plus className="w-3.5 h-3.5" /> {t('redaction.add')}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl p-3">
+          {t('redaction.disabledWarning')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+// Pre-send stage: masks identifiers in extracted text, lets the user black out
+// areas of images and scanned pages, and previews exactly what will be sent.
+export const RedactionReview: React.FC<RedactionReviewProps> = ({ files, continuesPrevious: presetGrouping, profile, settings, onSettingsChange, onConfirm, onCancel }) => {
+  const { t } = useTranslation();
+  const [boxes, setBoxes] = useState<RedactionBox[][][]>(() => files.map(() => []));
+  const [continuesPrevious, setContinuesPrevious] = useState<boolean[]>(() => presetGrouping || proposePageGroups(files));
+  const [selected, setSelected] = useState(0);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const textCache = useRef(new Map<File, ExtractedText | null>());
+
+  useEffect(() => {
+    let cancelled = false;
+    const file = files[selected];
+    setIsPreparing(true);
+    setPreviewError(null);
+
+    (async () => {
+      if (!textCache.current.has(file)) textCache.current.set(file, await extractLocalText(file));
+      const redaction = settings.enabled ? { redactText: createTextRedactor(profile, settings), boxes: boxes[selected] } : undefined;
+      const parts = await prepareFileParts(file, textCache.current.get(file)!, redaction);
+      if (!cancelled) setPreview({ name: outgoingFileName(file, redaction), parts });
+    })().catch(err => {
+      console.error("Preview failed:", file.name, err);
+      if (!cancelled) setPreviewError(t('redaction.previewFailed'));
+    }).finally(() => {
+      if (!cancelled) setIsPreparing(false);
+    });
+
+    return () => { cancelled = true; };
+  }, [files, selected, settings, boxes, profile]);
+
+  const updatePageBoxes = (page: number, update: (current: RedactionBox[]) => RedactionBox[]) => {
+    setBoxes(prev => prev.map((fileBoxes, i) => {
+      if (i !== selected) return fileBoxes;
+      const next = [...fileBoxes];
+      next[page] = update(next[page] || []);
+      return next;
+    }));
+  };
+
+  const handleConfirm = () => onConfirm(settings.enabled ? { settings, boxes } : null, continuesPrevious);
+
+  const toggleContinuesPrevious = (index: number) =>
+    setContinuesPrevious(prev => prev.map((value, i) => i === index ? !value : value));
+
+  // Page number within its record, counting back to the record's first file
+  const pageNumber = (index: number) => {
+    let first = index;
+    while (continuesPrevious[first]) first--;
+    return index - first + 1;
+  };
+  const isGrouped = (index: number) => continuesPrevious[index] || !!continuesPrevious[index + 1];
+
+  const boxCount = (index: number) => boxes[index].reduce((sum, page) => sum + (page?.length || 0), 0);
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-6xl h-[90vh] rounded-[2rem] shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-start justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3">
+            <EyeOff className="w-6 h-6 text-medical-600" />
+            <div>
+              <h3 className="font-black text-slate-900 uppercase tracking-tighter">{t('redaction.title')}</h3>
+              <p className="text-xs text-slate-500">
+                {t('redaction.hint')}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-1 text-slate-400 hover:text-slate-600 rounded-lg">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-72 shrink-0 border-e border-slate-100 p-5 overflow-y-auto space-y-6">
+            <SettingsPanel settings={settings} profile={profile} onChange={onSettingsChange} />
+            <div>
+              <span className={labelClass}>{t('redaction.files', { count: files.length })}</span>
+              {files.some((_, i) => canContinuePrevious(files, i)) && (
+                <p className="text-[10px] text-slate-400 mb-2">{t('redaction.grouping')}</p>
+              )}
+              <div className="space-y-1">
+                {files.map((file, i) => (
+                  <div key={i} className={`flex items-center gap-1 ${continuesPrevious[i] ? 'ms-4 border-s-2 border-medical-200 ps-1' : ''}`}>
+                    <button
+                      onClick={() => setSelected(i)}
+                      className={`flex-1 min-w-0 flex items-center gap-2 px-3 py-2 rounded-xl text-start text-xs font-bold transition-colors ${
+                        selected === i ? 'bg-medical-50 text-medical-700' : 'text-slate-600 hover:bg-slate-50'
+                      }`}
+                    >
+                      <FileIcon className="w-3.5 h-3.5 shrink-0" />
+                      <span className="truncate flex-1">{file.name}</span>
+                      {isGrouped(i) && <span className="text-[9px] font-black text-medical-500 shrink-0">{t('redaction.page', { page: pageNumber(i) })}</span>}
+                      {boxCount(i) > 0 && <span className="text-[9px] font-black text-slate-400 shrink-0">{t('redaction.boxes', { count: boxCount(i) })}</span>}
+                    </button>
+                    {canContinuePrevious(files, i) && (
+                      <button
+                        onClick={() => toggleContinuesPrevious(i)}
+                        className={`p-1 rounded-lg shrink-0 ${continuesPrevious[i] ? 'text-medical-600 hover:text-slate-400' : 'text-slate-300 hover:text-medical-600'}`}
+                        title={continuesPrevious[i] ? t('redaction.separate') : t('redaction.joinPrevious')}
+                      >
+                        {continuesPrevious[i] ? <Unlink2 className="w-3.5 h-3.5" /> : <Link2 className="w-3.5 h-3.5" />}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 bg-slate-50">
+            {isPreparing && !preview && (
+              <div className="flex items-center gap-2 text-sm text-slate-500"><Loader2 className="w-4 h-4 animate-spin" /> {t('redaction.preparing')}</div>
+            )}
+            {previewError && <p className="text-sm font-bold text-red-600">{previewError}</p>}
+            {preview && !previewError && (
+              <div className={`space-y-4 ${isPreparing ? 'opacity-60' : ''}`}>
+                <div className="text-xs text-slate-500">
+                  <span className={labelClass}>{t('redaction.sentAs')}</span>
+                  <span className="font-mono"><MaskedText text={preview.name} /></span>
+                </div>
+                {preview.parts.map((part, i) => {
+                  if ('text' in part) {
+                    return (
+                      <pre key={i} className="whitespace-pre-wrap break-words bg-white border border-slate-200 rounded-xl p-4 text-xs text-slate-700 font-mono leading-relaxed">
+                        <MaskedText text={part.text} />
+                      </pre>
+                    );
+                  }
+                  if (part.inlineData.mimeType === 'application/pdf') {
+                    return (
+                      <p key={i} className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl p-3">
+                        {t('redaction.pdfUnchanged')}
+                      </p>
+                    );
+                  }
+                  // Scanned PDFs send one image per page, in order; PDFs with a text layer only their pages without text
+                  const image = preview.parts.slice(0, i).filter(p => 'inlineData' in p).length;
+                  const localText = textCache.current.get(files[selected]);
+                  const page = localText?.pages ? pagesWithoutText(localText)[image] - 1 : image;
+                  const pageBoxes = boxes[selected][page] || [];
+                  return (
+                    <div key={i} className="space-y-2">
+                      {preview.parts.length > 1 && <span className={labelClass}>{t('redaction.page', { page: page + 1 })}</span>}
+                      <DrawableImage
+                        src={`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`}
+                        canDraw={settings.enabled && !isPreparing}
+                        onDraw={(box) => updatePageBoxes(page, current => [...current, box])}
+                      />
+                      {pageBoxes.length > 0 && (
+                        <div className="flex items-center gap-2">
+                          <button onClick={() => updatePageBoxes(page, current => current.slice(0, -1))} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 transition-colors">
+                            <Undo2 className="w-3.5 h-3.5" /> {t('redaction.undoBox')}
+                          </button>
+                          <button onClick={() => updatePageBoxes(page, () => [])} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 transition-colors">
+                            <Trash2 className="w-3.5 h-3.5" /> {t('redaction.clearBoxes', { count: pageBoxes.length })}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-5 border-t border-slate-100">
+          <button onClick={onCancel} className="px-4 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 transition-colors">
+            {t('common.cancel')}
+          </button>
+          <button onClick={handleConfirm} className="flex items-center gap-2 bg-medical-600 text-white px-5 py-2.5 rounded-xl font-black uppercase tracking-widest text-[10px] hover:bg-medical-700 transition-all">
+            <Send className="w-3.5 h-3.5" /> {t('redaction.send', { count: files.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,17 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { PatientProfile } from '../types';
+import { useTranslation } from './LanguageProvider';
 import { User, Calendar, Users, ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface RegistrationFormProps {
-  onComplete: (profile: PatientProfile) => void;
+  onComplete: (profile: Omit<PatientProfile, 'id'>) => void;
+  onCancel?: () => void;
+  onImport?: () => void;
 }
 
 const CalendarPicker: React.FC<{ value: string; onChange: (val: string) => void }> = ({ value, onChange }) => {
+  const { t, language } = useTranslation();
   const [isOpen, setIsOpen] = useState(false);
   const [viewDate, setViewDate] = useState(value ? new Date(value) : new Date());
   const containerRef = useRef<HTMLDivElement>(null);
@@ -48,10 +52,9 @@ const CalendarPicker: React.FC<{ value: string; onChange: (val: string) => void
   };
 
   const years = Array.from({ length: 100 }, (_, i) => new Date().getFullYear() - i);
-  const months = [
-    'January', 'February', 'March', 'April', 'May', 'June',
-    'July', 'August', 'September', 'October', 'November', 'December'
-  ];
+  const months = Array.from({ length: 12 }, (_, i) => new Date(2000, i, 1).toLocaleDateString(language.tag, { month: 'long' }));
+  // 2 January 2000 was a Sunday
+  const weekdays = Array.from({ length: 7 }, (_, i) => new Date(2000, 0, 2 + i).toLocaleDateString(language.tag, { weekday: 'short' }));
 
   return (
     <div className="relative" ref={containerRef}>
@@ -60,16 +63,16 @@ const CalendarPicker: React.FC<{ value: string; onChange: (val: string) => void
         className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none transition-all flex justify-between items-center cursor-pointer bg-white"
       >
         <span className={value ? 'text-slate-800 font-medium' : 'text-slate-400'}>
-          {value ? new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }) : 'Select date of birth'}
+          {value ? new Date(value).toLocaleDateString(language.tag, { year: 'numeric', month: 'long', day: 'numeric' }) : t('registration.selectDob')}
         </span>
         <Calendar className="w-4 h-4 text-slate-400" />
       </div>
 
       {isOpen && (
-        <div className="absolute z-[60] mt-2 p-4 bg-white border border-slate-200 rounded-2xl shadow-2xl w-[320px] left-1/2 -translate-x-1/2 sm:left-0 sm:translate-x-0">
+        <div className="absolute z-[60] mt-2 p-4 bg-white border border-slate-200 rounded-2xl shadow-2xl w-[320px] left-1/2 -translate-x-1/2 sm:left-0 sm:translate-x-0 rtl:sm:left-auto rtl:sm:right-0">
           <div className="flex justify-between items-center mb-4">
             <button onClick={handlePrevMonth} type="button" className="p-1 hover:bg-slate-100 rounded-full transition-colors">
-              <ChevronLeft className="w-5 h-5 text-slate-600" />
+              <ChevronLeft className="w-5 h-5 text-slate-600 rtl:rotate-180" />
             </button>
             
             <div className="flex gap-1">
@@ -90,12 +93,12 @@ const CalendarPicker: React.FC<{ value: string; onChange: (val: string) => void
             </div>
 
             <button onClick={handleNextMonth} type="button" className="p-1 hover:bg-slate-100 rounded-full transition-colors">
-              <ChevronRight className="w-5 h-5 text-slate-600" />
+              <ChevronRight className="w-5 h-5 text-slate-600 rtl:rotate-180" />
             </button>
           </div>
 
           <div className="grid grid-cols-7 gap-1 mb-2">
-            {['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'].map(d => (
+            {weekdays.map(d => (
               <div key={d} className="text-center text-[10px] font-bold text-slate-400 uppercase">{d}</div>
             ))}
           </div>
@@ -132,7 +135,8 @@ const CalendarPicker: React.FC<{ value: string; onChange: (val: string) => void
   );
 };
 
-export const RegistrationForm: React.FC<RegistrationFormProps> = ({ onComplete }) => {
+export const RegistrationForm: React.FC<RegistrationFormProps> = ({ onComplete, onCancel, onImport }) => {
+  const { t } = useTranslation();
   const [name, setName] = useState('');
   const [dob, setDob] = useState('');
   const [gender, setGender] = useState<'Male' | 'Female' | 'Other'>('Male');
@@ -149,14 +153,14 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({ onComplete }
         <div className="bg-medical-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
           <User className="text-medical-600 w-8 h-8" />
         </div>
-        <h2 className="text-2xl font-extrabold text-slate-900 tracking-tight">Patient Profile</h2>
-        <p className="text-slate-500 text-sm mt-1">This info personalizes your clinical summary.</p>
+        <h2 className="text-2xl font-extrabold text-slate-900 tracking-tight">{t('registration.title')}</h2>
+        <p className="text-slate-500 text-sm mt-1">{t('registration.hint')}</p>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-6">
         <div>
           <label className="block text-sm font-bold text-slate-700 mb-2 flex items-center gap-2">
-            <User className="w-4 h-4 text-medical-500" /> Full Name
+            <User className="w-4 h-4 text-medical-500" /> {t('registration.name')}
           </label>
           <input
             type="text"
@@ -164,34 +168,34 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({ onComplete }
             value={name}
             onChange={(e) => setName(e.target.value)}
             className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none transition-all font-medium"
-            placeholder="e.g. John Doe"
+            placeholder={t('registration.namePlaceholder')}
           />
         </div>
 
         <div>
           <label className="block text-sm font-bold text-slate-700 mb-2 flex items-center gap-2">
-            <Calendar className="w-4 h-4 text-medical-500" /> Date of Birth
+            <Calendar className="w-4 h-4 text-medical-500" /> {t('registration.dob')}
           </label>
           <CalendarPicker value={dob} onChange={setDob} />
         </div>
 
         <div>
           <label className="block text-sm font-bold text-slate-700 mb-2 flex items-center gap-2">
-            <Users className="w-4 h-4 text-medical-500" /> Gender
+            <Users className="w-4 h-4 text-medical-500" /> {t('registration.gender')}
           </label>
           <div className="grid grid-cols-3 gap-3">
-            {['Male', 'Female', 'Other'].map((g) => (
+            {(['Male', 'Female', 'Other'] as const).map((g) => (
               <button
                 key={g}
                 type="button"
-                onClick={() => setGender(g as any)}
+                onClick={() => setGender(g)}
                 className={`py-2.5 rounded-xl border text-sm font-bold transition-all ${
                   gender === g 
                     ? 'bg-medical-600 border-medical-600 text-white shadow-lg scale-[1.02]' 
                     : 'bg-white border-slate-200 text-slate-600 hover:border-medical-200'
                 }`}
               >
-                {g}
+                {t(`gender.${g}`)}
               </button>
             ))}
           </div>
@@ -201,8 +205,26 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({ onComplete }
           type="submit"
           className="w-full bg-medical-600 text-white py-4 rounded-2xl font-extrabold hover:bg-medical-700 transition-all shadow-xl hover:shadow-medical-200/50 transform hover:-translate-y-0.5 active:translate-y-0"
         >
-          Initialize Timeline
+          {t('registration.submit')}
         </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="w-full text-slate-400 text-xs font-black uppercase tracking-widest hover:text-slate-600 transition-colors"
+          >
+            {t('registration.back')}
+          </button>
+        )}
+        {onImport && (
+          <button
+            type="button"
+            onClick={onImport}
+            className="w-full text-slate-400 text-xs font-black uppercase tracking-widest hover:text-medical-600 transition-colors"
+          >
+            {t('registration.import')}
+          </button>
+        )}
       </form>
     </div>
   );
@@ -1,13 +1,30 @@
 
 import React, { useState } from 'react';
-import { ReportData, ProcessedDocument } from '../types';
-import { jsPDF } from 'jspdf';
-import { FileText, Activity, ClipboardList, ShieldAlert, Download, FileCode, Loader2 } from 'lucide-react';
+import { ReportData, ProcessedDocument, CitedParagraph, PatientProfile } from '../types';
+import { resolveDocument } from '../services/documentService';
+import { buildLabHistory, buildLabSeries } from '../services/labService';
+import { formatRegimen } from '../services/medicationService';
+import { buildReferenceNumbers, formatReferenceList, getReferenceNumbers } from '../services/citationService';
+import { buildFhirBundle } from '../services/fhirService';
+import { getReportTemplate, sectionNumeral } from '../services/reportTemplateService';
+import { buildWordPortfolio } from '../services/docxService';
+import { PdfPagePlacement, countEmbeddablePdfPages, embedPdfPages, isPdfFile, renderPdfPages } from '../services/pdfService';
+import { TextBlock, extractWordBlocks, isWordFile } from '../services/wordDocumentService';
+import { TranslationParams, getLanguage, isRtlText, translate } from '../services/i18nService';
+import { ExportFontError, loadExportFont, registerPdfFont } from '../services/exportFontService';
+import { getDocumentPages } from '../services/pageGroupService';
+import { MessageKey } from '../locales/en';
+import { LabTrends } from './LabTrends';
+import { MedicationHistory } from './MedicationHistory';
+import { useTranslation } from './LanguageProvider';
+import { jsPDF, TextOptionsLight } from 'jspdf';
+import { FileText, Activity, ClipboardList, ShieldAlert, Download, FileCode, Loader2, ListOrdered, ExternalLink, Share2, AlertTriangle, RefreshCw } from 'lucide-react';
 
 interface ReportDisplayProps {
   report: ReportData;
   documents: ProcessedDocument[];
-  patientName?: string;
+  profile?: PatientProfile | null;
+  onRegenerate?: () => void;
 }
 
 const fileToBase64 = (file: File): Promise<string> => {
@@ -19,15 +36,73 @@ const fileToBase64 = (file: File): Promise<string> => {
     });
 };
 
-export const ReportDisplay: React.FC<ReportDisplayProps> = ({ report, documents, patientName }) => {
+// Logical-order input, drawn right to left by jsPDF's bidi engine.
+const RTL_TEXT_OPTIONS: TextOptionsLight = { isInputVisual: false, isOutputVisual: true, isInputRtl: true, isOutputRtl: false };
+
+// Renders a section paragraph by paragraph with clickable reference numbers,
+// or as plain text for reports generated before citations existed.
+const CitedText: React.FC<{
+  text: string;
+  paragraphs?: CitedParagraph[];
+  references: Map<string, number>;
+  onCite: (refNumber: number) => void;
+}> = ({ text, paragraphs, references, onCite }) => {
+  const { t } = useTranslation();
+  if (!paragraphs) return <>{text}</>;
+  return (
+    <div className="space-y-4">
+      {paragraphs.map((paragraph, i) => (
+        <p key={i}>
+          {paragraph.text}
+          {getReferenceNumbers(paragraph.sourceIds, references).map(n => (
+            <button
+              key={n}
+              onClick={() => onCite(n)}
+              className="align-super text-[10px] font-black text-medical-600 hover:text-medical-800 hover:underline ms-0.5 not-italic"
+              title={t('report.viewSource', { number: n })}
+            >
+              [{n}]
+            </button>
+          ))}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+// Sections cycle through these looks, so the clinical overview keeps its original styling.
+const SECTION_STYLES = [
+  { icon: Activity, className: "text-base leading-loose text-slate-700 font-medium whitespace-pre-line bg-slate-50/70 p-8 rounded-[1.5rem] border border-slate-100" },
+  { icon: FileText, className: "p-8 rounded-[1.5rem] border-2 border-slate-50 text-base leading-loose text-slate-700 font-medium bg-white shadow-sm" },
+  { icon: ClipboardList, className: "p-8 rounded-[1.5rem] border border-slate-200 bg-slate-50/40 text-base leading-loose text-slate-600 font-medium italic" },
+];
+
+export const ReportDisplay: React.FC<ReportDisplayProps> = ({ report, documents, profile, onRegenerate }) => {
+  const { t, locale, language } = useTranslation();
   const [isExportingPdf, setIsExportingPdf] = useState(false);
   const [isExportingWord, setIsExportingWord] = useState(false);
+  const [isExportingFhir, setIsExportingFhir] = useState(false);
+  const patientName = profile?.name;
+  const isExporting = isExportingPdf || isExportingWord || isExportingFhir;
+  const [highlightedRef, setHighlightedRef] = useState<number | null>(null);
 
-  // Sorting documents chronologically
-  const sortedDocs = [...documents].sort((a, b) => {
+  // Sorting documents chronologically, using human-corrected values where present
+  const sortedDocs = documents.map(resolveDocument).sort((a, b) => {
     if (!a.date || !b.date) return 0;
     return new Date(a.date).getTime() - new Date(b.date).getTime();
   });
+  const references = buildReferenceNumbers(sortedDocs);
+  const template = getReportTemplate(report.settings.templateId, locale);
+  const reportLanguage = getLanguage(report.settings.language);
+  const indexNumeral = sectionNumeral(report.sections.length);
+  const labSeries = buildLabSeries(documents);
+  const labHistory = buildLabHistory(documents);
+  const medications = report.medications || [];
+
+  const handleCite = (refNumber: number) => {
+    setHighlightedRef(refNumber);
+    document.getElementById(`source-ref-${refNumber}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
 
   const handleDownloadPdf = async () => {
     if (isExportingPdf) return;
@@ -46,6 +121,22 @@ export const ReportDisplay: React.FC<ReportDisplayProps> = ({ report, documents,
         const contentWidth = pdfWidth - (margin * 2);
         let currentY = 20;
 
+        // The PDF is written in the report's language, not the interface language
+        const tr = (key: MessageKey, params?: TranslationParams) => translate(reportLanguage.id, key, params);
+        const upper = (text: string) => text.toLocaleUpperCase(reportLanguage.tag);
+        const exportTemplate = getReportTemplate(report.settings.templateId, reportLanguage.id);
+        const exportFont = await loadExportFont(reportLanguage.id);
+        if (exportFont) registerPdfFont(pdf, exportFont);
+        const fontFamily = exportFont?.family || 'helvetica';
+
+        // Right-to-left reports mirror every x position, so tables read from the right
+        const write = (text: string | string[], x: number, y: number, options: TextOptionsLight = {}) => {
+            if (!reportLanguage.rtl) return pdf.text(text, x, y, options);
+            return pdf.text(text, pdfWidth - x, y, { align: 'right', ...RTL_TEXT_OPTIONS, ...options });
+        };
+        const medicationStop = (m: typeof medications[number]) =>
+            m.isActive ? tr('medications.activeBadge') : `${m.endDate || tr('common.unknown')}${m.endInferred ? ` ${tr('medications.inferred')}` : ''}`;
+
         const checkNewPage = (neededHeight: number) => {
             if (currentY + neededHeight > pdfHeight - margin) {
                 pdf.addPage();
@@ -60,136 +151,366 @@ export const ReportDisplay: React.FC<ReportDisplayProps> = ({ report, documents,
         pdf.rect(0, 0, pdfWidth, 40, 'F');
         pdf.setFontSize(22);
         pdf.setTextColor(15, 23, 42);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text("Clinical Case Portfolio", margin, 18);
+        pdf.setFont(fontFamily, 'bold');
+        write(exportTemplate.title, margin, 18);
         
         pdf.setFontSize(10);
         pdf.setTextColor(100);
-        pdf.setFont('helvetica', 'normal');
-        pdf.text(`Patient: ${patientName || 'Anonymous'}`, margin, 26);
-        pdf.text(`Date Generated: ${new Date().toLocaleDateString()}`, margin, 31);
+        pdf.setFont(fontFamily, 'normal');
+        write(`${tr('report.patient')} ${patientName || tr('report.anonymous')}`, margin, 26);
+        write(`${tr('export.dateGenerated')} ${new Date().toLocaleDateString(reportLanguage.tag)}`, margin, 31);
         
         currentY = 50;
 
         // Content Rendering Logic
-        const renderSection = (title: string, content: string) => {
+        const renderSection = (title: string, content: string, paragraphs?: CitedParagraph[]) => {
             checkNewPage(20);
             pdf.setFontSize(13);
             pdf.setTextColor(2, 132, 199);
-            pdf.setFont('helvetica', 'bold');
-            pdf.text(title, margin, currentY);
+            pdf.setFont(fontFamily, 'bold');
+            write(title, margin, currentY);
             currentY += 8;
             
             pdf.setFontSize(10);
             pdf.setTextColor(51, 65, 85);
-            pdf.setFont('helvetica', 'normal');
-            const lines = pdf.splitTextToSize(content, contentWidth);
-            
-            lines.forEach((line: string) => {
-                checkNewPage(7);
-                pdf.text(line, margin, currentY);
-                currentY += 6;
+            pdf.setFont(fontFamily, 'normal');
+            // Reference numbers match the Master Document Index below
+            const blocks = paragraphs
+                ? paragraphs.map(p => `${p.text} ${formatReferenceList(p.sourceIds, references)}`.trim())
+                : [content];
+
+            blocks.forEach((block, blockIdx) => {
+                const lines = pdf.splitTextToSize(block, contentWidth);
+                lines.forEach((line: string) => {
+                    checkNewPage(7);
+                    write(line, margin, currentY);
+                    currentY += 6;
+                });
+                if (blockIdx < blocks.length - 1) currentY += 3;
             });
             currentY += 10;
         };
 
-        renderSection("I. NARRATIVE HISTORY", report.history);
-        renderSection("II. INTEGRATED SYNTHESIS", report.summary);
-        renderSection("III. CLINICAL OBSERVATIONS", report.prognosis);
+        report.sections.forEach((section, i) => {
+            renderSection(`${sectionNumeral(i)}. ${upper(section.title)}`, section.text, section.paragraphs);
+        });
+
+        // Laboratory History Table
+        if (labHistory.length > 0) {
+            checkNewPage(40);
+            pdf.setFontSize(13);
+            pdf.setTextColor(2, 132, 199);
+            pdf.setFont(fontFamily, 'bold');
+            write(upper(tr('export.labHistory')), margin, currentY);
+            currentY += 10;
+
+            pdf.setFontSize(8);
+            pdf.setTextColor(100);
+            write(upper(tr('timeline.date')), margin, currentY);
+            write(upper(tr('export.analyte')), margin + 25, currentY);
+            write(upper(tr('export.value')), margin + 85, currentY);
+            write(upper(tr('export.unit')), margin + 110, currentY);
+            write(upper(tr('export.reference')), margin + 140, currentY);
+            currentY += 3;
+            pdf.setDrawColor(226, 232, 240);
+            pdf.line(margin, currentY, pdfWidth - margin, currentY);
+            currentY += 6;
+
+            labHistory.forEach(row => {
+                checkNewPage(6);
+                pdf.setFont(fontFamily, 'normal');
+                pdf.setTextColor(71, 85, 105);
+                write(row.date || tr('common.notAvailable'), margin, currentY);
+                pdf.setFont(fontFamily, 'bold');
+                pdf.setTextColor(51, 65, 85);
+                write(pdf.splitTextToSize(row.analyte, 58)[0], margin + 25, currentY);
+                if (row.outOfRange) pdf.setTextColor(225, 29, 72);
+                write(row.value, margin + 85, currentY);
+                pdf.setFont(fontFamily, 'normal');
+                pdf.setTextColor(71, 85, 105);
+                write(row.unit, margin + 110, currentY);
+                write(row.referenceRange, margin + 140, currentY);
+                currentY += 5;
+            });
+            currentY += 10;
+        }
+
+        // Medication History Table
+        if (medications.length > 0) {
+            checkNewPage(40);
+            pdf.setFontSize(13);
+            pdf.setTextColor(2, 132, 199);
+            pdf.setFont(fontFamily, 'bold');
+            write(upper(tr('medications.title')), margin, currentY);
+            currentY += 7;
+
+            const active = medications.filter(m => m.isActive);
+            pdf.setFontSize(9);
+            pdf.setTextColor(51, 65, 85);
+            const activeLines = pdf.splitTextToSize(
+                `${tr('export.currentlyActive')} ${active.length > 0 ? active.map(m => `${m.drug} (${formatRegimen(m, reportLanguage.id)})`).join(', ') : tr('timeline.none')}`,
+                contentWidth
+            );
+            write(activeLines, margin, currentY);
+            currentY += activeLines.length * 4 + 5;
+
+            pdf.setFontSize(8);
+            pdf.setTextColor(100);
+            write(upper(tr('medications.drug')), margin, currentY);
+            write(upper(tr('medications.regimen')), margin + 45, currentY);
+            write(upper(tr('medications.start')), margin + 100, currentY);
+            write(upper(tr('medications.stop')), margin + 125, currentY);
+            write(upper(tr('medications.prescriber')), margin + 155, currentY);
+            currentY += 3;
+            pdf.setDrawColor(226, 232, 240);
+            pdf.line(margin, currentY, pdfWidth - margin, currentY);
+            currentY += 6;
+
+            medications.forEach(m => {
+                checkNewPage(6);
+                pdf.setFont(fontFamily, 'bold');
+                pdf.setTextColor(51, 65, 85);
+                write(pdf.splitTextToSize(m.drug, 43)[0], margin, currentY);
+                pdf.setFont(fontFamily, 'normal');
+                pdf.setTextColor(71, 85, 105);
+                write(pdf.splitTextToSize(formatRegimen(m, reportLanguage.id), 53)[0], margin + 45, currentY);
+                write(m.startDate || tr('common.unknown'), margin + 100, currentY);
+                write(medicationStop(m), margin + 125, currentY);
+                write(pdf.splitTextToSize(m.prescriber || '-', 25)[0], margin + 155, currentY);
+                currentY += 5;
+            });
+            currentY += 10;
+        }
 
         // Record Index Table
         checkNewPage(40);
         pdf.setFontSize(13);
         pdf.setTextColor(2, 132, 199);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text("IV. MASTER DOCUMENT INDEX", margin, currentY);
+        pdf.setFont(fontFamily, 'bold');
+        write(`${indexNumeral}. ${upper(tr('report.masterIndex'))}`, margin, currentY);
         currentY += 10;
 
         pdf.setFontSize(8);
         pdf.setTextColor(100);
-        pdf.text("REF", margin, currentY);
-        pdf.text("DATE", margin + 12, currentY);
-        pdf.text("TYPE", margin + 35, currentY);
-        pdf.text("KEY FINDING SUMMARY", margin + 65, currentY);
+        write(upper(tr('export.ref')), margin, currentY);
+        write(upper(tr('timeline.date')), margin + 12, currentY);
+        write(upper(tr('timeline.type')), margin + 35, currentY);
+        write(upper(tr('export.keyFinding')), margin + 65, currentY);
         currentY += 3;
         pdf.setDrawColor(226, 232, 240);
         pdf.line(margin, currentY, pdfWidth - margin, currentY);
         currentY += 8;
 
-        sortedDocs.forEach((doc, idx) => {
-            const dateStr = doc.date ? new Date(doc.date).toLocaleDateString() : 'N/A';
+        sortedDocs.forEach((doc: ProcessedDocument, idx: number) => {
+            const dateStr = doc.date ? new Date(doc.date).toLocaleDateString(reportLanguage.tag) : tr('common.notAvailable');
             const splitSummary = pdf.splitTextToSize(doc.summary, contentWidth - 65);
             const rowHeight = Math.max(8, (splitSummary.length * 4) + 4);
 
             checkNewPage(rowHeight);
-            pdf.setFont('helvetica', 'bold');
+            pdf.setFont(fontFamily, 'bold');
             pdf.setTextColor(51, 65, 85);
-            pdf.text(`${idx + 1}`, margin, currentY);
-            pdf.setFont('helvetica', 'normal');
-            pdf.text(dateStr, margin + 12, currentY);
+            write(`${idx + 1}`, margin, currentY);
+            pdf.setFont(fontFamily, 'normal');
+            write(dateStr, margin + 12, currentY);
             pdf.setTextColor(2, 132, 199);
-            pdf.text(doc.type, margin + 35, currentY);
+            write(tr(`docType.${doc.type}`), margin + 35, currentY);
             pdf.setTextColor(71, 85, 105);
-            pdf.text(splitSummary, margin + 65, currentY);
+            write(splitSummary, margin + 65, currentY);
             
             currentY += rowHeight;
         });
 
-        // APPENDIX (Images)
-        // Optimization: For large batches (>50), we only include the most critical records or downscale heavily
-        for (let i = 0; i < sortedDocs.length; i++) {
-            const doc = sortedDocs[i];
+        // APPENDIX (Images, original PDF pages and Word documents)
+        const imgTop = 35;
+        const imgBottom = 15;
+        const appendixBox = { x: margin, y: imgTop, width: contentWidth, height: pdfHeight - imgTop - imgBottom };
+        const placements: PdfPagePlacement[] = [];
+
+        const addAppendixPage = (doc: ProcessedDocument, index: number, pageLabel?: string, file: File = doc.file) => {
             pdf.addPage();
-            
+
             pdf.setFillColor(248, 250, 252);
             pdf.rect(0, 0, pdfWidth, 30, 'F');
             pdf.setFontSize(12);
             pdf.setTextColor(15, 23, 42);
-            pdf.setFont('helvetica', 'bold');
-            pdf.text(`APPENDIX RECORD #${i + 1}: ${doc.type}`, margin, 12);
-            
+            pdf.setFont(fontFamily, 'bold');
+            const heading = upper(tr('export.appendixRecord', { number: index + 1, type: tr(`docType.${doc.type}`) }));
+            write(`${heading}${pageLabel ? ` (${pageLabel})` : ''}`, margin, 12);
+
             pdf.setFontSize(8);
             pdf.setTextColor(100);
-            pdf.setFont('helvetica', 'normal');
-            pdf.text(`Date: ${doc.date || 'Unknown'} | File: ${doc.file.name}`, margin, 18);
-            
+            pdf.setFont(fontFamily, 'normal');
+            const fileLabel = doc.pageRange
+                ? tr('export.filePages', { file: file.name, start: doc.pageRange.start, end: doc.pageRange.end })
+                : file.name;
+            write(tr('export.recordDetails', { date: doc.date || tr('common.unknown'), file: fileLabel }), margin, 18);
+
             pdf.setTextColor(2, 132, 199);
-            const summaryText = pdf.splitTextToSize(`Summary: ${doc.summary}`, contentWidth);
-            pdf.text(summaryText, margin, 24);
+            const summaryText = pdf.splitTextToSize(tr('export.recordSummary', { summary: doc.summary }), contentWidth);
+            write(summaryText, margin, 24);
+        };
+
+        const addFittedImage = (data: string | Uint8Array, width: number, height: number) => {
+            const ratio = Math.min(appendixBox.width / width, appendixBox.height / height);
+            const w = width * ratio;
+            const h = height * ratio;
+            const x = (pdfWidth - w) / 2;
+
+            // Compress even further for very large document counts
+            const compression = sortedDocs.length > 50 ? 'FAST' : 'MEDIUM';
+            pdf.addImage(data, 'JPEG', x, imgTop, w, h, undefined, compression);
+        };
+
+        const addPlaceholder = (text: string) => {
+            pdf.setFontSize(10);
+            pdf.setTextColor(148, 163, 184);
+            write(upper(text), pdfWidth / 2, pdfHeight / 2, { align: 'center' });
+        };
+
+        // Re-typesets a Word document, continuing onto further appendix pages as needed.
+        const addWordBlocks = (blocks: TextBlock[], doc: ProcessedDocument, index: number) => {
+            let y = imgTop + 5;
+            let page = 1;
+            blocks.forEach(block => {
+                const fontSize = block.kind === 'heading' ? Math.max(11, 17 - block.level * 2) : 10;
+                const lineHeight = fontSize * 0.5;
+                const indent = block.kind === 'listItem' ? 6 + block.level * 6 : 0;
+                const left = margin + indent;
+                const width = contentWidth - indent;
+                // Source records keep their own direction, whatever the report language
+                const rtlBlock = isRtlText(block.runs.map(run => run.text).join(''));
+                const blockX = (x: number) => rtlBlock ? pdfWidth - x : x;
+
+                // Lay out runs word by word so bold and italic survive wrapping
+                const lines: { text: string; style: string }[][] = [[]];
+                let lineWidth = 0;
+                block.runs.forEach(run => {
+                    const style = run.bold && run.italic ? 'bolditalic' : run.bold ? 'bold' : run.italic ? 'italic' : 'normal';
+                    pdf.setFont(fontFamily, style);
+                    pdf.setFontSize(fontSize);
+                    run.text.split(/(\n|\s+)/).filter(Boolean).forEach(token => {
+                        if (token === '\n') {
+                            lines.push([]);
+                            lineWidth = 0;
+                            return;
+                        }
+                        const tokenWidth = pdf.getTextWidth(token);
+                        const isSpace = !token.trim();
+                        if (isSpace && lineWidth === 0) return;
+                        if (!isSpace && lineWidth > 0 && lineWidth + tokenWidth > width) {
+                            lines.push([]);
+                            lineWidth = 0;
+                        }
+                        lines[lines.length - 1].push({ text: token, style });
+                        lineWidth += tokenWidth;
+                    });
+                });
+
+                y += block.kind === 'heading' ? lineHeight : 0;
+                lines.forEach((line, l) => {
+                    if (y + lineHeight > pdfHeight - imgBottom) {
+                        page += 1;
+                        addAppendixPage(doc, index, tr('export.continued', { page }));
+                        y = imgTop + 5;
+                    }
+                    pdf.setFontSize(fontSize);
+                    pdf.setTextColor(block.kind === 'heading' ? 15 : 51, block.kind === 'heading' ? 23 : 65, block.kind === 'heading' ? 42 : 85);
+                    if (block.kind === 'listItem' && l === 0) {
+                        pdf.setFont(fontFamily, 'normal');
+                        pdf.text('\u2022', blockX(left - 4), y, rtlBlock ? { align: 'right' } : {});
+                    }
+                    if (rtlBlock) {
+                        // The bidi engine reorders whole lines, so a right-to-left line takes the style of its first run
+                        pdf.setFont(fontFamily, line[0]?.style || 'normal');
+                        pdf.text(line.map(segment => segment.text).join(''), blockX(left), y, { align: 'right', ...RTL_TEXT_OPTIONS });
+                    } else {
+                        let x = left;
+                        line.forEach(segment => {
+                            pdf.setFont(fontFamily, segment.style);
+                            pdf.text(segment.text, x, y);
+                            x += pdf.getTextWidth(segment.text);
+                        });
+                    }
+                    y += lineHeight;
+                });
+                y += block.kind === 'listItem' ? 1 : 3;
+            });
+        };
+
+        // Optimization: For large batches (>50), we only include the most critical records or downscale heavily
+        for (let i = 0; i < sortedDocs.length; i++) {
+            const doc = sortedDocs[i];
 
             if (doc.file.type.startsWith('image/')) {
+                // Scans grouped into one record share its appendix entry, one page each
+                const pages = getDocumentPages(doc);
+                for (const [p, page] of pages.entries()) {
+                    addAppendixPage(doc, i, pages.length > 1 ? tr('export.pageOf', { page: p + 1, total: pages.length }) : undefined, page);
+                    try {
+                        const base64 = await fileToBase64(page);
+                        const imgProps = pdf.getImageProperties(base64);
+                        addFittedImage(base64, imgProps.width, imgProps.height);
+                    } catch (e) {
+                        console.error("Failed to include image in PDF:", page.name);
+                        write(`[${tr('export.imageFailed')}]`, margin, 45);
+                    }
+                }
+            } else if (isPdfFile(doc.file)) {
+                // Original pages are merged in as vector pages after jsPDF is done;
+                // PDFs pdf-lib cannot open are rasterized instead.
+                // An encounter split from a compound PDF shows only its own pages
+                const pageCount = await countEmbeddablePdfPages(doc.file);
+                if (pageCount !== null) {
+                    const first = doc.pageRange?.start ?? 1;
+                    const last = Math.min(doc.pageRange?.end ?? pageCount, pageCount);
+                    for (let p = first; p <= last; p++) {
+                        addAppendixPage(doc, i, tr('export.pageOf', { page: p - first + 1, total: last - first + 1 }));
+                        placements.push({ targetPage: pdf.getNumberOfPages(), file: doc.file, sourcePage: p - 1, box: appendixBox });
+                    }
+                } else {
+                    try {
+                        const pages = await renderPdfPages(doc.file, undefined, undefined, doc.pageRange);
+                        pages.forEach((page, p) => {
+                            addAppendixPage(doc, i, tr('export.pageOf', { page: p + 1, total: pages.length }));
+                            addFittedImage(new Uint8Array(page.data), page.width, page.height);
+                        });
+                    } catch (e) {
+                        console.error("Failed to render PDF pages:", doc.file.name, e);
+                        addAppendixPage(doc, i);
+                        addPlaceholder(tr('export.pdfFailed'));
+                    }
+                }
+            } else if (isWordFile(doc.file)) {
+                addAppendixPage(doc, i);
                 try {
-                    const base64 = await fileToBase64(doc.file);
-                    const imgProps = pdf.getImageProperties(base64);
-                    
-                    const imgTop = 35;
-                    const imgBottom = 15;
-                    const availH = pdfHeight - imgTop - imgBottom;
-                    const availW = pdfWidth - (margin * 2);
-
-                    const ratio = Math.min(availW / imgProps.width, availH / imgProps.height);
-                    const w = imgProps.width * ratio;
-                    const h = imgProps.height * ratio;
-                    const x = (pdfWidth - w) / 2;
-
-                    // Compress even further for very large document counts
-                    const compression = sortedDocs.length > 50 ? 'FAST' : 'MEDIUM';
-                    pdf.addImage(base64, 'JPEG', x, imgTop, w, h, undefined, compression);
+                    addWordBlocks(await extractWordBlocks(doc.file), doc, i);
                 } catch (e) {
-                    console.error("Failed to include image in PDF:", doc.file.name);
-                    pdf.text("[Image processing failed for this record]", margin, 45);
+                    console.error("Failed to read Word document:", doc.file.name, e);
+                    addPlaceholder(tr('export.wordFailed'));
                 }
             } else {
-                pdf.setFontSize(10);
-                pdf.setTextColor(148, 163, 184);
-                pdf.text("NON-IMAGE CONTENT - PROCESSED DIGITALLY", pdfWidth/2, pdfHeight/2, { align: 'center' });
+                addAppendixPage(doc, i);
+                addPlaceholder(tr('export.unsupported'));
             }
         }
 
-        pdf.save(`MediChronicle_Organized_${patientName?.replace(/\s+/g, '_') || 'Report'}.pdf`);
+        const fileName = `MediChronicle_Organized_${patientName?.replace(/\s+/g, '_') || 'Report'}.pdf`;
+        if (placements.length === 0) {
+            pdf.save(fileName);
+        } else {
+            const merged = await embedPdfPages(pdf.output('arraybuffer'), placements);
+            const url = URL.createObjectURL(new Blob([merged], { type: 'application/pdf' }));
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = fileName;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        }
     } catch (err) {
         console.error("PDF Export Error:", err);
-        alert("There was an error generating your PDF. If you have many photos, try fewer at once or refresh.");
+        alert(t(err instanceof ExportFontError ? 'report.fontFailed' : 'report.pdfFailed'));
     } finally {
         setIsExportingPdf(false);
     }
@@ -199,179 +520,162 @@ export const ReportDisplay: React.FC<ReportDisplayProps> = ({ report, documents,
     if (isExportingWord) return;
     setIsExportingWord(true);
     try {
-        let docHtml = `
-            <html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
-            <head><meta charset='utf-8'><title>Organized Medical Report</title>
-            <style>
-                body { font-family: 'Segoe UI', Arial, sans-serif; padding: 40pt; color: #334155; }
-                h1 { color: #0284c7; border-bottom: 2pt solid #0284c7; padding-bottom: 10pt; font-size: 24pt; }
-                h2 { color: #0284c7; margin-top: 30pt; font-size: 16pt; border-bottom: 1pt solid #e2e8f0; padding-bottom: 5pt; }
-                .meta { color: #64748b; font-size: 10pt; margin-bottom: 20pt; }
-                .section-content { font-size: 11pt; line-height: 1.6; margin-bottom: 20pt; }
-                table { width: 100%; border-collapse: collapse; margin-top: 20pt; }
-                th { background-color: #f8fafc; border: 1pt solid #e2e8f0; padding: 8pt; text-align: left; font-size: 10pt; }
-                td { border: 1pt solid #e2e8f0; padding: 8pt; font-size: 9pt; vertical-align: top; }
-                .appendix-item { margin-top: 40pt; page-break-before: always; border: 1pt solid #e2e8f0; padding: 15pt; border-radius: 8pt; }
-                img { display: block; margin: 20pt auto; max-width: 100%; height: auto; border: 1pt solid #ddd; }
-            </style>
-            </head><body>
-            <h1>Clinical Case Portfolio</h1>
-            <div class="meta">
-                <strong>Patient:</strong> ${patientName || 'Anonymous'}<br>
-                <strong>Date:</strong> ${new Date().toLocaleDateString()}<br>
-            </div>
-            
-            <h2>I. NARRATIVE HISTORY</h2>
-            <div class="section-content">${report.history.replace(/\n/g, '<br>')}</div>
-
-            <h2>II. INTEGRATED SYNTHESIS</h2>
-            <div class="section-content">${report.summary.replace(/\n/g, '<br>')}</div>
-
-            <h2>III. CLINICAL OBSERVATIONS</h2>
-            <div class="section-content">${report.prognosis.replace(/\n/g, '<br>')}</div>
-
-            <h2>IV. MASTER DOCUMENT INDEX</h2>
-            <table>
-                <thead>
-                    <tr>
-                        <th>Ref</th>
-                        <th>Date</th>
-                        <th>Type</th>
-                        <th>Summary</th>
-                    </tr>
-                </thead>
-                <tbody>
-        `;
-
-        sortedDocs.forEach((doc, idx) => {
-            docHtml += `
-                <tr>
-                    <td><b>${idx + 1}</b></td>
-                    <td>${doc.date || 'N/A'}</td>
-                    <td>${doc.type}</td>
-                    <td>${doc.summary}</td>
-                </tr>
-            `;
-        });
-
-        docHtml += `</tbody></table>`;
-        docHtml += `<h2 style="page-break-before: always;">V. VISUAL APPENDIX</h2>`;
-
-        for (let i = 0; i < sortedDocs.length; i++) {
-            const doc = sortedDocs[i];
-            docHtml += `
-                <div class="appendix-item">
-                    <h3 style="color: #1e293b; margin: 0;">Record #${i+1}: ${doc.type}</h3>
-                    <p style="color: #64748b; font-size: 8pt;">File: ${doc.file.name}</p>
-                    <p style="color: #0284c7; font-size: 10pt; font-style: italic;">${doc.summary}</p>
-            `;
-
-            if (doc.file.type.startsWith('image/')) {
-                try {
-                    const base64 = await fileToBase64(doc.file);
-                    docHtml += `<img src="${base64}" />`;
-                } catch (e) {
-                    docHtml += `<p>[Image skipped due to processing error]</p>`;
-                }
-            } else {
-                docHtml += `<div style="padding: 20pt; text-align: center; color: #cbd5e1;">[Non-Image Content]</div>`;
-            }
-            docHtml += `</div>`;
-        }
-
-        docHtml += `</body></html>`;
-        
-        const blob = new Blob(['\ufeff', docHtml], { type: 'application/msword' });
+        const blob = await buildWordPortfolio({ patientName, report, sortedDocs, labHistory, medications });
         const url = URL.createObjectURL(blob);
         const link = document.createElement("a");
         link.href = url;
-        link.download = `MediChronicle_Portfolio_${patientName?.replace(/\s+/g, '_') || 'Report'}.doc`;
+        link.download = `MediChronicle_Portfolio_${patientName?.replace(/\s+/g, '_') || 'Report'}.docx`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
         URL.revokeObjectURL(url);
     } catch (err) {
         console.error("Word Export Error:", err);
-        alert("Word export failed. Please check your browser permissions.");
+        alert(t(err instanceof ExportFontError ? 'report.fontFailed' : 'report.wordFailed'));
     } finally {
         setIsExportingWord(false);
     }
   };
 
+  const handleDownloadFhir = async () => {
+    if (!profile || isExportingFhir) return;
+    setIsExportingFhir(true);
+    try {
+        const bundle = await buildFhirBundle(profile, documents, report);
+        const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `MediChronicle_FHIR_${patientName?.replace(/\s+/g, '_') || 'Report'}.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    } catch (err) {
+        console.error("FHIR Export Error:", err);
+        alert(t('report.fhirFailed'));
+    } finally {
+        setIsExportingFhir(false);
+    }
+  };
+
   return (
     <div className="space-y-8 animate-in fade-in duration-1000">
+        {report.isStale && (
+            <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex items-center gap-3 shadow-sm max-w-4xl mx-auto no-print">
+                <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
+                <p className="flex-1 text-xs text-amber-800">
+                    <span className="font-bold uppercase tracking-tight">{t('report.outdated')}</span> {t('report.outdatedHint')}
+                </p>
+                {onRegenerate && (
+                    <button onClick={onRegenerate} className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-amber-700 hover:text-amber-900 transition-colors">
+                        <RefreshCw className="w-3.5 h-3.5" /> {t('report.regenerate')}
+                    </button>
+                )}
+            </div>
+        )}
         <div className="flex justify-end gap-3 flex-wrap no-print">
+            {profile && (
+                <button
+                    onClick={handleDownloadFhir}
+                    disabled={isExporting}
+                    className="flex items-center gap-2 bg-white text-slate-700 border border-slate-200 px-6 py-3 rounded-2xl hover:border-medical-200 hover:text-medical-600 transition-all shadow-lg active:scale-95 text-sm font-bold disabled:opacity-50"
+                    title={t('report.fhirHint')}
+                >
+                    {isExportingFhir ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />}
+                    {isExportingFhir ? t('report.fhirBuilding') : t('report.fhir')}
+                </button>
+            )}
             <button 
                 onClick={handleDownloadWord}
-                disabled={isExportingWord || isExportingPdf}
+                disabled={isExporting}
                 className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-2xl hover:bg-blue-700 transition-all shadow-lg active:scale-95 text-sm font-bold disabled:opacity-50"
             >
                 {isExportingWord ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileCode className="w-4 h-4" />}
-                {isExportingWord ? 'Exporting Word...' : 'Word Portfolio'}
+                {isExportingWord ? t('report.wordExporting') : t('report.word')}
             </button>
             <button 
                 onClick={handleDownloadPdf}
-                disabled={isExportingPdf || isExportingWord}
+                disabled={isExporting}
                 className="flex items-center gap-2 bg-slate-900 text-white px-6 py-3 rounded-2xl hover:bg-slate-800 transition-all shadow-lg active:scale-95 text-sm font-bold disabled:opacity-50"
             >
                 {isExportingPdf ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
-                {isExportingPdf ? 'Generating PDF...' : 'Organized PDF'}
+                {isExportingPdf ? t('report.pdfGenerating') : t('report.pdf')}
             </button>
         </div>
 
         <div className="bg-white p-8 sm:p-12 rounded-[2.5rem] shadow-2xl border border-slate-100 max-w-4xl mx-auto text-slate-800 ring-1 ring-slate-200">
             <div className="border-b-4 border-slate-50 pb-8 mb-10 flex justify-between items-end">
                 <div>
-                    <h1 className="text-4xl font-black text-slate-900 tracking-tight leading-none mb-4">Case Overview</h1>
-                    <p className="text-medical-600 font-bold text-lg uppercase tracking-wider">Patient: {patientName || 'Anonymous'}</p>
-                    <p className="text-slate-400 text-xs mt-2 font-medium">MediChronicle AI Clinical Sorter</p>
+                    <h1 className="text-4xl font-black text-slate-900 tracking-tight leading-none mb-4">{template.title}</h1>
+                    <p className="text-medical-600 font-bold text-lg uppercase tracking-wider">{t('report.patient')} {patientName || t('report.anonymous')}</p>
+                    <p className="text-slate-400 text-xs mt-2 font-medium">{t('report.sorter')}</p>
                 </div>
-                <div className="text-right text-sm font-bold text-slate-400 space-y-1">
-                    <p>{new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' })}</p>
-                    <p className="text-medical-500 uppercase tracking-widest text-[10px] font-black">{documents.length} Records Processed</p>
+                <div className="text-end text-sm font-bold text-slate-400 space-y-1">
+                    <p>{(report.version ? new Date(report.version.generatedAt) : new Date()).toLocaleDateString(language.tag, { year: 'numeric', month: 'long', day: 'numeric' })}</p>
+                    <p className="text-medical-500 uppercase tracking-widest text-[10px] font-black">{t('report.recordsProcessed', { count: documents.length })}</p>
                 </div>
             </div>
 
-            <div className="bg-rose-50 border-l-4 border-rose-500 p-6 mb-12 rounded-xl">
+            <div className="bg-rose-50 border-s-4 border-rose-500 p-6 mb-12 rounded-xl">
                 <div className="flex items-start gap-4">
                     <ShieldAlert className="w-8 h-8 text-rose-600 shrink-0" />
                     <div>
-                        <h4 className="font-black text-rose-800 uppercase tracking-tight text-sm">Clinical Summary Notice</h4>
+                        <h4 className="font-black text-rose-800 uppercase tracking-tight text-sm">{t('report.noticeTitle')}</h4>
                         <p className="text-xs text-rose-700 mt-2 leading-relaxed font-medium">
-                            This portfolio is an AI-generated organization of provided documentation. It is intended for tracking and clarity only. Not for diagnostic use.
+                            {t('report.notice')}
                         </p>
                     </div>
                 </div>
             </div>
 
             <div className="space-y-16">
-                <section>
-                    <div className="flex items-center gap-3 mb-6 text-medical-600">
-                        <Activity className="w-7 h-7" />
-                        <h2 className="text-2xl font-black uppercase tracking-tighter">I. Narrative History</h2>
-                    </div>
-                    <div className="text-base leading-loose text-slate-700 font-medium whitespace-pre-line bg-slate-50/70 p-8 rounded-[1.5rem] border border-slate-100">
-                        {report.history}
-                    </div>
-                </section>
-
-                <section>
-                    <div className="flex items-center gap-3 mb-6 text-medical-600">
-                        <FileText className="w-7 h-7" />
-                        <h2 className="text-2xl font-black uppercase tracking-tighter">II. Clinical Synthesis</h2>
-                    </div>
-                    <div className="p-8 rounded-[1.5rem] border-2 border-slate-50 text-base leading-loose text-slate-700 font-medium bg-white shadow-sm">
-                        {report.summary}
-                    </div>
-                </section>
+                {report.sections.map((section, i) => {
+                    const { icon: Icon, className } = SECTION_STYLES[i % SECTION_STYLES.length];
+                    return (
+                        <section key={section.key} lang={reportLanguage.tag} dir={reportLanguage.rtl ? 'rtl' : 'ltr'}>
+                            <div className="flex items-center gap-3 mb-6 text-medical-600">
+                                <Icon className="w-7 h-7" />
+                                <h2 className="text-2xl font-black uppercase tracking-tighter">{sectionNumeral(i)}. {section.title}</h2>
+                            </div>
+                            <div className={className}>
+                                <CitedText text={section.text} paragraphs={section.paragraphs} references={references} onCite={handleCite} />
+                            </div>
+                        </section>
+                    );
+                })}
+
+                <LabTrends series={labSeries} />
+
+                <MedicationHistory medications={medications} />
 
                 <section>
                     <div className="flex items-center gap-3 mb-6 text-medical-600">
-                        <ClipboardList className="w-7 h-7" />
-                        <h2 className="text-2xl font-black uppercase tracking-tighter">III. Clinical Observations</h2>
+                        <ListOrdered className="w-7 h-7" />
+                        <h2 className="text-2xl font-black uppercase tracking-tighter">{indexNumeral}. {t('report.masterIndex')}</h2>
                     </div>
-                    <div className="p-8 rounded-[1.5rem] border border-slate-200 bg-slate-50/40 text-base leading-loose text-slate-600 font-medium italic">
-                        {report.prognosis}
+                    <div className="rounded-[1.5rem] border border-slate-100 divide-y divide-slate-100 overflow-hidden">
+                        {sortedDocs.map((doc, idx) => (
+                            <div
+                                key={doc.id}
+                                id={`source-ref-${idx + 1}`}
+                                className={`flex items-start gap-4 px-5 py-3 text-sm transition-colors ${highlightedRef === idx + 1 ? 'bg-medical-50 ring-2 ring-medical-200 ring-inset' : ''} ${doc.isDuplicate ? 'opacity-50' : ''}`}
+                            >
+                                <span className="font-black text-slate-400 w-6 shrink-0">{idx + 1}</span>
+                                <span className="text-slate-500 w-24 shrink-0">{doc.date || t('common.notAvailable')}</span>
+                                <span className="text-medical-600 font-bold text-[10px] uppercase tracking-widest w-24 shrink-0 pt-0.5">{t(`docType.${doc.type}`)}</span>
+                                <span className="flex-1 text-slate-700">{doc.summary}</span>
+                                <a
+                                    href={doc.pageRange ? `${doc.previewUrl}#page=${doc.pageRange.start}` : doc.previewUrl}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="text-slate-300 hover:text-medical-600 transition-colors shrink-0"
+                                    title={t('report.openFile', { file: doc.file.name })}
+                                >
+                                    <ExternalLink className="w-4 h-4" />
+                                </a>
+                            </div>
+                        ))}
                     </div>
                 </section>
             </div>
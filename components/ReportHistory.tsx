@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { ProcessedDocument, ReportData } from '../types';
+import { resolveDocument } from '../services/documentService';
+import { DiffSegment, compareReports } from '../services/reportDiffService';
+import { getReportTemplate } from '../services/reportTemplateService';
+import { getLanguage, isRtl } from '../services/i18nService';
+import { useTranslation } from './LanguageProvider';
+import { GitCompare, History, X } from 'lucide-react';
+
+interface ReportHistoryProps {
+  // Oldest first, as loaded from storage.
+  versions: ReportData[];
+  currentId?: string;
+  documents: ProcessedDocument[];
+  onOpen: (version: ReportData) => void;
+  onClose: () => void;
+}
+
+const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-400";
+
+const Segment: React.FC<{ segment: DiffSegment }> = ({ segment }) => {
+  if (segment.kind === 'added') return <ins className="bg-emerald-100 text-emerald-900 no-underline rounded px-0.5">{segment.text}</ins>;
+  if (segment.kind === 'removed') return <del className="bg-rose-100 text-rose-800 rounded px-0.5">{segment.text}</del>;
+  return <>{segment.text}</>;
+};
+
+export const ReportHistory: React.FC<ReportHistoryProps> = ({ versions, currentId, documents, onOpen, onClose }) => {
+  const { t, locale, language } = useTranslation();
+  const newestFirst = [...versions].reverse();
+  // The two most recent versions are compared by default
+  const [selected, setSelected] = useState<string[]>(newestFirst.slice(0, 2).map(v => v.version!.id));
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2));
+  };
+
+  const pair = versions.filter(v => selected.includes(v.version!.id));
+  const comparison = useMemo(() => pair.length === 2 ? compareReports(pair[0], pair[1], locale) : null, [pair[0], pair[1], locale]);
+
+  const formatTimestamp = (iso: string) =>
+    new Date(iso).toLocaleString(language.tag, { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  const describeRecord = (id: string) => {
+    const doc = documents.find(d => d.id === id);
+    if (!doc) return t('history.removedRecord');
+    const resolved = resolveDocument(doc);
+    return `${resolved.date || t('common.undated')} · ${t(`docType.${resolved.type}`)}: ${resolved.summary}`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-4xl max-h-[90vh] rounded-[2rem] shadow-2xl p-8 flex flex-col gap-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-3">
+            <History className="w-6 h-6 text-medical-600" />
+            <div>
+              <h3 className="font-black text-slate-900 uppercase tracking-tighter">{t('history.title')}</h3>
+              <p className="text-xs text-slate-500">{t('history.hint')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded-lg">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto space-y-6">
+          <div className="rounded-2xl border border-slate-100 divide-y divide-slate-100">
+            {newestFirst.map(version => {
+              const info = version.version!;
+              return (
+                <div key={info.id} className="flex items-center gap-4 px-4 py-3 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(info.id)}
+                    onChange={() => toggleSelected(info.id)}
+                    className="accent-medical-600"
+                    title={t('history.compare')}
+                  />
+                  <div className="flex-1">
+                    <p className="font-bold text-slate-800">
+                      {formatTimestamp(info.generatedAt)}
+                      {info.id === currentId && <span className="ms-2 text-[10px] font-black uppercase tracking-widest text-medical-600">{t('history.current')}</span>}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {getReportTemplate(version.settings.templateId, locale).name} · {getLanguage(version.settings.language).nativeName} · {t('common.records', { count: info.documentIds.length })} · {info.provider} / {info.model}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onOpen(version)}
+                    className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-medical-600 transition-colors"
+                  >
+                    {t('history.open')}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          {comparison ? (
+            <div className="space-y-5">
+              <div className="flex items-center gap-2 text-medical-600">
+                <GitCompare className="w-4 h-4" />
+                <p className="text-[10px] font-black uppercase tracking-widest">
+                  {formatTimestamp(pair[0].version!.generatedAt)} → {formatTimestamp(pair[1].version!.generatedAt)}
+                </p>
+              </div>
+
+              {(comparison.addedDocumentIds.length > 0 || comparison.removedDocumentIds.length > 0) && (
+                <div className="space-y-1">
+                  <p className={labelClass}>{t('history.records')}</p>
+                  {comparison.addedDocumentIds.map(id => (
+                    <p key={id} className="text-xs text-emerald-700">+ {describeRecord(id)}</p>
+                  ))}
+                  {comparison.removedDocumentIds.map(id => (
+                    <p key={id} className="text-xs text-rose-700">− {describeRecord(id)}</p>
+                  ))}
+                </div>
+              )}
+
+              {comparison.sections.map(section => (
+                <div key={section.key} className="space-y-2" dir={isRtl(pair[1].settings.language) ? 'rtl' : 'ltr'}>
+                  <p className={labelClass}>
+                    {section.title}
+                    {!section.changed && <span className="ms-2 normal-case tracking-normal font-medium italic">{t('history.noChanges')}</span>}
+                  </p>
+                  {section.changed && (
+                    <div className="space-y-3 text-sm leading-relaxed text-slate-700 bg-slate-50/70 p-4 rounded-xl border border-slate-100">
+                      {section.paragraphs.map((paragraph, i) => (
+                        <p key={i} className={paragraph.every(s => s.kind === 'same') ? 'text-slate-400' : ''}>
+                          {paragraph.map((segment, j) => <Segment key={j} segment={segment} />)}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 italic">{t('history.pickTwo')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Locale, ReportSettings } from '../types';
+import { REPORT_LENGTHS, REPORT_TEMPLATES, getReportTemplate, getWordTarget } from '../services/reportTemplateService';
+import { LANGUAGES } from '../services/i18nService';
+import { useTranslation } from './LanguageProvider';
+
+interface ReportSettingsPanelProps {
+  settings: ReportSettings;
+  onChange: (settings: ReportSettings) => void;
+}
+
+const labelClass = "block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2";
+const inputClass = "w-full px-3 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none transition-all text-sm font-medium";
+
+export const ReportSettingsPanel: React.FC<ReportSettingsPanelProps> = ({ settings, onChange }) => {
+  const { t, locale } = useTranslation();
+  const template = getReportTemplate(settings.templateId, locale);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <span className={labelClass}>{t('reportSettings.type')}</span>
+        <div className="space-y-1.5">
+          {REPORT_TEMPLATES.map(({ id }) => getReportTemplate(id, locale)).map(option => (
+            <button
+              key={option.id}
+              onClick={() => onChange({ ...settings, templateId: option.id })}
+              className={`w-full text-start px-3 py-2 rounded-xl border transition-all ${
+                option.id === template.id ? 'border-medical-500 bg-medical-50' : 'border-slate-200 hover:border-medical-200'
+              }`}
+            >
+              <p className={`text-xs font-bold ${option.id === template.id ? 'text-medical-700' : 'text-slate-700'}`}>{option.name}</p>
+              <p className="text-[11px] text-slate-500 leading-snug">{option.description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <span className={labelClass}>{t('reportSettings.length')}</span>
+        <div className="grid grid-cols-3 gap-1.5">
+          {REPORT_LENGTHS.map(length => (
+            <button
+              key={length.id}
+              onClick={() => onChange({ ...settings, length: length.id })}
+              className={`py-1.5 rounded-lg text-[10px] font-black tracking-widest uppercase border transition-all ${
+                settings.length === length.id
+                  ? 'bg-medical-600 border-medical-600 text-white'
+                  : 'bg-white border-slate-200 text-slate-500 hover:border-medical-200'
+              }`}
+            >
+              {t(`reportSettings.length.${length.id}`)}
+            </button>
+          ))}
+        </div>
+        <p className="text-[11px] text-slate-400 mt-1.5">{t('reportSettings.words', { count: getWordTarget(settings) })}</p>
+      </div>
+
+      <label className="block">
+        <span className={labelClass}>{t('reportSettings.language')}</span>
+        <select
+          value={settings.language}
+          onChange={(e) => onChange({ ...settings, language: e.target.value as Locale })}
+          className={inputClass}
+        >
+          {LANGUAGES.map(language => <option key={language.id} value={language.id}>{language.nativeName}</option>)}
+        </select>
+      </label>
+
+      {template.focus && (
+        <label className="block">
+          <span className={labelClass}>{template.focus.required ? template.focus.label : t('common.optional', { label: template.focus.label })}</span>
+          <input
+            type="text"
+            value={settings.focus}
+            placeholder={template.focus.placeholder}
+            onChange={(e) => onChange({ ...settings, focus: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      )}
+
+      {template.recipient && (
+        <label className="block">
+          <span className={labelClass}>{t('common.optional', { label: template.recipient.label })}</span>
+          <input
+            type="text"
+            value={settings.recipient}
+            placeholder={template.recipient.placeholder}
+            onChange={(e) => onChange({ ...settings, recipient: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { ReportSettings } from '../types';
+import { ReportDraft } from '../services/geminiService';
+import { getReportTemplate, sectionNumeral } from '../services/reportTemplateService';
+import { isRtl } from '../services/i18nService';
+import { useTranslation } from './LanguageProvider';
+import { Activity, ClipboardList, FileText, Loader2, X } from 'lucide-react';
+
+interface ReportStreamProps {
+  settings: ReportSettings;
+  // Null until the first part of the response has arrived.
+  draft: ReportDraft | null;
+  onCancel: () => void;
+}
+
+const ICONS = [Activity, FileText, ClipboardList];
+
+export const ReportStream: React.FC<ReportStreamProps> = ({ settings, draft, onCancel }) => {
+  const { t, locale } = useTranslation();
+  // Headings as they will appear in the report, which may be in another language than the interface
+  const template = getReportTemplate(settings.templateId, settings.language);
+  const textOf = (key: string) => draft?.find(s => s.key === key)?.text || '';
+  // Sections arrive in order, so the last one with text is the one being written
+  const activeIndex = template.sections.map(s => !!textOf(s.key)).lastIndexOf(true);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Loader2 className="w-8 h-8 animate-spin text-medical-600" />
+          <div>
+            <h3 className="text-xl font-black text-slate-900">{t('stream.title', { name: getReportTemplate(settings.templateId, locale).name })}</h3>
+            <p className="text-slate-500 text-sm">
+              {activeIndex < 0 ? t('stream.waiting') : t('stream.writing', { section: template.sections[activeIndex].title })}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onCancel}
+          className="text-[10px] font-black uppercase tracking-widest text-slate-600 border border-slate-200 px-4 py-2 rounded-lg flex items-center gap-1.5 hover:border-red-200 hover:text-red-600 transition-colors"
+        >
+          <X className="w-3 h-3" /> {t('common.cancel')}
+        </button>
+      </div>
+
+      <div dir={isRtl(settings.language) ? 'rtl' : 'ltr'} className="bg-white p-8 sm:p-12 rounded-[2.5rem] shadow-2xl border border-slate-100 space-y-12">
+        {template.sections.map(({ key, title }, i) => {
+          const Icon = ICONS[i % ICONS.length];
+          return (
+            <section key={key} className={i > Math.max(activeIndex, 0) ? 'opacity-30' : ''}>
+              <div className="flex items-center gap-3 mb-4 text-medical-600">
+                <Icon className="w-6 h-6" />
+                <h2 className="text-xl font-black uppercase tracking-tighter">{sectionNumeral(i)}. {title}</h2>
+              </div>
+              <p className="text-base leading-loose text-slate-700 font-medium whitespace-pre-line">
+                {textOf(key)}
+                {i === activeIndex && <span className="inline-block w-2 h-4 ms-0.5 bg-medical-500 animate-pulse align-middle" />}
+              </p>
+            </section>
+          );
+        })}
+      </div>
+
+      <p className="text-center text-xs text-slate-400">
+        {t('stream.hint')}
+      </p>
+    </div>
+  );
+};
@@ -1,13 +1,39 @@
 
-import React from 'react';
-import { ProcessedDocument } from '../types';
-import { Calendar, FileText, Beaker, Stethoscope, Pill, AlertTriangle, Trash2, File as FileIcon } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { DocumentCorrections, EditableDocumentField, LabResult, Locale, MedicationMention, PageRange, ProcessedDocument } from '../types';
+import { applyCorrections, getFieldSource, resolveDocument, revertCorrection } from '../services/documentService';
+import { getDuplicateClusters } from '../services/duplicateService';
+import { normalizeLabResult } from '../services/labService';
+import { formatRegimen, normalizeMedicationMention } from '../services/medicationService';
+import { parseSearchQuery, searchDocuments, splitHighlights } from '../services/searchService';
+import { EMPTY_FILTERS, SortOrder, TimelineFilters, TimelineGrouping, filterDocuments, getGroupKey, groupDocuments, sortDocuments } from '../services/timelineService';
+import { getDocumentPages, isPageImage } from '../services/pageGroupService';
+import { renderPdfPages } from '../services/pdfService';
+import { DuplicateClusters } from './DuplicateClusters';
+import { TimelineControls } from './TimelineControls';
+import { ChronologyView } from './ChronologyView';
+import { useTranslation } from './LanguageProvider';
+import { FileText, Beaker, Stethoscope, Pill, Trash2, File as FileIcon, Pencil, Check, X, Sparkles, UserCheck, Undo2, Search, ChevronDown, ChevronRight, Group, Ungroup, Layers, Plus } from 'lucide-react';
 
 interface TimelineProps {
   documents: ProcessedDocument[];
   onRemove: (id: string) => void;
+  onUpdate: (doc: ProcessedDocument) => void;
+  onKeepCopy: (groupId: string, docId: string) => void;
+  // Re-analyze a grouped record's pages as separate records.
+  onSplitPages: (id: string) => void;
+  // Re-analyze the records' pages, in the given order, as one record.
+  onJoinPages: (ids: string[]) => void;
 }
 
+const DOCUMENT_TYPES: ProcessedDocument['type'][] = ['LAB', 'IMAGING', 'PRESCRIPTION', 'NOTE', 'OTHER'];
+const MEDICATION_ACTIONS: MedicationMention['action'][] = ['START', 'CONTINUE', 'CHANGE', 'STOP'];
+
+const formatLab = (lab: LabResult) =>
+  (lab.value !== null ? `${lab.analyte} ${lab.value} ${lab.unit}` : `${lab.analyte} ${lab.rawValue} ${lab.rawUnit}`).trim();
+
+const formatMedication = (mention: MedicationMention, locale: Locale) => `${mention.drug} (${formatRegimen(mention, locale)})`;
+
 const getTypeIcon = (type: string) => {
   switch (type) {
     case 'LAB': return <Beaker className="w-4 h-4" />;
@@ -17,83 +43,550 @@ const getTypeIcon = (type: string) => {
   }
 };
 
-export const Timeline: React.FC<TimelineProps> = ({ documents, onRemove }) => {
-  const hasDuplicates = documents.some(d => d.isDuplicate && d.type !== 'IMAGING');
+const Highlight: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {splitHighlights(text, terms).map((segment, i) => segment.match
+      ? <mark key={i} className="bg-amber-100 text-amber-900 rounded px-0.5">{segment.text}</mark>
+      : <React.Fragment key={i}>{segment.text}</React.Fragment>
+    )}
+  </>
+);
+
+// Small marker telling whether a field value came from the model or a person.
+const SourceBadge: React.FC<{ doc: ProcessedDocument; field: EditableDocumentField; onRevert: () => void }> = ({ doc, field, onRevert }) => {
+  const { t, locale } = useTranslation();
+  const aiValue = field === 'labResults' ? (doc.labResults || []).map(formatLab).join(', ') || null
+    : field === 'medications' ? (doc.medications || []).map(m => formatMedication(m, locale)).join(', ') || null
+    : doc[field];
+  if (getFieldSource(doc, field) === 'ai') {
+    return (
+      <span className="inline-flex items-center gap-0.5 text-[8px] font-black uppercase tracking-widest text-slate-300" title={t('timeline.extractedByAi')}>
+        <Sparkles className="w-2.5 h-2.5" /> {t('timeline.ai')}
+      </span>
+    );
+  }
+  return (
+    <span className="inline-flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-emerald-600" title={t('timeline.aiValue', { value: String(aiValue ?? t('timeline.none')) })}>
+      <UserCheck className="w-2.5 h-2.5" /> {t('timeline.edited')}
+      <button onClick={onRevert} className="hover:text-emerald-800" title={t('timeline.revert')}>
+        <Undo2 className="w-2.5 h-2.5" />
+      </button>
+    </span>
+  );
+};
+
+// Preview of a record grouped from several scans, with a strip to page through them.
+const PagedPreview: React.FC<{ pages: File[] }> = ({ pages }) => {
+  const { t } = useTranslation();
+  const [urls, setUrls] = useState<string[]>([]);
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    const created = pages.map(page => URL.createObjectURL(page));
+    setUrls(created);
+    return () => created.forEach(url => URL.revokeObjectURL(url));
+  }, [pages]);
+
+  return (
+    <div className="w-full md:w-32 shrink-0 space-y-2">
+      <div className="relative aspect-[3/4] bg-slate-50 rounded-xl overflow-hidden border border-slate-100 transition-transform group-hover:scale-[1.02]">
+        {urls[current] && <img src={urls[current]} alt={t('timeline.record')} className="w-full h-full object-cover bg-white" />}
+        <span className="absolute bottom-1.5 end-1.5 px-1.5 py-0.5 rounded-md bg-slate-900/70 text-white text-[9px] font-black">
+          {current + 1}/{pages.length}
+        </span>
+      </div>
+      <div className="flex gap-1 overflow-x-auto">
+        {urls.map((url, i) => (
+          <button
+            key={url}
+            onClick={() => setCurrent(i)}
+            title={t('timeline.showPage', { page: i + 1 })}
+            className={`w-7 aspect-[3/4] shrink-0 rounded-md overflow-hidden border-2 transition-opacity ${i === current ? 'border-medical-500' : 'border-transparent opacity-60 hover:opacity-100'}`}
+          >
+            <img src={url} alt="" className="w-full h-full object-cover" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Thumbnails render one at a time; a compound PDF can yield dozens of entries.
+let renderQueue: Promise<unknown> = Promise.resolve();
+const queueRender = <T,>(task: () => Promise<T>): Promise<T> => {
+  const result = renderQueue.then(task);
+  renderQueue = result.catch(() => undefined);
+  return result;
+};
+
+// First page of an encounter split from a compound PDF, so the entries
+// sharing that file can be told apart.
+const PdfRangePreview: React.FC<{ file: File; range: PageRange }> = ({ file, range }) => {
+  const { t } = useTranslation();
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let created: string | null = null;
+    queueRender(() => cancelled ? Promise.resolve([]) : renderPdfPages(file, 480, undefined, { start: range.start, end: range.start }))
+      .then(([page]) => {
+        if (cancelled || !page) return;
+        created = URL.createObjectURL(new Blob([page.data], { type: 'image/jpeg' }));
+        setUrl(created);
+      })
+      .catch(err => console.error("Page preview failed:", file.name, err));
+    return () => {
+      cancelled = true;
+      if (created) URL.revokeObjectURL(created);
+    };
+  }, [file, range.start]);
+
+  return (
+    <>
+      {url ? (
+        <img src={url} alt={t('timeline.record')} className="w-full h-full object-cover bg-white" />
+      ) : (
+        <FileIcon className="w-12 h-12 text-slate-300" />
+      )}
+      <span className="absolute bottom-1.5 end-1.5 px-1.5 py-0.5 rounded-md bg-slate-900/70 text-white text-[9px] font-black">
+        {t('timeline.pageRange', { start: range.start, end: range.end })}
+      </span>
+    </>
+  );
+};
+
+// Lab values and medications as typed; they are parsed the same way as the model's output on save.
+interface LabRow { analyte: string; value: string; unit: string; referenceRange: string; collectionDate: string }
+interface MedicationRow { drug: string; dose: string; frequency: string; prescriber: string; date: string; action: MedicationMention['action'] }
+
+const EMPTY_LAB: LabRow = { analyte: '', value: '', unit: '', referenceRange: '', collectionDate: '' };
+const EMPTY_MEDICATION: MedicationRow = { drug: '', dose: '', frequency: '', prescriber: '', date: '', action: 'CONTINUE' };
+
+const toLabRow = (lab: LabResult): LabRow => ({
+  analyte: lab.analyte, value: lab.rawValue, unit: lab.rawUnit, referenceRange: lab.referenceRange || '', collectionDate: lab.collectionDate || ''
+});
+
+const toMedicationRow = (mention: MedicationMention): MedicationRow => ({
+  drug: mention.drug, dose: mention.dose || '', frequency: mention.frequency || '', prescriber: mention.prescriber || '', date: mention.date || '', action: mention.action
+});
+
+const DocumentEditor: React.FC<{ doc: ProcessedDocument; onSave: (edits: DocumentCorrections) => void; onCancel: () => void }> = ({ doc, onSave, onCancel }) => {
+  const { t } = useTranslation();
+  const current = resolveDocument(doc);
+  const [date, setDate] = useState(current.date || '');
+  const [type, setType] = useState(current.type);
+  const [summary, setSummary] = useState(current.summary);
+  const [isDuplicate, setIsDuplicate] = useState(current.isDuplicate);
+  // Lists are only saved once touched, so an untouched list stays AI-sourced
+  const [labs, setLabs] = useState<LabRow[] | null>(null);
+  const [medications, setMedications] = useState<MedicationRow[] | null>(null);
+  const labRows = labs ?? (current.labResults || []).map(toLabRow);
+  const medicationRows = medications ?? (current.medications || []).map(toMedicationRow);
+
+  const updateLab = (index: number, changes: Partial<LabRow>) =>
+    setLabs(labRows.map((row, i) => i === index ? { ...row, ...changes } : row));
+  const updateMedication = (index: number, changes: Partial<MedicationRow>) =>
+    setMedications(medicationRows.map((row, i) => i === index ? { ...row, ...changes } : row));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const edits: DocumentCorrections = { date: date || null, type, summary: summary.trim(), isDuplicate };
+    if (labs) {
+      edits.labResults = labs.map(row => normalizeLabResult(row, date || null)).filter((lab): lab is LabResult => !!lab);
+    }
+    if (medications) {
+      edits.medications = medications.map(row => normalizeMedicationMention(row, date || null)).filter((m): m is MedicationMention => !!m);
+    }
+    onSave(edits);
+  };
+
+  const inputClass = "w-full px-3 py-2 rounded-xl border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none transition-all text-sm font-medium";
+  const cellClass = "w-full min-w-0 px-2 py-1.5 rounded-lg border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none text-xs font-medium";
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-400";
+  const addClass = "flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-bold text-medical-700 hover:bg-medical-50 transition-colors";
+  const removeButton = (onClick: () => void) => (
+    <button type="button" onClick={onClick} className="p-1 text-slate-300 hover:text-red-500 rounded-lg shrink-0" title={t('timeline.removeRow')}>
+      <X className="w-3.5 h-3.5" />
+    </button>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('timeline.date')}</span>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('timeline.type')}</span>
+          <select value={type} onChange={(e) => setType(e.target.value as ProcessedDocument['type'])} className={inputClass}>
+            {DOCUMENT_TYPES.map(option => <option key={option} value={option}>{t(`docType.${option}`)}</option>)}
+          </select>
+        </label>
+      </div>
+      <label className="block">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('timeline.summary')}</span>
+        <textarea value={summary} onChange={(e) => setSummary(e.target.value)} rows={3} className={inputClass} />
+      </label>
+      <div className="space-y-1.5">
+        <span className={labelClass}>{t('timeline.labValues')}</span>
+        {labRows.map((row, i) => (
+          <div key={i} className="flex items-center gap-1.5">
+            <input value={row.analyte} onChange={(e) => updateLab(i, { analyte: e.target.value })} placeholder={t('export.analyte')} className={cellClass} />
+            <input value={row.value} onChange={(e) => updateLab(i, { value: e.target.value })} placeholder={t('export.value')} className={cellClass} />
+            <input value={row.unit} onChange={(e) => updateLab(i, { unit: e.target.value })} placeholder={t('export.unit')} className={cellClass} />
+            <input value={row.referenceRange} onChange={(e) => updateLab(i, { referenceRange: e.target.value })} placeholder={t('export.reference')} className={cellClass} />
+            <input type="date" value={row.collectionDate} onChange={(e) => updateLab(i, { collectionDate: e.target.value })} title={t('timeline.collected')} className={cellClass} />
+            {removeButton(() => setLabs(labRows.filter((_, j) => j !== i)))}
+          </div>
+        ))}
+        <button type="button" onClick={() => setLabs([...labRows, EMPTY_LAB])} className={addClass}>
+          <Plus className="w-3.5 h-3.5" /> {t('timeline.addLab')}
+        </button>
+      </div>
+      <div className="space-y-1.5">
+        <span className={labelClass}>{t('timeline.medications')}</span>
+        {medicationRows.map((row, i) => (
+          <div key={i} className="flex items-center gap-1.5">
+            <input value={row.drug} onChange={(e) => updateMedication(i, { drug: e.target.value })} placeholder={t('medications.drug')} className={cellClass} />
+            <input value={row.dose} onChange={(e) => updateMedication(i, { dose: e.target.value })} placeholder={t('timeline.dose')} className={cellClass} />
+            <input value={row.frequency} onChange={(e) => updateMedication(i, { frequency: e.target.value })} placeholder={t('timeline.frequency')} className={cellClass} />
+            <input value={row.prescriber} onChange={(e) => updateMedication(i, { prescriber: e.target.value })} placeholder={t('medications.prescriber')} className={cellClass} />
+            <input type="date" value={row.date} onChange={(e) => updateMedication(i, { date: e.target.value })} title={t('timeline.date')} className={cellClass} />
+            <select value={row.action} onChange={(e) => updateMedication(i, { action: e.target.value as MedicationMention['action'] })} className={cellClass}>
+              {MEDICATION_ACTIONS.map(action => <option key={action} value={action}>{t(`medAction.${action}`)}</option>)}
+            </select>
+            {removeButton(() => setMedications(medicationRows.filter((_, j) => j !== i)))}
+          </div>
+        ))}
+        <button type="button" onClick={() => setMedications([...medicationRows, EMPTY_MEDICATION])} className={addClass}>
+          <Plus className="w-3.5 h-3.5" /> {t('timeline.addMedication')}
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+        <input type="checkbox" checked={isDuplicate} onChange={(e) => setIsDuplicate(e.target.checked)} className="accent-medical-600" />
+        {t('timeline.duplicateRecord')}
+      </label>
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={onCancel} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 transition-colors">
+          <X className="w-3.5 h-3.5" /> {t('common.cancel')}
+        </button>
+        <button type="submit" className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold bg-medical-600 text-white hover:bg-medical-700 transition-colors">
+          <Check className="w-3.5 h-3.5" /> {t('common.save')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export const Timeline: React.FC<TimelineProps> = ({ documents, onRemove, onUpdate, onKeepCopy, onSplitPages, onJoinPages }) => {
+  const { t, locale, language } = useTranslation();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<TimelineFilters>(EMPTY_FILTERS);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
+  const [grouping, setGrouping] = useState<TimelineGrouping>('none');
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [showChronology, setShowChronology] = useState(false);
+  // A new object per jump, so selecting the same record again still scrolls
+  const [focus, setFocus] = useState<{ id: string } | null>(null);
+  // Records picked to be joined into one, in page order
+  const [joinSelection, setJoinSelection] = useState<string[]>([]);
+  const duplicateClusters = getDuplicateClusters(documents);
+
+  const terms = parseSearchQuery(query);
+  const resolved = documents.map(resolveDocument);
+  const sources = new Map<string, ProcessedDocument>(documents.map(d => [d.id, d]));
+  const matches = searchDocuments(resolved, terms);
+  const visibleDocuments = filterDocuments(resolved, filters).filter(d => terms.length === 0 || matches.has(d.id));
+  const groups = groupDocuments(sortDocuments(visibleDocuments, sortOrder), grouping, locale);
+
+  useEffect(() => {
+    setJoinSelection(prev => prev.filter(id => documents.some(d => d.id === id)));
+  }, [documents]);
+
+  useEffect(() => {
+    if (focus) document.getElementById(`record-${focus.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focus]);
+
+  const handleJump = (id: string) => {
+    const doc = visibleDocuments.find(d => d.id === id);
+    if (!doc) return;
+    const key = getGroupKey(doc, grouping);
+    if (collapsedGroups.has(key)) {
+      setCollapsedGroups(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+    setFocus({ id });
+  };
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const handleSave = (doc: ProcessedDocument, edits: DocumentCorrections) => {
+    onUpdate(applyCorrections(doc, edits));
+    setEditingId(null);
+  };
+
+  const handleRevert = (doc: ProcessedDocument, field: EditableDocumentField) => {
+    onUpdate(revertCorrection(doc, field));
+  };
+
+  const toggleJoinSelection = (id: string) => {
+    setJoinSelection(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+  };
+
+  const handleJoin = () => {
+    onJoinPages(joinSelection);
+    setJoinSelection([]);
+  };
 
   return (
     <div className="space-y-6">
-      {hasDuplicates && (
-        <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex items-start gap-3 shadow-sm">
-            <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" />
-            <div>
-                <p className="text-amber-800 font-bold text-sm uppercase tracking-tight">Review Duplicates</p>
-                <p className="text-xs text-amber-700">Possible duplicate records detected. Imaging series remain fully accessible.</p>
-            </div>
+      <DuplicateClusters clusters={duplicateClusters} onKeep={onKeepCopy} />
+
+      {documents.length > 0 && (
+        <div>
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-400 absolute start-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('timeline.searchPlaceholder')}
+              className="w-full ps-9 pe-3 py-2.5 rounded-xl border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none transition-all text-sm font-medium bg-white"
+            />
+          </div>
+          {visibleDocuments.length < documents.length && (
+            <p className="mt-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+              {t('timeline.showing', { visible: visibleDocuments.length, total: documents.length })}
+            </p>
+          )}
         </div>
       )}
 
-      <div className="relative border-l-2 border-slate-200 ml-4 space-y-8 pb-8">
-        {documents.length === 0 && <p className="text-slate-500 ml-6 italic">Waiting for uploads...</p>}
-        
-        {documents.map((doc) => (
-          <div key={doc.id} className={`relative ml-6 ${doc.isDuplicate && doc.type !== 'IMAGING' ? 'opacity-50 grayscale' : ''}`}>
-            <div className={`absolute -left-[31px] top-4 w-4 h-4 rounded-full border-2 border-white ${doc.date ? 'bg-medical-500' : 'bg-slate-300'} shadow-md`}></div>
+      {documents.length > 0 && (
+        <TimelineControls
+          filters={filters}
+          onFiltersChange={setFilters}
+          sortOrder={sortOrder}
+          onSortOrderChange={setSortOrder}
+          grouping={grouping}
+          onGroupingChange={setGrouping}
+          showChronology={showChronology}
+          onToggleChronology={() => setShowChronology(!showChronology)}
+        />
+      )}
+
+      {joinSelection.length > 0 && (
+        <div className="sticky top-2 z-10 flex items-center justify-between gap-3 bg-white border border-medical-200 rounded-2xl shadow-lg px-4 py-3">
+          <div>
+            <p className="text-sm font-bold text-slate-700">{t('timeline.pagesSelected', { count: joinSelection.length })}</p>
+            <p className="text-[10px] text-slate-400">{t('timeline.joinHint')}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setJoinSelection([])} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 transition-colors">
+              {t('timeline.clearSelection')}
+            </button>
+            <button
+              onClick={handleJoin}
+              disabled={joinSelection.length < 2}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold bg-medical-600 text-white hover:bg-medical-700 disabled:opacity-40 transition-colors"
+            >
+              <Group className="w-3.5 h-3.5" /> {t('timeline.joinPages')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showChronology && documents.length > 0 && (
+        <ChronologyView documents={visibleDocuments} selectedId={focus?.id || null} onSelect={handleJump} />
+      )}
+
+      {documents.length === 0 && <p className="text-slate-500 ms-10 italic">{t('timeline.waiting')}</p>}
+      {documents.length > 0 && visibleDocuments.length === 0 && (
+        <p className="text-slate-500 ms-10 italic">
+          {terms.length > 0
+            ? t('timeline.noMatch', { terms: terms.map(term => `"${term}"`).join(t('timeline.and')) })
+            : t('timeline.noFilterMatch')}
+        </p>
+      )}
+
+      {groups.filter(group => group.documents.length > 0).map(group => {
+        const isCollapsed = collapsedGroups.has(group.key);
+        return (
+        <div key={group.key}>
+          {grouping !== 'none' && (
+            <button
+              onClick={() => toggleGroup(group.key)}
+              className="flex items-center gap-2 mb-4 text-slate-700 hover:text-medical-600 transition-colors"
+            >
+              {isCollapsed ? <ChevronRight className="w-4 h-4 rtl:rotate-180" /> : <ChevronDown className="w-4 h-4" />}
+              <span className="text-sm font-extrabold tracking-tight">{group.label}</span>
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                {t('common.records', { count: group.documents.length })}
+              </span>
+            </button>
+          )}
+
+          {!isCollapsed && (
+          <div className="relative border-s-2 border-slate-200 ms-4 space-y-8 pb-8">
+            {group.documents.map((doc) => {
+              const source = sources.get(doc.id)!;
+              const snippets = matches.get(doc.id)?.snippets || [];
+              const pages = getDocumentPages(source);
+              const joinPosition = joinSelection.indexOf(doc.id);
+              return (
+              <div key={doc.id} id={`record-${doc.id}`} className={`relative ms-6 ${doc.isDuplicate ? 'opacity-50 grayscale' : ''}`}>
+                <div className={`absolute -start-[31px] top-4 w-4 h-4 rounded-full border-2 border-white ${doc.date ? 'bg-medical-500' : 'bg-slate-300'} shadow-md`}></div>
             
-            <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm hover:shadow-xl transition-all flex gap-4 flex-col md:flex-row items-start group">
-                {/* Standardization: Vertical/Portrait Oriented Preview */}
-                <div className="relative w-full md:w-32 aspect-[3/4] bg-slate-50 rounded-xl overflow-hidden shrink-0 border border-slate-100 flex items-center justify-center transition-transform group-hover:scale-[1.02]">
-                    {doc.file.type === 'application/pdf' ? (
-                        <div className="flex flex-col items-center text-slate-300">
-                            <FileIcon className="w-12 h-12" />
-                            <span className="text-[10px] uppercase font-black mt-2 tracking-tighter text-slate-400">PDF REPORT</span>
-                        </div>
-                    ) : doc.file.type.includes('word') || doc.file.type.includes('msword') ? (
-                        <div className="flex flex-col items-center text-blue-200">
-                            <FileIcon className="w-12 h-12" />
-                            <span className="text-[10px] uppercase font-black mt-2 tracking-tighter text-blue-300">DOCX FILE</span>
-                        </div>
-                    ) : (
-                        <img src={doc.previewUrl} alt="Record" className="w-full h-full object-cover bg-white" />
+                <div className={`bg-white p-4 rounded-2xl border shadow-sm hover:shadow-xl transition-all flex gap-4 flex-col md:flex-row items-start group ${focus?.id === doc.id ? 'border-medical-300 ring-2 ring-medical-100' : 'border-slate-100'}`}>
+                    {/* Standardization: Vertical/Portrait Oriented Preview */}
+                    {pages.length > 1 ? <PagedPreview pages={pages} /> : (
+                    <div className="relative w-full md:w-32 aspect-[3/4] bg-slate-50 rounded-xl overflow-hidden shrink-0 border border-slate-100 flex items-center justify-center transition-transform group-hover:scale-[1.02]">
+                        {doc.pageRange ? (
+                            <PdfRangePreview file={doc.file} range={doc.pageRange} />
+                        ) : doc.file.type === 'application/pdf' ? (
+                            <div className="flex flex-col items-center text-slate-300">
+                                <FileIcon className="w-12 h-12" />
+                                <span className="text-[10px] uppercase font-black mt-2 tracking-tighter text-slate-400">{t('timeline.pdfBadge')}</span>
+                            </div>
+                        ) : doc.file.type.includes('word') || doc.file.type.includes('msword') ? (
+                            <div className="flex flex-col items-center text-blue-200">
+                                <FileIcon className="w-12 h-12" />
+                                <span className="text-[10px] uppercase font-black mt-2 tracking-tighter text-blue-300">{t('timeline.docxBadge')}</span>
+                            </div>
+                        ) : (
+                            <img src={doc.previewUrl} alt={t('timeline.record')} className="w-full h-full object-cover bg-white" />
+                        )}
+                    </div>
                     )}
-                </div>
 
-                <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between mb-2">
-                         <div className="flex items-center gap-2">
-                            <span className={`px-2.5 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase flex items-center gap-1.5
-                                ${doc.type === 'LAB' ? 'bg-blue-100 text-blue-700' : 
-                                  doc.type === 'IMAGING' ? 'bg-purple-100 text-purple-700' : 
-                                  doc.type === 'PRESCRIPTION' ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-700'}`}>
-                                {getTypeIcon(doc.type)}
-                                {doc.type}
-                            </span>
-                            {doc.isDuplicate && doc.type !== 'IMAGING' && <span className="text-[9px] font-bold text-amber-600 border border-amber-200 px-1.5 rounded uppercase">Duplicate</span>}
+                    <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between mb-2">
+                             <div className="flex items-center gap-2">
+                                <span className={`px-2.5 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase flex items-center gap-1.5
+                                    ${doc.type === 'LAB' ? 'bg-blue-100 text-blue-700' : 
+                                      doc.type === 'IMAGING' ? 'bg-purple-100 text-purple-700' : 
+                                      doc.type === 'PRESCRIPTION' ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-700'}`}>
+                                    {getTypeIcon(doc.type)}
+                                    {t(`docType.${doc.type}`)}
+                                </span>
+                                <SourceBadge doc={source} field="type" onRevert={() => handleRevert(source, 'type')} />
+                                {doc.isDuplicate && <span className="text-[9px] font-bold text-amber-600 border border-amber-200 px-1.5 rounded uppercase">{t('timeline.duplicate')}</span>}
+                                {getFieldSource(source, 'isDuplicate') === 'human' && <SourceBadge doc={source} field="isDuplicate" onRevert={() => handleRevert(source, 'isDuplicate')} />}
+                            </div>
+                            <div className="flex items-center gap-1">
+                                {pages.every(isPageImage) && (
+                                    <button
+                                        onClick={() => toggleJoinSelection(doc.id)}
+                                        className={`transition-colors p-1 rounded-lg ${joinPosition >= 0 ? 'bg-medical-600 text-white' : 'text-slate-300 hover:text-medical-600 bg-slate-50 hover:bg-medical-50'}`}
+                                        title={t('timeline.selectPages')}
+                                    >
+                                        {joinPosition >= 0 ? <span className="block w-4 h-4 text-[10px] font-black leading-4">{joinPosition + 1}</span> : <Group className="w-4 h-4" />}
+                                    </button>
+                                )}
+                                {pages.length > 1 && (
+                                    <button
+                                        onClick={() => onSplitPages(doc.id)}
+                                        className="text-slate-300 hover:text-medical-600 transition-colors p-1 bg-slate-50 hover:bg-medical-50 rounded-lg"
+                                        title={t('timeline.splitPages')}
+                                    >
+                                        <Ungroup className="w-4 h-4" />
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setEditingId(editingId === doc.id ? null : doc.id)}
+                                    className="text-slate-300 hover:text-medical-600 transition-colors p-1 bg-slate-50 hover:bg-medical-50 rounded-lg"
+                                    title={t('timeline.edit')}
+                                >
+                                    <Pencil className="w-4 h-4" />
+                                </button>
+                                <button 
+                                    onClick={() => onRemove(doc.id)}
+                                    className="text-slate-300 hover:text-red-500 transition-colors p-1 bg-slate-50 hover:bg-red-50 rounded-lg"
+                                    title={t('timeline.remove')}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
                         </div>
-                        <button 
-                            onClick={() => onRemove(doc.id)}
-                            className="text-slate-300 hover:text-red-500 transition-colors p-1 bg-slate-50 hover:bg-red-50 rounded-lg"
-                            title="Remove"
-                        >
-                            <Trash2 className="w-4 h-4" />
-                        </button>
-                    </div>
 
-                    <h4 className="text-slate-900 font-bold text-base pr-4">
-                        {doc.date ? new Date(doc.date).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }) : 'Unknown Date'}
-                    </h4>
+                        {editingId === doc.id ? (
+                            <DocumentEditor doc={source} onSave={(edits) => handleSave(source, edits)} onCancel={() => setEditingId(null)} />
+                        ) : (
+                        <>
+                        <div className="flex items-center gap-2 pe-4">
+                            <h4 className="text-slate-900 font-bold text-base">
+                                {doc.date ? new Date(doc.date).toLocaleDateString(language.tag, { year: 'numeric', month: 'long', day: 'numeric' }) : t('timeline.unknownDate')}
+                            </h4>
+                            <SourceBadge doc={source} field="date" onRevert={() => handleRevert(source, 'date')} />
+                        </div>
                     
-                    <p className="text-sm text-slate-600 mt-2 leading-relaxed line-clamp-3">
-                        {doc.summary}
-                    </p>
+                        <p className="text-sm text-slate-600 mt-2 leading-relaxed line-clamp-3">
+                            <Highlight text={doc.summary} terms={terms} />
+                        </p>
+                        <SourceBadge doc={source} field="summary" onRevert={() => handleRevert(source, 'summary')} />
+                        {((doc.labResults?.length ?? 0) > 0 || getFieldSource(source, 'labResults') === 'human') && (
+                            <div className="mt-2 flex flex-wrap items-center gap-x-2 text-xs text-slate-500">
+                                <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">{t('timeline.labValues')}</span>
+                                <span>{(doc.labResults || []).map(formatLab).join(', ') || t('timeline.none')}</span>
+                                <SourceBadge doc={source} field="labResults" onRevert={() => handleRevert(source, 'labResults')} />
+                            </div>
+                        )}
+                        {((doc.medications?.length ?? 0) > 0 || getFieldSource(source, 'medications') === 'human') && (
+                            <div className="mt-1 flex flex-wrap items-center gap-x-2 text-xs text-slate-500">
+                                <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">{t('timeline.medications')}</span>
+                                <span>{(doc.medications || []).map(m => formatMedication(m, locale)).join(', ') || t('timeline.none')}</span>
+                                <SourceBadge doc={source} field="medications" onRevert={() => handleRevert(source, 'medications')} />
+                            </div>
+                        )}
+                        {snippets.length > 0 && (
+                            <div className="mt-3 space-y-1.5 border-s-2 border-amber-200 ps-3">
+                                <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">
+                                    {doc.textSource === 'transcription' ? t('timeline.transcription') : t('timeline.fullText')}
+                                </span>
+                                {snippets.map((snippet, i) => (
+                                    <p key={i} className="text-xs text-slate-500 leading-relaxed">
+                                        <Highlight text={snippet} terms={terms} />
+                                    </p>
+                                ))}
+                            </div>
+                        )}
+                        </>
+                        )}
                     
-                    <div className="mt-3 flex items-center gap-2 text-[10px] text-slate-400 font-medium italic">
-                        <FileIcon className="w-3 h-3" /> {doc.file.name}
+                        <div className="mt-3 flex items-center gap-2 text-[10px] text-slate-400 font-medium italic">
+                            <FileIcon className="w-3 h-3" /> <Highlight text={doc.file.name} terms={terms} />
+                            {doc.pageRange && (
+                                <span className="not-italic font-bold text-medical-600">
+                                    {t('timeline.pageRange', { start: doc.pageRange.start, end: doc.pageRange.end })}
+                                </span>
+                            )}
+                            {pages.length > 1 && (
+                                <span className="flex items-center gap-1 not-italic font-bold text-medical-600">
+                                    <Layers className="w-3 h-3" /> {t('timeline.pages', { count: pages.length })}
+                                </span>
+                            )}
+                        </div>
                     </div>
                 </div>
-            </div>
+              </div>
+              );
+            })}
           </div>
-        ))}
-      </div>
+          )}
+        </div>
+        );
+      })}
     </div>
   );
 };
@@ -0,0 +1,102 @@
+import React from 'react';
+import { ProcessedDocument } from '../types';
+import { DuplicateFilter, EMPTY_FILTERS, SortOrder, TimelineFilters, TimelineGrouping, hasActiveFilters } from '../services/timelineService';
+import { useTranslation } from './LanguageProvider';
+import { ArrowDownNarrowWide, ArrowUpNarrowWide, BarChart3, X } from 'lucide-react';
+
+interface TimelineControlsProps {
+  filters: TimelineFilters;
+  onFiltersChange: (filters: TimelineFilters) => void;
+  sortOrder: SortOrder;
+  onSortOrderChange: (order: SortOrder) => void;
+  grouping: TimelineGrouping;
+  onGroupingChange: (grouping: TimelineGrouping) => void;
+  showChronology: boolean;
+  onToggleChronology: () => void;
+}
+
+const DOCUMENT_TYPES: ProcessedDocument['type'][] = ['LAB', 'IMAGING', 'PRESCRIPTION', 'NOTE', 'OTHER'];
+
+const labelClass = "text-[10px] font-black uppercase tracking-widest text-slate-400";
+const inputClass = "px-2 py-1.5 rounded-lg border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none transition-all text-xs font-medium bg-white";
+
+export const TimelineControls: React.FC<TimelineControlsProps> = ({
+  filters, onFiltersChange, sortOrder, onSortOrderChange, grouping, onGroupingChange, showChronology, onToggleChronology
+}) => {
+  const { t } = useTranslation();
+  const toggleType = (type: ProcessedDocument['type']) => {
+    const types = filters.types.includes(type) ? filters.types.filter(selected => selected !== type) : [...filters.types, type];
+    onFiltersChange({ ...filters, types });
+  };
+
+  return (
+    <div className="bg-white border border-slate-100 rounded-2xl p-4 shadow-sm space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={labelClass}>{t('timeline.type')}</span>
+        {DOCUMENT_TYPES.map(type => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            className={`px-2.5 py-1 rounded-lg text-[10px] font-black tracking-widest uppercase border transition-all ${
+              filters.types.includes(type)
+                ? 'bg-medical-600 border-medical-600 text-white'
+                : 'bg-white border-slate-200 text-slate-500 hover:border-medical-200'
+            }`}
+          >
+            {t(`docType.${type}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>{t('timeline.from')}</span>
+          <input type="date" value={filters.from} max={filters.to || undefined} onChange={(e) => onFiltersChange({ ...filters, from: e.target.value })} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>{t('timeline.to')}</span>
+          <input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => onFiltersChange({ ...filters, to: e.target.value })} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>{t('timeline.duplicates')}</span>
+          <select value={filters.duplicates} onChange={(e) => onFiltersChange({ ...filters, duplicates: e.target.value as DuplicateFilter })} className={inputClass}>
+            <option value="all">{t('timeline.showAll')}</option>
+            <option value="hide">{t('timeline.hideDuplicates')}</option>
+            <option value="only">{t('timeline.onlyDuplicates')}</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>{t('timeline.groupBy')}</span>
+          <select value={grouping} onChange={(e) => onGroupingChange(e.target.value as TimelineGrouping)} className={inputClass}>
+            <option value="none">{t('timeline.groupNone')}</option>
+            <option value="year">{t('timeline.groupYear')}</option>
+            <option value="month">{t('timeline.groupMonth')}</option>
+          </select>
+        </label>
+        <button
+          onClick={() => onSortOrderChange(sortOrder === 'asc' ? 'desc' : 'asc')}
+          className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg border border-slate-200 text-xs font-bold text-slate-600 hover:border-medical-200 transition-colors"
+        >
+          {sortOrder === 'asc' ? <ArrowUpNarrowWide className="w-3.5 h-3.5" /> : <ArrowDownNarrowWide className="w-3.5 h-3.5" />}
+          {sortOrder === 'asc' ? t('timeline.oldestFirst') : t('timeline.newestFirst')}
+        </button>
+        <button
+          onClick={onToggleChronology}
+          className={`flex items-center gap-1 px-2.5 py-1.5 rounded-lg border text-xs font-bold transition-colors ${
+            showChronology ? 'bg-medical-50 border-medical-200 text-medical-700' : 'border-slate-200 text-slate-600 hover:border-medical-200'
+          }`}
+        >
+          <BarChart3 className="w-3.5 h-3.5" /> {t('chronology.title')}
+        </button>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onFiltersChange(EMPTY_FILTERS)}
+            className="flex items-center gap-1 px-2 py-1.5 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <X className="w-3 h-3" /> {t('timeline.clearFilters')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { VaultConfig, DEFAULT_AUTO_LOCK_MINUTES } from '../services/vaultService';
+import { useTranslation } from './LanguageProvider';
+import { Lock, ShieldCheck, Loader2, X } from 'lucide-react';
+
+interface VaultSettingsProps {
+  config: VaultConfig | null;
+  onEnable: (passphrase: string, autoLockMinutes: number) => Promise<void>;
+  onChangePassphrase: (current: string, next: string) => Promise<boolean>;
+  onDisable: (current: string) => Promise<boolean>;
+  onAutoLockChange: (minutes: number) => void;
+  onLock: () => void;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+
+const inputClass = "w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none transition-all font-medium text-sm";
+const labelClass = "block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2";
+
+export const VaultSettings: React.FC<VaultSettingsProps> = ({ config, onEnable, onChangePassphrase, onDisable, onAutoLockChange, onLock, onClose }) => {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<'overview' | 'change' | 'disable'>('overview');
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(config?.autoLockMinutes || DEFAULT_AUTO_LOCK_MINUTES);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const resetForm = (nextMode: typeof mode) => {
+    setMode(nextMode);
+    setCurrent('');
+    setNext('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  const checkNewPassphrase = () => {
+    if (next.length < MIN_PASSPHRASE_LENGTH) return t('vaultSettings.tooShort', { count: MIN_PASSPHRASE_LENGTH });
+    if (next !== confirmation) return t('vaultSettings.mismatch');
+    return null;
+  };
+
+  // Re-encryption can take a while for large dossiers, so the form stays busy until it finishes
+  const run = async (action: () => Promise<string | null>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const failure = await action();
+      if (failure) {
+        setError(failure);
+      } else {
+        resetForm('overview');
+      }
+    } catch (err: any) {
+      setError(err?.message || t('vaultSettings.failed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const invalid = checkNewPassphrase();
+      if (invalid) return invalid;
+      await onEnable(next, autoLockMinutes);
+      return null;
+    });
+  };
+
+  const handleChange = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const invalid = checkNewPassphrase();
+      if (invalid) return invalid;
+      return (await onChangePassphrase(current, next)) ? null : t('vaultSettings.incorrect');
+    });
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => (await onDisable(current)) ? null : t('vaultSettings.incorrect'));
+  };
+
+  const handleAutoLockChange = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    if (config) onAutoLockChange(minutes);
+  };
+
+  const submitButton = (label: string) => (
+    <button
+      type="submit"
+      disabled={isWorking}
+      className="w-full bg-medical-600 text-white py-3 rounded-xl font-black uppercase tracking-widest text-[10px] flex items-center justify-center gap-2 hover:bg-medical-700 transition-all disabled:opacity-60"
+    >
+      {isWorking && <Loader2 className="w-3 h-3 animate-spin" />} {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-900/40 flex items-center justify-center p-4" onClick={isWorking ? undefined : onClose}>
+      <div className="bg-white w-full max-w-md rounded-[2rem] shadow-2xl p-8" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="w-6 h-6 text-medical-600" />
+            <div>
+              <h3 className="font-black text-slate-900 uppercase tracking-tighter">{t('vaultSettings.title')}</h3>
+              <p className="text-xs text-slate-500">{config ? t('vaultSettings.encrypted') : t('vaultSettings.unencrypted')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} disabled={isWorking} className="p-1 text-slate-400 hover:text-slate-600 rounded-lg">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="mb-6">
+          <label className={labelClass}>{t('vaultSettings.autoLock')}</label>
+          <select
+            value={autoLockMinutes}
+            onChange={(e) => handleAutoLockChange(parseInt(e.target.value))}
+            className={inputClass}
+          >
+            {AUTO_LOCK_OPTIONS.map(m => <option key={m} value={m}>{t('vaultSettings.minutes', { count: m })}</option>)}
+          </select>
+        </div>
+
+        {!config && (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl p-3">
+              {t('vaultSettings.unrecoverable')}
+            </p>
+            <div>
+              <label className={labelClass}>{t('vaultSettings.newPassphrase')}</label>
+              <input type="password" value={next} onChange={(e) => setNext(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('vaultSettings.confirmPassphrase')}</label>
+              <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} className={inputClass} />
+            </div>
+            {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+            {submitButton(t('vaultSettings.encrypt'))}
+          </form>
+        )}
+
+        {config && mode === 'overview' && (
+          <div className="space-y-3">
+            <button
+              onClick={onLock}
+              className="w-full bg-slate-900 text-white py-3 rounded-xl font-black uppercase tracking-widest text-[10px] flex items-center justify-center gap-2 hover:bg-slate-800 transition-all"
+            >
+              <Lock className="w-3 h-3" /> {t('vaultSettings.lockNow')}
+            </button>
+            <button
+              onClick={() => resetForm('change')}
+              className="w-full border border-slate-200 text-slate-600 py-3 rounded-xl font-black uppercase tracking-widest text-[10px] hover:border-medical-200 hover:text-medical-600 transition-all"
+            >
+              {t('vaultSettings.change')}
+            </button>
+            <button
+              onClick={() => resetForm('disable')}
+              className="w-full text-slate-400 py-2 font-black uppercase tracking-widest text-[10px] hover:text-red-500 transition-colors"
+            >
+              {t('vaultSettings.turnOff')}
+            </button>
+          </div>
+        )}
+
+        {config && mode !== 'overview' && (
+          <form onSubmit={mode === 'change' ? handleChange : handleDisable} className="space-y-4">
+            <div>
+              <label className={labelClass}>{t('vaultSettings.currentPassphrase')}</label>
+              <input type="password" autoFocus value={current} onChange={(e) => setCurrent(e.target.value)} className={inputClass} />
+            </div>
+            {mode === 'change' && (
+              <>
+                <div>
+                  <label className={labelClass}>{t('vaultSettings.newPassphrase')}</label>
+                  <input type="password" value={next} onChange={(e) => setNext(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>{t('vaultSettings.confirmNewPassphrase')}</label>
+                  <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} className={inputClass} />
+                </div>
+              </>
+            )}
+            {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+            {submitButton(mode === 'change' ? t('vaultSettings.reencrypt') : t('vaultSettings.decrypt'))}
+            <button
+              type="button"
+              disabled={isWorking}
+              onClick={() => resetForm('overview')}
+              className="w-full text-slate-400 text-[10px] font-black uppercase tracking-widest hover:text-slate-600 transition-colors"
+            >
+              {t('common.back')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
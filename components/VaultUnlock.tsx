@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { useTranslation } from './LanguageProvider';
+import { Lock, Loader2 } from 'lucide-react';
+
+interface VaultUnlockProps {
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onReset: () => void;
+}
+
+export const VaultUnlock: React.FC<VaultUnlockProps> = ({ onUnlock, onReset }) => {
+  const { t } = useTranslation();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    const unlocked = await onUnlock(passphrase);
+    setIsUnlocking(false);
+    if (!unlocked) {
+      setError(t('vaultUnlock.wrongPassphrase'));
+      setPassphrase('');
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white p-8 rounded-3xl shadow-2xl border border-slate-100">
+      <div className="text-center mb-8">
+        <div className="bg-medical-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Lock className="text-medical-600 w-8 h-8" />
+        </div>
+        <h2 className="text-2xl font-extrabold text-slate-900 tracking-tight">{t('vaultUnlock.title')}</h2>
+        <p className="text-slate-500 text-sm mt-1">{t('vaultUnlock.hint')}</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-medical-500 focus:border-medical-500 outline-none transition-all font-medium"
+          placeholder={t('vault.passphrase')}
+        />
+        {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={isUnlocking}
+          className="w-full bg-medical-600 text-white py-4 rounded-2xl font-extrabold hover:bg-medical-700 transition-all shadow-xl flex items-center justify-center gap-2 disabled:opacity-60"
+        >
+          {isUnlocking && <Loader2 className="w-4 h-4 animate-spin" />} {t('vaultUnlock.unlock')}
+        </button>
+        <button
+          type="button"
+          onClick={onReset}
+          className="w-full text-slate-400 text-xs font-black uppercase tracking-widest hover:text-red-500 transition-colors"
+        >
+          {t('vaultUnlock.forgot')}
+        </button>
+      </form>
+    </div>
+  );
+};
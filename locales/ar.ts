@@ -0,0 +1,412 @@
+import { Messages } from "./en";
+import { TemplateTranslations } from "../services/i18nService";
+
+// Arabic uses all six plural categories: zero, one, two, few (3-10), many (11-99) and other.
+export const ar: Messages = {
+  'common.cancel': 'إلغاء',
+  'common.save': 'حفظ',
+  'common.delete': 'حذف',
+  'common.close': 'إغلاق',
+  'common.back': 'رجوع',
+  'common.hide': 'إخفاء',
+  'common.review': 'مراجعة',
+  'common.unknown': 'غير معروف',
+  'common.notAvailable': 'غير متوفر',
+  'common.undated': 'بلا تاريخ',
+  'common.optional': '{label} (اختياري)',
+  'common.records': '{count, plural, zero {لا سجلات} one {سجل واحد} two {سجلان} few {# سجلات} many {# سجلاً} other {# سجل}}',
+
+  'gender.Male': 'ذكر',
+  'gender.Female': 'أنثى',
+  'gender.Other': 'آخر',
+
+  'docType.LAB': 'مختبر',
+  'docType.IMAGING': 'تصوير',
+  'docType.PRESCRIPTION': 'وصفة طبية',
+  'docType.NOTE': 'ملاحظة',
+  'docType.OTHER': 'أخرى',
+
+  'upload.title': 'رفع المستندات الطبية',
+  'upload.hint': 'اسحب وأفلت صور أو ملفات PDF أو مستندات Word لتحاليلك أو صور الأشعة أو الوصفات الطبية.',
+  'upload.select': 'اختيار الملفات',
+  'upload.images': 'صور',
+  'upload.documents': 'PDF / Word',
+
+  'vault.passphrase': 'عبارة المرور',
+
+  'vaultUnlock.title': 'الخزنة مقفلة',
+  'vaultUnlock.hint': 'السجلات والملفات الشخصية على هذا الجهاز مشفرة. أدخل عبارة المرور لفتحها.',
+  'vaultUnlock.wrongPassphrase': 'عبارة المرور هذه لا تفتح هذه الخزنة.',
+  'vaultUnlock.unlock': 'فتح القفل',
+  'vaultUnlock.forgot': 'نسيت عبارة المرور؟ امسح كل البيانات',
+
+  'registration.title': 'ملف المريض',
+  'registration.hint': 'تُستخدم هذه المعلومات لتخصيص ملخصك السريري.',
+  'registration.name': 'الاسم الكامل',
+  'registration.namePlaceholder': 'مثال: أحمد علي',
+  'registration.dob': 'تاريخ الميلاد',
+  'registration.selectDob': 'اختر تاريخ الميلاد',
+  'registration.gender': 'الجنس',
+  'registration.submit': 'إنشاء الخط الزمني',
+  'registration.back': 'العودة إلى الملف الحالي',
+  'registration.import': 'استيراد ملف مُصدَّر',
+
+  'dossiers.select': 'اختيار المريض',
+  'dossiers.title': 'ملفات المرضى',
+  'dossiers.rename': 'إعادة تسمية',
+  'dossiers.new': 'مريض جديد',
+  'dossiers.import': 'استيراد ملف',
+
+  'duplicates.title': 'مراجعة النسخ المكررة',
+  'duplicates.summary': 'تم العثور على {copies, plural, zero {لا نسخ مكررة} one {نسخة مكررة واحدة} two {نسختين مكررتين} few {# نسخ مكررة} many {# نسخة مكررة} other {# نسخة مكررة}} في {groups, plural, zero {لا مجموعات} one {مجموعة واحدة} two {مجموعتين} few {# مجموعات} many {# مجموعة} other {# مجموعة}}. تُستخدم النسخة المحتفظ بها فقط في التلخيص.',
+  'duplicates.identical': 'ملفات متطابقة',
+  'duplicates.visual': 'صفحات متطابقة بصرياً',
+  'duplicates.copy': 'نسخة',
+  'duplicates.kept': 'محتفظ بها',
+  'duplicates.keep': 'الاحتفاظ بهذه النسخة',
+
+  'chronology.title': 'التسلسل الزمني',
+  'chronology.empty': 'لا توجد سجلات مؤرخة لعرضها.',
+  'chronology.bucket': '{month}: {count, plural, zero {لا سجلات} one {سجل واحد} two {سجلان} few {# سجلات} many {# سجلاً} other {# سجل}}',
+  'chronology.more': '{count} إضافية في {month}',
+  'chronology.undated': '{count, plural, zero {لا سجلات بلا تاريخ} one {سجل واحد بلا تاريخ} two {سجلان بلا تاريخ} few {# سجلات بلا تاريخ} many {# سجلاً بلا تاريخ} other {# سجل بلا تاريخ}} لا تظهر في الرسم.',
+
+  'timeline.type': 'النوع',
+  'timeline.from': 'من',
+  'timeline.to': 'إلى',
+  'timeline.duplicates': 'النسخ المكررة',
+  'timeline.showAll': 'إظهار الكل',
+  'timeline.hideDuplicates': 'إخفاء المكرر',
+  'timeline.onlyDuplicates': 'المكرر فقط',
+  'timeline.groupBy': 'التجميع حسب',
+  'timeline.groupNone': 'بدون',
+  'timeline.groupYear': 'السنة',
+  'timeline.groupMonth': 'الشهر',
+  'timeline.oldestFirst': 'الأقدم أولاً',
+  'timeline.newestFirst': 'الأحدث أولاً',
+  'timeline.clearFilters': 'مسح عوامل التصفية',
+
+  'labs.trends': 'اتجاهات التحاليل المخبرية',
+  'labs.measurements': '{count, plural, zero {لا قياسات} one {قياس واحد} two {قياسان} few {# قياسات} many {# قياساً} other {# قياس}}',
+  'labs.reference': 'المرجع {range}',
+
+  'medications.title': 'سجل الأدوية',
+  'medications.active': 'نشطة حالياً',
+  'medications.noneActive': 'لا يبدو أن أي دواء نشط في أحدث السجلات.',
+  'medications.drug': 'الدواء',
+  'medications.regimen': 'الجرعة',
+  'medications.start': 'البدء',
+  'medications.stop': 'التوقف',
+  'medications.prescriber': 'الطبيب الواصف',
+  'medications.activeBadge': 'نشط',
+  'medications.inferredHint': 'مستنتج من سجلات لاحقة',
+  'medications.documented': 'موثق',
+  'medications.inferred': '(مستنتج)',
+  'medications.regimenUnspecified': 'الجرعة غير محددة',
+
+  'archive.password': 'كلمة المرور',
+
+  'exportArchive.title': 'تصدير الملف',
+  'exportArchive.summary': '{name}: {records, plural, zero {لا سجلات} one {سجل واحد} two {سجلان} few {# سجلات} many {# سجلاً} other {# سجل}} والملفات الأصلية.',
+  'exportArchive.summaryReport': '{name}: {records, plural, zero {لا سجلات} one {سجل واحد} two {سجلان} few {# سجلات} many {# سجلاً} other {# سجل}} والتقرير المحفوظ والملفات الأصلية.',
+  'exportArchive.summaryVersions': '{name}: {records, plural, zero {لا سجلات} one {سجل واحد} two {سجلان} few {# سجلات} many {# سجلاً} other {# سجل}} و{versions} من نسخ التقرير والملفات الأصلية.',
+  'exportArchive.protect': 'حماية الأرشيف بكلمة مرور',
+  'exportArchive.confirmPassword': 'تأكيد كلمة المرور',
+  'exportArchive.unprotectedWarning': 'يستطيع أي شخص يحصل على أرشيف غير محمي قراءة كل السجلات فيه.',
+  'exportArchive.passwordMissing': 'أدخل كلمة مرور أو أوقف التشفير.',
+  'exportArchive.passwordMismatch': 'كلمتا المرور غير متطابقتين.',
+  'exportArchive.failed': 'تعذر إنشاء الأرشيف.',
+  'exportArchive.download': 'تنزيل الأرشيف',
+
+  'importArchive.hint': 'استعد ملفاً صُدِّر من MediChronicle على متصفح أو جهاز آخر.',
+  'importArchive.choose': 'اختيار الأرشيف',
+  'importArchive.password': 'كلمة مرور الأرشيف',
+  'importArchive.open': 'فتح الأرشيف',
+  'importArchive.born': 'تاريخ الميلاد {dob}',
+  'importArchive.withReport': 'يتضمن التقرير المحفوظ',
+  'importArchive.withoutReport': 'بلا تقرير محفوظ',
+  'importArchive.sameDossier': 'صُدِّر هذا الأرشيف من ملف {name}، وهو موجود هنا بالفعل.',
+  'importArchive.samePatient': 'يوجد هنا بالفعل ملف لـ{name} بتاريخ الميلاد نفسه.',
+  'importArchive.replace': 'استبدال الملف الموجود',
+  'importArchive.separate': 'الاستيراد كملف منفصل',
+  'importArchive.confirmReplace': 'هل تريد استبدال كل السجلات في ملف {name}؟',
+  'importArchive.unreadable': 'تعذرت قراءة الأرشيف.',
+  'importArchive.restoreFailed': 'تعذرت استعادة الملف.',
+  'importArchive.notArchive': 'هذا الملف ليس أرشيف ملف طبي من MediChronicle.',
+  'importArchive.newerVersion': 'أُنشئ هذا الأرشيف بإصدار أحدث من MediChronicle (التنسيق {version}).',
+  'importArchive.incomplete': 'الأرشيف غير مكتمل.',
+  'importArchive.passwordRequired': 'هذا الأرشيف محمي بكلمة مرور.',
+  'importArchive.wrongPassword': 'كلمة المرور غير صحيحة أو الأرشيف تالف.',
+  'importArchive.badProfile': 'ملف المريض مفقود أو غير صالح.',
+  'importArchive.noRecords': 'قائمة السجلات مفقودة.',
+  'importArchive.badId': 'السجل {record} بلا معرّف أو بمعرّف مكرر.',
+  'importArchive.badType': 'السجل {record} من نوع غير معروف.',
+  'importArchive.badDate': 'السجل {record} بتاريخ غير صالح.',
+  'importArchive.noSummary': 'السجل {record} بلا ملخص.',
+  'importArchive.noFile': 'السجل {record} بلا ملفه الأصلي.',
+  'importArchive.badPage': 'السجل {record} يحتوي على صفحة غير مقروءة.',
+  'importArchive.badPageRange': 'السجل {record} بنطاق صفحات غير صالح.',
+  'importArchive.badReport': 'أحد التقارير المحفوظة غير صالح.',
+  'importArchive.badReportVersion': 'إحدى نسخ التقرير المحفوظة غير صالحة.',
+
+  'vaultSettings.title': 'الخزنة المشفرة',
+  'vaultSettings.encrypted': 'السجلات والملفات الشخصية مشفرة على هذا الجهاز.',
+  'vaultSettings.unencrypted': 'السجلات والملفات الشخصية محفوظة دون تشفير.',
+  'vaultSettings.autoLock': 'القفل بعد عدم النشاط',
+  'vaultSettings.minutes': '{count, plural, zero {لا دقائق} one {دقيقة واحدة} two {دقيقتان} few {# دقائق} many {# دقيقة} other {# دقيقة}}',
+  'vaultSettings.unrecoverable': 'لا يمكن استرداد عبارة المرور. إذا فُقدت، فلا يمكن إلا مسح السجلات المشفرة.',
+  'vaultSettings.newPassphrase': 'عبارة مرور جديدة',
+  'vaultSettings.confirmPassphrase': 'تأكيد عبارة المرور',
+  'vaultSettings.currentPassphrase': 'عبارة المرور الحالية',
+  'vaultSettings.confirmNewPassphrase': 'تأكيد عبارة المرور الجديدة',
+  'vaultSettings.encrypt': 'تشفير السجلات',
+  'vaultSettings.reencrypt': 'إعادة تشفير السجلات',
+  'vaultSettings.decrypt': 'فك تشفير السجلات',
+  'vaultSettings.lockNow': 'القفل الآن',
+  'vaultSettings.change': 'تغيير عبارة المرور',
+  'vaultSettings.turnOff': 'إيقاف التشفير',
+  'vaultSettings.tooShort': 'استخدم {count} أحرف على الأقل.',
+  'vaultSettings.mismatch': 'عبارتا المرور غير متطابقتين.',
+  'vaultSettings.incorrect': 'عبارة المرور الحالية غير صحيحة.',
+  'vaultSettings.failed': 'تعذر تحديث الخزنة.',
+
+  'timeline.searchPlaceholder': 'ابحث في كل السجلات، مثال: MRI "L4-L5"',
+  'timeline.showing': 'عرض {visible} من {total} سجل',
+  'timeline.waiting': 'في انتظار الملفات...',
+  'timeline.noMatch': 'لا يوجد سجل يذكر {terms}.',
+  'timeline.and': ' و',
+  'timeline.noFilterMatch': 'لا توجد سجلات تطابق عوامل التصفية.',
+  'timeline.date': 'التاريخ',
+  'timeline.summary': 'الملخص',
+  'timeline.duplicateRecord': 'سجل مكرر',
+  'timeline.duplicate': 'مكرر',
+  'timeline.edit': 'تعديل',
+  'timeline.remove': 'إزالة',
+  'timeline.record': 'سجل',
+  'timeline.pdfBadge': 'تقرير PDF',
+  'timeline.docxBadge': 'ملف DOCX',
+  'timeline.unknownDate': 'تاريخ غير معروف',
+  'timeline.transcription': 'نسخ بالذكاء الاصطناعي',
+  'timeline.fullText': 'النص الكامل',
+  'timeline.ai': 'ذكاء اصطناعي',
+  'timeline.extractedByAi': 'مستخرج بالذكاء الاصطناعي',
+  'timeline.edited': 'معدّل',
+  'timeline.aiValue': 'قيمة الذكاء الاصطناعي: {value}',
+  'timeline.none': 'لا شيء',
+  'timeline.revert': 'العودة إلى قيمة الذكاء الاصطناعي',
+  'timeline.pages': '{count, plural, zero {لا صفحات} one {صفحة واحدة} two {صفحتان} few {# صفحات} many {# صفحة} other {# صفحة}}',
+  'timeline.pageRange': 'الصفحات {start}–{end}',
+  'timeline.showPage': 'عرض الصفحة {page}',
+  'timeline.splitPages': 'فصل إلى سجلات مستقلة',
+  'timeline.selectPages': 'تحديد للدمج مع صور ممسوحة أخرى',
+  'timeline.pagesSelected': '{count, plural, zero {لم يُحدَّد أي سجل} one {سجل واحد محدد} two {سجلان محددان} few {# سجلات محددة} many {# سجلاً محدداً} other {# سجل محدد}}',
+  'timeline.joinHint': 'تتبع الصفحات ترتيب تحديدها.',
+  'timeline.joinPages': 'دمج في سجل واحد',
+  'timeline.clearSelection': 'إلغاء التحديد',
+  'timeline.labValues': 'القيم المخبرية',
+  'timeline.medications': 'الأدوية',
+  'timeline.collected': 'تاريخ أخذ العينة',
+  'timeline.dose': 'الجرعة',
+  'timeline.frequency': 'عدد المرات',
+  'timeline.addLab': 'إضافة قيمة مخبرية',
+  'timeline.addMedication': 'إضافة دواء',
+  'timeline.removeRow': 'إزالة',
+  'medAction.START': 'بدء',
+  'medAction.CONTINUE': 'استمرار',
+  'medAction.CHANGE': 'تعديل',
+  'medAction.STOP': 'إيقاف',
+
+  'redaction.title': 'مراجعة ما سيُرسل',
+  'redaction.hint': 'كل ما يظهر أدناه هو بالضبط ما يغادر هذا الجهاز إلى مزود الذكاء الاصطناعي. اسحب فوق صورة لحجب منطقة منها.',
+  'redaction.enable': 'الحجب قبل الإرسال',
+  'redaction.patientDetails': 'بيانات المريض',
+  'redaction.name': 'الاسم ({name})',
+  'redaction.dob': 'تاريخ الميلاد ({dob})',
+  'redaction.patterns': 'الأنماط',
+  'redaction.removePattern': 'إزالة النمط',
+  'redaction.addPattern': 'إضافة نمط',
+  'redaction.labelPlaceholder': 'التسمية، مثال: العنوان',
+  'redaction.patternPlaceholder': 'تعبير نمطي',
+  'redaction.add': 'إضافة',
+  'redaction.labelMissing': 'أعطِ النمط تسمية.',
+  'redaction.invalidPattern': 'هذا ليس تعبيراً نمطياً صالحاً.',
+  'redaction.disabledWarning': 'تُرسل الملفات كما رُفعت تماماً، بما فيها الأسماء وتواريخ الميلاد والمعرّفات.',
+  'redaction.files': 'الملفات ({count})',
+  'redaction.boxes': '{count, plural, zero {لا مربعات} one {مربع واحد} two {مربعان} few {# مربعات} many {# مربعاً} other {# مربع}}',
+  'redaction.preparing': 'جارٍ تحضير المعاينة...',
+  'redaction.previewFailed': 'تعذر تحضير هذا الملف للإرسال.',
+  'redaction.sentAs': 'يُرسل بصيغة',
+  'redaction.pdfUnchanged': 'يُرسل ملف PDF الأصلي دون تغيير.',
+  'redaction.page': 'الصفحة {page}',
+  'redaction.imageAlt': 'المحتوى المرسل إلى النموذج',
+  'redaction.undoBox': 'التراجع عن المربع',
+  'redaction.clearBoxes': 'مسح {count, plural, zero {لا مربعات} one {مربع واحد} two {مربعين} few {# مربعات} many {# مربعاً} other {# مربع}}',
+  'redaction.send': 'إرسال {count, plural, zero {لا ملفات} one {ملف واحد} two {ملفين} few {# ملفات} many {# ملفاً} other {# ملف}} للتحليل',
+  'redaction.grouping': 'تُجمع الصور الملتقطة خلال دقائق قليلة من بعضها كصفحات لسجل واحد.',
+  'redaction.joinPrevious': 'السجل نفسه الذي يسبقه',
+  'redaction.separate': 'سجل مستقل',
+
+  'reportSettings.type': 'نوع التقرير',
+  'reportSettings.length': 'الطول',
+  'reportSettings.length.brief': 'موجز',
+  'reportSettings.length.standard': 'قياسي',
+  'reportSettings.length.detailed': 'مفصل',
+  'reportSettings.words': 'نحو {count} كلمة',
+  'reportSettings.language': 'لغة التقرير',
+
+  'stream.title': 'جارٍ إعداد {name}',
+  'stream.waiting': 'في انتظار بدء النموذج بالكتابة...',
+  'stream.writing': 'جارٍ كتابة {section}...',
+  'stream.hint': 'يُحفظ التقرير عند اكتماله. الإلغاء يُبقي سجلاتك وأي تقرير محفوظ كما هي.',
+
+  'history.title': 'سجل التقارير',
+  'history.hint': 'افتح نسخة سابقة، أو حدد نسختين لمعرفة ما تغير بينهما.',
+  'history.compare': 'مقارنة هذه النسخة',
+  'history.current': 'الحالية',
+  'history.open': 'فتح',
+  'history.records': 'السجلات',
+  'history.removedRecord': 'سجل لم يعد في الملف',
+  'history.noChanges': 'لا تغييرات',
+  'history.pickTwo': 'حدد نسختين لمقارنتهما.',
+
+  'history.medications': 'الأدوية',
+  'history.medicationCourse': '{drug} ({regimen}) من {start} إلى {end}',
+  'history.present': 'الآن',
+
+  'report.outdated': 'تقرير قديم.',
+  'report.outdatedHint': 'أُضيفت سجلات إلى الملف بعد إنشاء هذا التقرير ولا تظهر فيه.',
+  'report.regenerate': 'إعادة الإنشاء',
+  'report.fhir': 'حزمة FHIR',
+  'report.fhirBuilding': 'جارٍ إنشاء الحزمة...',
+  'report.fhirHint': 'حزمة مستندات FHIR R4 للاستيراد في الأنظمة السريرية',
+  'report.word': 'ملف Word',
+  'report.wordExporting': 'جارٍ تصدير Word...',
+  'report.pdf': 'ملف PDF منظم',
+  'report.pdfGenerating': 'جارٍ إنشاء PDF...',
+  'report.patient': 'المريض:',
+  'report.anonymous': 'مجهول',
+  'report.sorter': 'منظم السجلات السريرية MediChronicle AI',
+  'report.recordsProcessed': '{count, plural, zero {لم يُعالج أي سجل} one {سجل واحد تمت معالجته} two {سجلان تمت معالجتهما} few {# سجلات تمت معالجتها} many {# سجلاً تمت معالجتها} other {# سجل تمت معالجتها}}',
+  'report.noticeTitle': 'تنبيه بشأن الملخص السريري',
+  'report.notice': 'هذا الملف تنظيم للمستندات المقدمة أُنشئ بالذكاء الاصطناعي. وهو مخصص للمتابعة والتوضيح فقط، ولا يصلح للاستخدام التشخيصي.',
+  'report.masterIndex': 'الفهرس الرئيسي للمستندات',
+  'report.viewSource': 'عرض السجل المصدر رقم {number}',
+  'report.openFile': 'فتح {file}',
+  'report.pdfFailed': 'حدث خطأ أثناء إنشاء ملف PDF. إذا كانت لديك صور كثيرة، فجرّب عدداً أقل في كل مرة أو أعد تحميل الصفحة.',
+  'report.wordFailed': 'فشل التصدير إلى Word. يرجى التحقق من أذونات المتصفح.',
+  'report.fontFailed': 'تعذر تحميل الخط الخاص بلغة هذا التقرير. أعد تحميل الصفحة وحاول مرة أخرى.',
+  'report.fhirFailed': 'فشل تصدير FHIR.',
+
+  'export.dateGenerated': 'تاريخ الإنشاء:',
+  'export.date': 'التاريخ:',
+  'export.labHistory': 'سجل التحاليل المخبرية',
+  'export.analyte': 'المادة المحللة',
+  'export.value': 'القيمة',
+  'export.unit': 'الوحدة',
+  'export.reference': 'المرجع',
+  'export.currentlyActive': 'النشطة حالياً:',
+  'export.ref': 'رقم',
+  'export.keyFinding': 'ملخص النتيجة الرئيسية',
+  'export.appendix': 'الملحق المصور',
+  'export.appendixRecord': 'سجل الملحق رقم {number}: {type}',
+  'export.record': 'السجل رقم {number}: {type}',
+  'export.recordDetails': 'التاريخ: {date} | الملف: {file}',
+  'export.recordSummary': 'الملخص: {summary}',
+  'export.filePages': '{file}، الصفحات {start}–{end}',
+  'export.pageOf': 'الصفحة {page} من {total}',
+  'export.continued': 'تابع، الصفحة {page}',
+  'export.imageFailed': 'تعذرت معالجة الصورة لهذا السجل',
+  'export.pdfFailed': 'تعذر عرض ملف PDF',
+  'export.wordFailed': 'تعذرت قراءة مستند Word',
+  'export.unsupported': 'نوع ملف غير مدعوم',
+  'export.labResults': '{count, plural, zero {لم تُستخرج أي نتيجة مخبرية} one {نتيجة مخبرية واحدة مستخرجة} two {نتيجتان مخبريتان مستخرجتان} few {# نتائج مخبرية مستخرجة} many {# نتيجة مخبرية مستخرجة} other {# نتيجة مخبرية مستخرجة}} من السجلات المصدر.',
+
+  'app.connectKey': 'ربط المفتاح',
+  'app.reconnectKey': 'إعادة ربط مفتاح API',
+  'app.vault': 'الخزنة',
+  'app.clearDossier': 'إفراغ الملف',
+  'app.language': 'لغة الواجهة',
+  'app.loadFailed': 'تعذر تحميل الملف المحدد.',
+  'app.connectKeyFirst': 'يرجى ربط مفتاح API أولاً باستخدام الزر أدناه.',
+  'app.retrying': 'المزود مشغول، إعادة المحاولة خلال {seconds} ث (المحاولة {attempt})...',
+  'app.permissionError': 'خطأ في أذونات API: ربما انتهت صلاحية جلسة مفتاحك. يرجى إعادة ربطه.',
+  'app.reportFailed': 'فشل إنشاء التقرير ({message}). سجلاتك وأي تقرير محفوظ لم تتغير؛ أعد التلخيص للمحاولة مجدداً.',
+  'app.vaultReadFailed': 'فُتحت الخزنة، لكن تعذرت قراءة سجلاتها.',
+  'app.confirmDeleteDossier': 'هل تريد حذف ملف {name} وكل سجلاته؟',
+  'app.confirmCancelAnalysis': 'هل تريد إلغاء التحليل؟ سيُتجاهل التقدم في هذه الملفات.',
+  'app.confirmClear': 'هل تريد مسح كل سجلات {name}؟',
+  'app.confirmErase': 'هل تريد مسح كل الملفات والسجلات على هذا الجهاز؟ لا يمكن التراجع عن ذلك.',
+  'app.analysisPaused': 'التحليل متوقف مؤقتاً',
+  'app.analyzing': 'جارٍ تحليل السجلات الطبية',
+  'app.pausedProgress': 'تم تحليل {files} من {totalFiles} ملف. الدفعات المكتملة محفوظة.',
+  'app.progress': 'تم تحليل {files} من {totalFiles} ملف...',
+  'app.progressBytes': 'أُرسل {sent} من {total}',
+  'app.resume': 'استئناف',
+  'app.pause': 'إيقاف مؤقت',
+  'app.notAnalyzed': '{count, plural, zero {لا سجلات غير محللة} one {سجل واحد لم يُحلل} two {سجلان لم يُحللا} few {# سجلات لم تُحلل} many {# سجلاً لم تُحلل} other {# سجل لم تُحلل}}',
+  'app.notAnalyzedHint': 'تعذرت مطابقة رد الذكاء الاصطناعي مع هذه الملفات، لذا استُبعدت بدلاً من تصنيفها بشكل خاطئ.',
+  'app.retryAnalysis': 'إعادة التحليل',
+  'app.dismiss': 'تجاهل',
+  'app.recordsAdded': '{count, plural, zero {لم يُضف أي سجل} one {أُضيف سجل واحد} two {أُضيف سجلان} few {أُضيفت # سجلات} many {أُضيف # سجلاً} other {أُضيف # سجل}}',
+  'app.duplicatesAdded': '{count, plural, zero {لا يوجد بينها تكرار.} one {أحدها يكرر سجلاً موجوداً في الملف ويُستبعد من التلخيص.} two {اثنان منها يكرران سجلات موجودة في الملف ويُستبعدان من التلخيص.} few {# منها تكرر سجلات موجودة في الملف وتُستبعد من التلخيص.} many {# منها تكرر سجلات موجودة في الملف وتُستبعد من التلخيص.} other {# منها تكرر سجلات موجودة في الملف وتُستبعد من التلخيص.}} ',
+  'app.reportNotUpdated': 'التقرير المحفوظ لا يتضمنها بعد؛ أعد التلخيص لتحديثه.',
+  'app.addRecords': 'إضافة سجلات',
+  'app.summary': 'الملخص',
+  'app.records': 'السجلات',
+  'app.synthesize': 'تلخيص السجل الطبي',
+  'app.openReport': 'فتح التقرير المحفوظ',
+  'app.outdated': '(قديم)',
+  'app.reportHistory': 'سجل التقارير',
+  'app.reportHistoryCount': 'سجل التقارير ({count})',
+  'app.exportDossier': 'تصدير الملف',
+  'app.backToRecords': 'العودة إلى السجلات',
+};
+
+export const arTemplates: TemplateTranslations = {
+  clinical: {
+    name: 'نظرة سريرية عامة',
+    description: 'تلخيص مفصل للسجل الطبي بأكمله موجه للأطباء.',
+    title: 'ملف الحالة السريرية',
+    sections: {
+      history: 'السيرة المرضية',
+      summary: 'التقييم السريري',
+      prognosis: 'ملاحظات سريرية',
+    },
+  },
+  patient: {
+    name: 'ملخص للمريض',
+    description: 'عرض بلغة بسيطة يستطيع المريض وعائلته قراءته.',
+    title: 'ملخص حالتك الصحية',
+    sections: {
+      story: 'قصتك الصحية',
+      results: 'ماذا تعني نتائجك',
+      questions: 'أسئلة لطبيبك',
+    },
+  },
+  referral: {
+    name: 'خطاب إحالة',
+    description: 'خطاب إلى طبيب مختص بشأن حالة واحدة.',
+    title: 'إحالة إلى طبيب مختص',
+    focus: { label: 'الحالة', placeholder: 'مثال: السكري من النوع الثاني' },
+    recipient: { label: 'موجه إلى', placeholder: 'مثال: د. سامي، الغدد الصماء' },
+    sections: {
+      reason: 'سبب الإحالة',
+      history: 'التاريخ المرضي ذو الصلة',
+      investigations: 'الفحوصات',
+      treatment: 'العلاج حتى الآن',
+      questions: 'أسئلة للطبيب المختص',
+    },
+  },
+  claim: {
+    name: 'تسلسل زمني لمطالبة',
+    description: 'تسلسل زمني مؤرخ وموضوعي لمطالبة تأمين أو عجز.',
+    title: 'التسلسل الزمني الطبي للمطالبة',
+    focus: { label: 'الحالة موضوع المطالبة', placeholder: 'مثال: انزلاق غضروفي قطني' },
+    sections: {
+      chronology: 'التسلسل الزمني للأحداث',
+      diagnoses: 'التشخيصات وتاريخ بدايتها',
+      impact: 'الأثر الوظيفي',
+      treatment: 'العلاج والحالة الراهنة',
+    },
+  },
+};
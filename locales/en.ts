@@ -0,0 +1,365 @@
+// English is the source language: every other locale translates these keys.
+// Plural forms follow Intl.PluralRules: {count, plural, one {...} other {...}}.
+export const en = {
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.close': 'Close',
+  'common.back': 'Back',
+  'common.hide': 'Hide',
+  'common.review': 'Review',
+  'common.unknown': 'Unknown',
+  'common.notAvailable': 'N/A',
+  'common.undated': 'Undated',
+  'common.optional': '{label} (optional)',
+  'common.records': '{count, plural, one {# record} other {# records}}',
+
+  'gender.Male': 'Male',
+  'gender.Female': 'Female',
+  'gender.Other': 'Other',
+
+  'docType.LAB': 'Lab',
+  'docType.IMAGING': 'Imaging',
+  'docType.PRESCRIPTION': 'Prescription',
+  'docType.NOTE': 'Note',
+  'docType.OTHER': 'Other',
+
+  'upload.title': 'Upload Medical Documents',
+  'upload.hint': 'Drag and drop photos, PDFs, or Word documents of your labs, imaging, or prescriptions.',
+  'upload.select': 'Select Files',
+  'upload.images': 'Images',
+  'upload.documents': 'PDF / Word',
+
+  'vault.passphrase': 'Passphrase',
+
+  'vaultUnlock.title': 'Vault Locked',
+  'vaultUnlock.hint': 'Records and profiles on this device are encrypted. Enter your passphrase to open them.',
+  'vaultUnlock.wrongPassphrase': 'That passphrase does not open this vault.',
+  'vaultUnlock.unlock': 'Unlock',
+  'vaultUnlock.forgot': 'Forgot passphrase? Erase all data',
+
+  'registration.title': 'Patient Profile',
+  'registration.hint': 'This info personalizes your clinical summary.',
+  'registration.name': 'Full Name',
+  'registration.namePlaceholder': 'e.g. John Doe',
+  'registration.dob': 'Date of Birth',
+  'registration.selectDob': 'Select date of birth',
+  'registration.gender': 'Gender',
+  'registration.submit': 'Initialize Timeline',
+  'registration.back': 'Back to current dossier',
+  'registration.import': 'Import an exported dossier',
+
+  'dossiers.select': 'Select Patient',
+  'dossiers.title': 'Patient Dossiers',
+  'dossiers.rename': 'Rename',
+  'dossiers.new': 'New Patient',
+  'dossiers.import': 'Import Dossier',
+
+  'duplicates.title': 'Review Duplicates',
+  'duplicates.summary': '{copies, plural, one {# duplicate copy} other {# duplicate copies}} found in {groups, plural, one {# group} other {# groups}}. Only the kept copy is used in the synthesis.',
+  'duplicates.identical': 'Identical files',
+  'duplicates.visual': 'Visually matching pages',
+  'duplicates.copy': 'Copy',
+  'duplicates.kept': 'Kept',
+  'duplicates.keep': 'Keep this copy',
+
+  'chronology.title': 'Chronology',
+  'chronology.empty': 'No dated records to plot.',
+  'chronology.bucket': '{month}: {count, plural, one {# record} other {# records}}',
+  'chronology.more': '{count} more in {month}',
+  'chronology.undated': '{count, plural, one {# undated record is} other {# undated records are}} not plotted.',
+
+  'timeline.type': 'Type',
+  'timeline.from': 'From',
+  'timeline.to': 'To',
+  'timeline.duplicates': 'Duplicates',
+  'timeline.showAll': 'Show all',
+  'timeline.hideDuplicates': 'Hide duplicates',
+  'timeline.onlyDuplicates': 'Only duplicates',
+  'timeline.groupBy': 'Group by',
+  'timeline.groupNone': 'None',
+  'timeline.groupYear': 'Year',
+  'timeline.groupMonth': 'Month',
+  'timeline.oldestFirst': 'Oldest first',
+  'timeline.newestFirst': 'Newest first',
+  'timeline.clearFilters': 'Clear filters',
+
+  'labs.trends': 'Laboratory Trends',
+  'labs.measurements': '{count, plural, one {# measurement} other {# measurements}}',
+  'labs.reference': 'Ref {range}',
+
+  'medications.title': 'Medication History',
+  'medications.active': 'Currently Active',
+  'medications.noneActive': 'No medication appears active in the most recent records.',
+  'medications.drug': 'Drug',
+  'medications.regimen': 'Regimen',
+  'medications.start': 'Start',
+  'medications.stop': 'Stop',
+  'medications.prescriber': 'Prescriber',
+  'medications.activeBadge': 'Active',
+  'medications.inferredHint': 'Inferred from later records',
+  'medications.documented': 'Documented',
+  'medications.inferred': '(inferred)',
+  'medications.regimenUnspecified': 'Regimen not specified',
+
+  'archive.password': 'Password',
+
+  'exportArchive.title': 'Export Dossier',
+  'exportArchive.summary': '{name}: {records, plural, one {# record} other {# records}} and the original files.',
+  'exportArchive.summaryReport': '{name}: {records, plural, one {# record} other {# records}}, saved report and the original files.',
+  'exportArchive.summaryVersions': '{name}: {records, plural, one {# record} other {# records}}, {versions} report versions and the original files.',
+  'exportArchive.protect': 'Protect the archive with a password',
+  'exportArchive.confirmPassword': 'Confirm password',
+  'exportArchive.unprotectedWarning': 'Anyone who gets hold of an unprotected archive can read every record in it.',
+  'exportArchive.passwordMissing': 'Enter a password or turn off encryption.',
+  'exportArchive.passwordMismatch': 'The passwords do not match.',
+  'exportArchive.failed': 'The archive could not be created.',
+  'exportArchive.download': 'Download Archive',
+
+  'importArchive.hint': 'Restore a dossier exported from MediChronicle on another browser or device.',
+  'importArchive.choose': 'Choose Archive',
+  'importArchive.password': 'Archive password',
+  'importArchive.open': 'Open Archive',
+  'importArchive.born': 'Born {dob}',
+  'importArchive.withReport': 'saved report included',
+  'importArchive.withoutReport': 'no saved report',
+  'importArchive.sameDossier': 'This archive was exported from the dossier for {name}, which already exists here.',
+  'importArchive.samePatient': 'A dossier for {name} with the same date of birth already exists here.',
+  'importArchive.replace': 'Replace Existing Dossier',
+  'importArchive.separate': 'Import as Separate Dossier',
+  'importArchive.confirmReplace': 'Replace every record in the dossier for {name}?',
+  'importArchive.unreadable': 'The archive could not be read.',
+  'importArchive.restoreFailed': 'The dossier could not be restored.',
+  'importArchive.notArchive': 'This file is not a MediChronicle dossier archive.',
+  'importArchive.newerVersion': 'This archive was made by a newer version of MediChronicle (format {version}).',
+  'importArchive.incomplete': 'The archive is incomplete.',
+  'importArchive.passwordRequired': 'This archive is password protected.',
+  'importArchive.wrongPassword': 'The password is incorrect or the archive is damaged.',
+  'importArchive.badProfile': 'The patient profile is missing or malformed.',
+  'importArchive.noRecords': 'The record list is missing.',
+  'importArchive.badId': 'Record {record} has a missing or repeated id.',
+  'importArchive.badType': 'Record {record} has an unknown type.',
+  'importArchive.badDate': 'Record {record} has an invalid date.',
+  'importArchive.noSummary': 'Record {record} is missing its summary.',
+  'importArchive.noFile': 'Record {record} is missing its original file.',
+  'importArchive.badPage': 'Record {record} has an unreadable page.',
+  'importArchive.badPageRange': 'Record {record} has an invalid page range.',
+  'importArchive.badReport': 'A saved report is malformed.',
+  'importArchive.badReportVersion': 'A saved report version is malformed.',
+
+  'vaultSettings.title': 'Encrypted Vault',
+  'vaultSettings.encrypted': 'Records and profiles are encrypted on this device.',
+  'vaultSettings.unencrypted': 'Records and profiles are stored unencrypted.',
+  'vaultSettings.autoLock': 'Lock after inactivity',
+  'vaultSettings.minutes': '{count, plural, one {# minute} other {# minutes}}',
+  'vaultSettings.unrecoverable': 'The passphrase cannot be recovered. If it is lost, the encrypted records can only be erased.',
+  'vaultSettings.newPassphrase': 'New passphrase',
+  'vaultSettings.confirmPassphrase': 'Confirm passphrase',
+  'vaultSettings.currentPassphrase': 'Current passphrase',
+  'vaultSettings.confirmNewPassphrase': 'Confirm new passphrase',
+  'vaultSettings.encrypt': 'Encrypt Records',
+  'vaultSettings.reencrypt': 'Re-encrypt Records',
+  'vaultSettings.decrypt': 'Decrypt Records',
+  'vaultSettings.lockNow': 'Lock Now',
+  'vaultSettings.change': 'Change Passphrase',
+  'vaultSettings.turnOff': 'Turn Off Encryption',
+  'vaultSettings.tooShort': 'Use at least {count} characters.',
+  'vaultSettings.mismatch': 'The passphrases do not match.',
+  'vaultSettings.incorrect': 'The current passphrase is incorrect.',
+  'vaultSettings.failed': 'The vault could not be updated.',
+
+  'timeline.searchPlaceholder': 'Search all records, e.g. MRI "L4-L5"',
+  'timeline.showing': 'Showing {visible} of {total} records',
+  'timeline.waiting': 'Waiting for uploads...',
+  'timeline.noMatch': 'No record mentions {terms}.',
+  'timeline.and': ' and ',
+  'timeline.noFilterMatch': 'No records match the filters.',
+  'timeline.date': 'Date',
+  'timeline.summary': 'Summary',
+  'timeline.duplicateRecord': 'Duplicate record',
+  'timeline.duplicate': 'Duplicate',
+  'timeline.edit': 'Edit',
+  'timeline.remove': 'Remove',
+  'timeline.record': 'Record',
+  'timeline.pdfBadge': 'PDF Report',
+  'timeline.docxBadge': 'DOCX File',
+  'timeline.unknownDate': 'Unknown Date',
+  'timeline.transcription': 'AI transcription',
+  'timeline.fullText': 'Full text',
+  'timeline.ai': 'AI',
+  'timeline.extractedByAi': 'Extracted by AI',
+  'timeline.edited': 'Edited',
+  'timeline.aiValue': 'AI value: {value}',
+  'timeline.none': 'none',
+  'timeline.revert': 'Revert to AI value',
+  'timeline.pages': '{count, plural, one {# page} other {# pages}}',
+  'timeline.pageRange': 'Pages {start}–{end}',
+  'timeline.showPage': 'Show page {page}',
+  'timeline.splitPages': 'Split into separate records',
+  'timeline.selectPages': 'Select to join with other scans',
+  'timeline.pagesSelected': '{count, plural, one {# record selected} other {# records selected}}',
+  'timeline.joinHint': 'Pages follow the order in which they were selected.',
+  'timeline.joinPages': 'Join as one record',
+  'timeline.clearSelection': 'Clear selection',
+  'timeline.labValues': 'Lab values',
+  'timeline.medications': 'Medications',
+  'timeline.collected': 'Collection date',
+  'timeline.dose': 'Dose',
+  'timeline.frequency': 'Frequency',
+  'timeline.addLab': 'Add lab value',
+  'timeline.addMedication': 'Add medication',
+  'timeline.removeRow': 'Remove',
+  'medAction.START': 'Started',
+  'medAction.CONTINUE': 'Continued',
+  'medAction.CHANGE': 'Changed',
+  'medAction.STOP': 'Stopped',
+
+  'redaction.title': 'Review What Is Sent',
+  'redaction.hint': 'Everything below is exactly what leaves this device for the AI provider. Drag over an image to black out an area.',
+  'redaction.enable': 'Redact before sending',
+  'redaction.patientDetails': 'Patient details',
+  'redaction.name': 'Name ({name})',
+  'redaction.dob': 'Date of birth ({dob})',
+  'redaction.patterns': 'Patterns',
+  'redaction.removePattern': 'Remove pattern',
+  'redaction.addPattern': 'Add a pattern',
+  'redaction.labelPlaceholder': 'Label, e.g. Address',
+  'redaction.patternPlaceholder': 'Regular expression',
+  'redaction.add': 'Add',
+  'redaction.labelMissing': 'Give the pattern a label.',
+  'redaction.invalidPattern': 'That is not a valid regular expression.',
+  'redaction.disabledWarning': 'Files are sent exactly as uploaded, including names, dates of birth and identifiers.',
+  'redaction.files': 'Files ({count})',
+  'redaction.boxes': '{count, plural, one {# box} other {# boxes}}',
+  'redaction.preparing': 'Preparing preview...',
+  'redaction.previewFailed': 'This file could not be prepared for sending.',
+  'redaction.sentAs': 'Sent as',
+  'redaction.pdfUnchanged': 'The original PDF file is sent unchanged.',
+  'redaction.page': 'Page {page}',
+  'redaction.imageAlt': 'Content sent to the model',
+  'redaction.undoBox': 'Undo box',
+  'redaction.clearBoxes': 'Clear {count, plural, one {# box} other {# boxes}}',
+  'redaction.send': 'Send {count, plural, one {# file} other {# files}} for analysis',
+  'redaction.grouping': 'Photos taken within a few minutes of each other are grouped as pages of one record.',
+  'redaction.joinPrevious': 'Same record as the file above',
+  'redaction.separate': 'Separate record',
+
+  'reportSettings.type': 'Report Type',
+  'reportSettings.length': 'Length',
+  'reportSettings.length.brief': 'Brief',
+  'reportSettings.length.standard': 'Standard',
+  'reportSettings.length.detailed': 'Detailed',
+  'reportSettings.words': 'About {count} words',
+  'reportSettings.language': 'Report Language',
+
+  'stream.title': 'Synthesizing {name}',
+  'stream.waiting': 'Waiting for the model to start writing...',
+  'stream.writing': 'Writing {section}...',
+  'stream.hint': 'The report is saved once it is complete. Cancelling keeps your records and any saved report as they are.',
+
+  'history.title': 'Report History',
+  'history.hint': 'Open an earlier version, or tick two versions to see what changed between them.',
+  'history.compare': 'Compare this version',
+  'history.current': 'Current',
+  'history.open': 'Open',
+  'history.records': 'Records',
+  'history.removedRecord': 'A record no longer in the dossier',
+  'history.noChanges': 'No changes',
+  'history.pickTwo': 'Tick two versions to compare them.',
+
+  'history.medications': 'Medications',
+  'history.medicationCourse': '{drug} ({regimen}) from {start} to {end}',
+  'history.present': 'present',
+
+  'report.outdated': 'Outdated report.',
+  'report.outdatedHint': 'Records were added to the dossier after this report was generated and are not reflected in it.',
+  'report.regenerate': 'Regenerate',
+  'report.fhir': 'FHIR Bundle',
+  'report.fhirBuilding': 'Building Bundle...',
+  'report.fhirHint': 'FHIR R4 document Bundle for import into clinical systems',
+  'report.word': 'Word Portfolio',
+  'report.wordExporting': 'Exporting Word...',
+  'report.pdf': 'Organized PDF',
+  'report.pdfGenerating': 'Generating PDF...',
+  'report.patient': 'Patient:',
+  'report.anonymous': 'Anonymous',
+  'report.sorter': 'MediChronicle AI Clinical Sorter',
+  'report.recordsProcessed': '{count, plural, one {# Record Processed} other {# Records Processed}}',
+  'report.noticeTitle': 'Clinical Summary Notice',
+  'report.notice': 'This portfolio is an AI-generated organization of provided documentation. It is intended for tracking and clarity only. Not for diagnostic use.',
+  'report.masterIndex': 'Master Document Index',
+  'report.viewSource': 'View source record #{number}',
+  'report.openFile': 'Open {file}',
+  'report.pdfFailed': 'There was an error generating your PDF. If you have many photos, try fewer at once or refresh.',
+  'report.wordFailed': 'Word export failed. Please check your browser permissions.',
+  'report.fontFailed': 'The font for this report language could not be loaded. Reload the page and try again.',
+  'report.fhirFailed': 'FHIR export failed.',
+
+  'export.dateGenerated': 'Date Generated:',
+  'export.date': 'Date:',
+  'export.labHistory': 'Laboratory History',
+  'export.analyte': 'Analyte',
+  'export.value': 'Value',
+  'export.unit': 'Unit',
+  'export.reference': 'Reference',
+  'export.currentlyActive': 'Currently active:',
+  'export.ref': 'Ref',
+  'export.keyFinding': 'Key Finding Summary',
+  'export.appendix': 'Visual Appendix',
+  'export.appendixRecord': 'Appendix Record #{number}: {type}',
+  'export.record': 'Record #{number}: {type}',
+  'export.recordDetails': 'Date: {date} | File: {file}',
+  'export.recordSummary': 'Summary: {summary}',
+  'export.filePages': '{file}, pages {start}–{end}',
+  'export.pageOf': 'page {page} of {total}',
+  'export.continued': 'continued, page {page}',
+  'export.imageFailed': 'Image processing failed for this record',
+  'export.pdfFailed': 'PDF could not be rendered',
+  'export.wordFailed': 'Word document could not be read',
+  'export.unsupported': 'Unsupported file type',
+  'export.labResults': '{count, plural, one {# laboratory result} other {# laboratory results}} extracted from the source records.',
+
+  'app.connectKey': 'Connect Key',
+  'app.reconnectKey': 'Reconnect API Key',
+  'app.vault': 'Vault',
+  'app.clearDossier': 'Clear Dossier',
+  'app.language': 'Interface language',
+  'app.loadFailed': 'Could not load the selected dossier.',
+  'app.connectKeyFirst': 'Please connect your API key first using the button below.',
+  'app.retrying': 'Provider busy, retrying in {seconds}s (attempt {attempt})...',
+  'app.permissionError': 'API Permission Error: Your API key session may have expired. Please reconnect your key.',
+  'app.reportFailed': 'Report generation failed ({message}). Your records and any saved report are unchanged; synthesize again to retry.',
+  'app.vaultReadFailed': 'The vault opened, but its records could not be read.',
+  'app.confirmDeleteDossier': 'Delete the dossier for {name} and all of its records?',
+  'app.confirmCancelAnalysis': 'Cancel the analysis? Progress on these uploads will be discarded.',
+  'app.confirmClear': 'Clear all records for {name}?',
+  'app.confirmErase': 'Erase every dossier and record on this device? This cannot be undone.',
+  'app.analysisPaused': 'Analysis Paused',
+  'app.analyzing': 'Analyzing Medical Records',
+  'app.pausedProgress': '{files} of {totalFiles} files analyzed. Completed batches are saved.',
+  'app.progress': '{files} of {totalFiles} files analyzed...',
+  'app.progressBytes': '{sent} of {total} sent',
+  'app.resume': 'Resume',
+  'app.pause': 'Pause',
+  'app.notAnalyzed': '{count, plural, one {# Record Not Analyzed} other {# Records Not Analyzed}}',
+  'app.notAnalyzedHint': 'The AI response could not be matched to these files, so they were left out rather than mislabeled.',
+  'app.retryAnalysis': 'Retry Analysis',
+  'app.dismiss': 'Dismiss',
+  'app.recordsAdded': '{count, plural, one {# Record Added} other {# Records Added}}',
+  'app.duplicatesAdded': '{count, plural, one {# of them duplicates a record already in the dossier and is left out of the synthesis.} other {# of them duplicate records already in the dossier and are left out of the synthesis.}} ',
+  'app.reportNotUpdated': 'The saved report does not include them yet; synthesize again to update it.',
+  'app.addRecords': 'Add Records',
+  'app.summary': 'Summary',
+  'app.records': 'Records',
+  'app.synthesize': 'Synthesize History',
+  'app.openReport': 'Open Saved Report',
+  'app.outdated': '(Outdated)',
+  'app.reportHistory': 'Report History',
+  'app.reportHistoryCount': 'Report History ({count})',
+  'app.exportDossier': 'Export Dossier',
+  'app.backToRecords': 'Back to Records',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
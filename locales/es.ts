@@ -0,0 +1,411 @@
+import { Messages } from "./en";
+import { TemplateTranslations } from "../services/i18nService";
+
+export const es: Messages = {
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.delete': 'Eliminar',
+  'common.close': 'Cerrar',
+  'common.back': 'Volver',
+  'common.hide': 'Ocultar',
+  'common.review': 'Revisar',
+  'common.unknown': 'Desconocido',
+  'common.notAvailable': 'N/D',
+  'common.undated': 'Sin fecha',
+  'common.optional': '{label} (opcional)',
+  'common.records': '{count, plural, one {# registro} other {# registros}}',
+
+  'gender.Male': 'Masculino',
+  'gender.Female': 'Femenino',
+  'gender.Other': 'Otro',
+
+  'docType.LAB': 'Laboratorio',
+  'docType.IMAGING': 'Imagen',
+  'docType.PRESCRIPTION': 'Receta',
+  'docType.NOTE': 'Nota',
+  'docType.OTHER': 'Otro',
+
+  'upload.title': 'Subir documentos médicos',
+  'upload.hint': 'Arrastre y suelte fotos, PDF o documentos de Word de sus análisis, estudios de imagen o recetas.',
+  'upload.select': 'Seleccionar archivos',
+  'upload.images': 'Imágenes',
+  'upload.documents': 'PDF / Word',
+
+  'vault.passphrase': 'Frase de contraseña',
+
+  'vaultUnlock.title': 'Bóveda bloqueada',
+  'vaultUnlock.hint': 'Los registros y perfiles de este dispositivo están cifrados. Introduzca su frase de contraseña para abrirlos.',
+  'vaultUnlock.wrongPassphrase': 'Esa frase de contraseña no abre esta bóveda.',
+  'vaultUnlock.unlock': 'Desbloquear',
+  'vaultUnlock.forgot': '¿Olvidó la frase? Borrar todos los datos',
+
+  'registration.title': 'Perfil del paciente',
+  'registration.hint': 'Estos datos personalizan su resumen clínico.',
+  'registration.name': 'Nombre completo',
+  'registration.namePlaceholder': 'p. ej. Juan Pérez',
+  'registration.dob': 'Fecha de nacimiento',
+  'registration.selectDob': 'Seleccione la fecha de nacimiento',
+  'registration.gender': 'Sexo',
+  'registration.submit': 'Crear cronología',
+  'registration.back': 'Volver al expediente actual',
+  'registration.import': 'Importar un expediente exportado',
+
+  'dossiers.select': 'Seleccionar paciente',
+  'dossiers.title': 'Expedientes de pacientes',
+  'dossiers.rename': 'Renombrar',
+  'dossiers.new': 'Nuevo paciente',
+  'dossiers.import': 'Importar expediente',
+
+  'duplicates.title': 'Revisar duplicados',
+  'duplicates.summary': 'Se encontraron {copies, plural, one {# copia duplicada} other {# copias duplicadas}} en {groups, plural, one {# grupo} other {# grupos}}. Solo la copia conservada se usa en la síntesis.',
+  'duplicates.identical': 'Archivos idénticos',
+  'duplicates.visual': 'Páginas visualmente iguales',
+  'duplicates.copy': 'Copia',
+  'duplicates.kept': 'Conservada',
+  'duplicates.keep': 'Conservar esta copia',
+
+  'chronology.title': 'Cronología',
+  'chronology.empty': 'No hay registros con fecha que mostrar.',
+  'chronology.bucket': '{month}: {count, plural, one {# registro} other {# registros}}',
+  'chronology.more': '{count} más en {month}',
+  'chronology.undated': '{count, plural, one {# registro sin fecha no aparece} other {# registros sin fecha no aparecen}} en el gráfico.',
+
+  'timeline.type': 'Tipo',
+  'timeline.from': 'Desde',
+  'timeline.to': 'Hasta',
+  'timeline.duplicates': 'Duplicados',
+  'timeline.showAll': 'Mostrar todos',
+  'timeline.hideDuplicates': 'Ocultar duplicados',
+  'timeline.onlyDuplicates': 'Solo duplicados',
+  'timeline.groupBy': 'Agrupar por',
+  'timeline.groupNone': 'Ninguno',
+  'timeline.groupYear': 'Año',
+  'timeline.groupMonth': 'Mes',
+  'timeline.oldestFirst': 'Más antiguos primero',
+  'timeline.newestFirst': 'Más recientes primero',
+  'timeline.clearFilters': 'Quitar filtros',
+
+  'labs.trends': 'Tendencias de laboratorio',
+  'labs.measurements': '{count, plural, one {# medición} other {# mediciones}}',
+  'labs.reference': 'Ref. {range}',
+
+  'medications.title': 'Historial de medicación',
+  'medications.active': 'Activa actualmente',
+  'medications.noneActive': 'Ningún medicamento parece activo en los registros más recientes.',
+  'medications.drug': 'Fármaco',
+  'medications.regimen': 'Pauta',
+  'medications.start': 'Inicio',
+  'medications.stop': 'Fin',
+  'medications.prescriber': 'Prescriptor',
+  'medications.activeBadge': 'Activa',
+  'medications.inferredHint': 'Deducido de registros posteriores',
+  'medications.documented': 'Documentado',
+  'medications.inferred': '(deducido)',
+  'medications.regimenUnspecified': 'Pauta no especificada',
+
+  'archive.password': 'Contraseña',
+
+  'exportArchive.title': 'Exportar expediente',
+  'exportArchive.summary': '{name}: {records, plural, one {# registro} other {# registros}} y los archivos originales.',
+  'exportArchive.summaryReport': '{name}: {records, plural, one {# registro} other {# registros}}, el informe guardado y los archivos originales.',
+  'exportArchive.summaryVersions': '{name}: {records, plural, one {# registro} other {# registros}}, {versions} versiones del informe y los archivos originales.',
+  'exportArchive.protect': 'Proteger el archivo con una contraseña',
+  'exportArchive.confirmPassword': 'Confirmar contraseña',
+  'exportArchive.unprotectedWarning': 'Cualquiera que obtenga un archivo sin protección puede leer todos sus registros.',
+  'exportArchive.passwordMissing': 'Introduzca una contraseña o desactive el cifrado.',
+  'exportArchive.passwordMismatch': 'Las contraseñas no coinciden.',
+  'exportArchive.failed': 'No se pudo crear el archivo.',
+  'exportArchive.download': 'Descargar archivo',
+
+  'importArchive.hint': 'Restaure un expediente exportado desde MediChronicle en otro navegador o dispositivo.',
+  'importArchive.choose': 'Elegir archivo',
+  'importArchive.password': 'Contraseña del archivo',
+  'importArchive.open': 'Abrir archivo',
+  'importArchive.born': 'Nacido/a el {dob}',
+  'importArchive.withReport': 'incluye el informe guardado',
+  'importArchive.withoutReport': 'sin informe guardado',
+  'importArchive.sameDossier': 'Este archivo se exportó del expediente de {name}, que ya existe aquí.',
+  'importArchive.samePatient': 'Ya existe aquí un expediente de {name} con la misma fecha de nacimiento.',
+  'importArchive.replace': 'Reemplazar el expediente existente',
+  'importArchive.separate': 'Importar como expediente aparte',
+  'importArchive.confirmReplace': '¿Reemplazar todos los registros del expediente de {name}?',
+  'importArchive.unreadable': 'No se pudo leer el archivo.',
+  'importArchive.restoreFailed': 'No se pudo restaurar el expediente.',
+  'importArchive.notArchive': 'Este archivo no es un expediente exportado de MediChronicle.',
+  'importArchive.newerVersion': 'Este archivo se creó con una versión más reciente de MediChronicle (formato {version}).',
+  'importArchive.incomplete': 'El archivo está incompleto.',
+  'importArchive.passwordRequired': 'Este archivo está protegido con contraseña.',
+  'importArchive.wrongPassword': 'La contraseña es incorrecta o el archivo está dañado.',
+  'importArchive.badProfile': 'Falta el perfil del paciente o está mal formado.',
+  'importArchive.noRecords': 'Falta la lista de registros.',
+  'importArchive.badId': 'El registro {record} no tiene identificador o lo repite.',
+  'importArchive.badType': 'El registro {record} tiene un tipo desconocido.',
+  'importArchive.badDate': 'El registro {record} tiene una fecha no válida.',
+  'importArchive.noSummary': 'Al registro {record} le falta el resumen.',
+  'importArchive.noFile': 'Al registro {record} le falta el archivo original.',
+  'importArchive.badPage': 'El registro {record} tiene una página ilegible.',
+  'importArchive.badPageRange': 'El registro {record} tiene un intervalo de páginas no válido.',
+  'importArchive.badReport': 'Un informe guardado está mal formado.',
+  'importArchive.badReportVersion': 'Una versión guardada del informe está mal formada.',
+
+  'vaultSettings.title': 'Bóveda cifrada',
+  'vaultSettings.encrypted': 'Los registros y perfiles están cifrados en este dispositivo.',
+  'vaultSettings.unencrypted': 'Los registros y perfiles se guardan sin cifrar.',
+  'vaultSettings.autoLock': 'Bloquear tras inactividad',
+  'vaultSettings.minutes': '{count, plural, one {# minuto} other {# minutos}}',
+  'vaultSettings.unrecoverable': 'La frase de contraseña no se puede recuperar. Si se pierde, los registros cifrados solo se pueden borrar.',
+  'vaultSettings.newPassphrase': 'Nueva frase de contraseña',
+  'vaultSettings.confirmPassphrase': 'Confirmar frase de contraseña',
+  'vaultSettings.currentPassphrase': 'Frase de contraseña actual',
+  'vaultSettings.confirmNewPassphrase': 'Confirmar nueva frase de contraseña',
+  'vaultSettings.encrypt': 'Cifrar registros',
+  'vaultSettings.reencrypt': 'Volver a cifrar registros',
+  'vaultSettings.decrypt': 'Descifrar registros',
+  'vaultSettings.lockNow': 'Bloquear ahora',
+  'vaultSettings.change': 'Cambiar frase de contraseña',
+  'vaultSettings.turnOff': 'Desactivar cifrado',
+  'vaultSettings.tooShort': 'Use al menos {count} caracteres.',
+  'vaultSettings.mismatch': 'Las frases de contraseña no coinciden.',
+  'vaultSettings.incorrect': 'La frase de contraseña actual no es correcta.',
+  'vaultSettings.failed': 'No se pudo actualizar la bóveda.',
+
+  'timeline.searchPlaceholder': 'Buscar en todos los registros, p. ej. RM "L4-L5"',
+  'timeline.showing': 'Mostrando {visible} de {total} registros',
+  'timeline.waiting': 'Esperando archivos...',
+  'timeline.noMatch': 'Ningún registro menciona {terms}.',
+  'timeline.and': ' y ',
+  'timeline.noFilterMatch': 'Ningún registro coincide con los filtros.',
+  'timeline.date': 'Fecha',
+  'timeline.summary': 'Resumen',
+  'timeline.duplicateRecord': 'Registro duplicado',
+  'timeline.duplicate': 'Duplicado',
+  'timeline.edit': 'Editar',
+  'timeline.remove': 'Quitar',
+  'timeline.record': 'Registro',
+  'timeline.pdfBadge': 'Informe PDF',
+  'timeline.docxBadge': 'Archivo DOCX',
+  'timeline.unknownDate': 'Fecha desconocida',
+  'timeline.transcription': 'Transcripción por IA',
+  'timeline.fullText': 'Texto completo',
+  'timeline.ai': 'IA',
+  'timeline.extractedByAi': 'Extraído por IA',
+  'timeline.edited': 'Editado',
+  'timeline.aiValue': 'Valor de la IA: {value}',
+  'timeline.none': 'ninguno',
+  'timeline.revert': 'Volver al valor de la IA',
+  'timeline.pages': '{count, plural, one {# página} other {# páginas}}',
+  'timeline.pageRange': 'Páginas {start}–{end}',
+  'timeline.showPage': 'Mostrar la página {page}',
+  'timeline.splitPages': 'Separar en registros distintos',
+  'timeline.selectPages': 'Seleccionar para unir con otros escaneos',
+  'timeline.pagesSelected': '{count, plural, one {# registro seleccionado} other {# registros seleccionados}}',
+  'timeline.joinHint': 'Las páginas siguen el orden en que se seleccionaron.',
+  'timeline.joinPages': 'Unir en un registro',
+  'timeline.clearSelection': 'Borrar selección',
+  'timeline.labValues': 'Valores de laboratorio',
+  'timeline.medications': 'Medicación',
+  'timeline.collected': 'Fecha de extracción',
+  'timeline.dose': 'Dosis',
+  'timeline.frequency': 'Frecuencia',
+  'timeline.addLab': 'Añadir valor de laboratorio',
+  'timeline.addMedication': 'Añadir medicamento',
+  'timeline.removeRow': 'Quitar',
+  'medAction.START': 'Iniciado',
+  'medAction.CONTINUE': 'Continúa',
+  'medAction.CHANGE': 'Modificado',
+  'medAction.STOP': 'Suspendido',
+
+  'redaction.title': 'Revisar lo que se envía',
+  'redaction.hint': 'Todo lo que aparece abajo es exactamente lo que sale de este dispositivo hacia el proveedor de IA. Arrastre sobre una imagen para tachar una zona.',
+  'redaction.enable': 'Anonimizar antes de enviar',
+  'redaction.patientDetails': 'Datos del paciente',
+  'redaction.name': 'Nombre ({name})',
+  'redaction.dob': 'Fecha de nacimiento ({dob})',
+  'redaction.patterns': 'Patrones',
+  'redaction.removePattern': 'Quitar patrón',
+  'redaction.addPattern': 'Añadir un patrón',
+  'redaction.labelPlaceholder': 'Etiqueta, p. ej. Dirección',
+  'redaction.patternPlaceholder': 'Expresión regular',
+  'redaction.add': 'Añadir',
+  'redaction.labelMissing': 'Asigne una etiqueta al patrón.',
+  'redaction.invalidPattern': 'No es una expresión regular válida.',
+  'redaction.disabledWarning': 'Los archivos se envían tal como se subieron, con nombres, fechas de nacimiento e identificadores.',
+  'redaction.files': 'Archivos ({count})',
+  'redaction.boxes': '{count, plural, one {# recuadro} other {# recuadros}}',
+  'redaction.preparing': 'Preparando la vista previa...',
+  'redaction.previewFailed': 'No se pudo preparar este archivo para enviarlo.',
+  'redaction.sentAs': 'Se envía como',
+  'redaction.pdfUnchanged': 'El PDF original se envía sin cambios.',
+  'redaction.page': 'Página {page}',
+  'redaction.imageAlt': 'Contenido enviado al modelo',
+  'redaction.undoBox': 'Deshacer recuadro',
+  'redaction.clearBoxes': 'Quitar {count, plural, one {# recuadro} other {# recuadros}}',
+  'redaction.send': 'Enviar {count, plural, one {# archivo} other {# archivos}} para su análisis',
+  'redaction.grouping': 'Las fotos tomadas con pocos minutos de diferencia se agrupan como páginas de un mismo registro.',
+  'redaction.joinPrevious': 'Mismo registro que el archivo anterior',
+  'redaction.separate': 'Registro aparte',
+
+  'reportSettings.type': 'Tipo de informe',
+  'reportSettings.length': 'Extensión',
+  'reportSettings.length.brief': 'Breve',
+  'reportSettings.length.standard': 'Estándar',
+  'reportSettings.length.detailed': 'Detallado',
+  'reportSettings.words': 'Unas {count} palabras',
+  'reportSettings.language': 'Idioma del informe',
+
+  'stream.title': 'Redactando: {name}',
+  'stream.waiting': 'Esperando a que el modelo empiece a escribir...',
+  'stream.writing': 'Escribiendo {section}...',
+  'stream.hint': 'El informe se guarda cuando está completo. Al cancelar, sus registros y cualquier informe guardado quedan como estaban.',
+
+  'history.title': 'Historial de informes',
+  'history.hint': 'Abra una versión anterior o marque dos versiones para ver qué cambió entre ellas.',
+  'history.compare': 'Comparar esta versión',
+  'history.current': 'Actual',
+  'history.open': 'Abrir',
+  'history.records': 'Registros',
+  'history.removedRecord': 'Un registro que ya no está en el expediente',
+  'history.noChanges': 'Sin cambios',
+  'history.pickTwo': 'Marque dos versiones para compararlas.',
+
+  'history.medications': 'Medicación',
+  'history.medicationCourse': '{drug} ({regimen}) del {start} al {end}',
+  'history.present': 'la actualidad',
+
+  'report.outdated': 'Informe desactualizado.',
+  'report.outdatedHint': 'Se añadieron registros al expediente después de generar este informe y no se reflejan en él.',
+  'report.regenerate': 'Regenerar',
+  'report.fhir': 'Paquete FHIR',
+  'report.fhirBuilding': 'Creando paquete...',
+  'report.fhirHint': 'Paquete de documentos FHIR R4 para importar en sistemas clínicos',
+  'report.word': 'Portafolio Word',
+  'report.wordExporting': 'Exportando Word...',
+  'report.pdf': 'PDF organizado',
+  'report.pdfGenerating': 'Generando PDF...',
+  'report.patient': 'Paciente:',
+  'report.anonymous': 'Anónimo',
+  'report.sorter': 'Organizador clínico MediChronicle AI',
+  'report.recordsProcessed': '{count, plural, one {# registro procesado} other {# registros procesados}}',
+  'report.noticeTitle': 'Aviso sobre el resumen clínico',
+  'report.notice': 'Este portafolio es una organización de la documentación aportada generada por IA. Sirve solo para seguimiento y claridad. No apto para uso diagnóstico.',
+  'report.masterIndex': 'Índice maestro de documentos',
+  'report.viewSource': 'Ver el registro de origen n.º {number}',
+  'report.openFile': 'Abrir {file}',
+  'report.pdfFailed': 'Se produjo un error al generar el PDF. Si tiene muchas fotos, pruebe con menos a la vez o recargue la página.',
+  'report.wordFailed': 'Falló la exportación a Word. Revise los permisos del navegador.',
+  'report.fontFailed': 'No se pudo cargar la fuente para el idioma de este informe. Recargue la página e inténtelo de nuevo.',
+  'report.fhirFailed': 'Falló la exportación FHIR.',
+
+  'export.dateGenerated': 'Fecha de generación:',
+  'export.date': 'Fecha:',
+  'export.labHistory': 'Historial de laboratorio',
+  'export.analyte': 'Analito',
+  'export.value': 'Valor',
+  'export.unit': 'Unidad',
+  'export.reference': 'Referencia',
+  'export.currentlyActive': 'Activa actualmente:',
+  'export.ref': 'Ref.',
+  'export.keyFinding': 'Resumen del hallazgo principal',
+  'export.appendix': 'Anexo visual',
+  'export.appendixRecord': 'Anexo: registro n.º {number}: {type}',
+  'export.record': 'Registro n.º {number}: {type}',
+  'export.recordDetails': 'Fecha: {date} | Archivo: {file}',
+  'export.recordSummary': 'Resumen: {summary}',
+  'export.filePages': '{file}, páginas {start}–{end}',
+  'export.pageOf': 'página {page} de {total}',
+  'export.continued': 'continuación, página {page}',
+  'export.imageFailed': 'No se pudo procesar la imagen de este registro',
+  'export.pdfFailed': 'No se pudo representar el PDF',
+  'export.wordFailed': 'No se pudo leer el documento de Word',
+  'export.unsupported': 'Tipo de archivo no compatible',
+  'export.labResults': '{count, plural, one {# resultado de laboratorio extraído} other {# resultados de laboratorio extraídos}} de los registros de origen.',
+
+  'app.connectKey': 'Conectar clave',
+  'app.reconnectKey': 'Volver a conectar la clave de API',
+  'app.vault': 'Bóveda',
+  'app.clearDossier': 'Vaciar expediente',
+  'app.language': 'Idioma de la interfaz',
+  'app.loadFailed': 'No se pudo cargar el expediente seleccionado.',
+  'app.connectKeyFirst': 'Conecte primero su clave de API con el botón de abajo.',
+  'app.retrying': 'Proveedor ocupado; nuevo intento en {seconds} s (intento {attempt})...',
+  'app.permissionError': 'Error de permisos de la API: la sesión de su clave puede haber caducado. Vuelva a conectarla.',
+  'app.reportFailed': 'Falló la generación del informe ({message}). Sus registros y cualquier informe guardado no han cambiado; vuelva a sintetizar para reintentarlo.',
+  'app.vaultReadFailed': 'La bóveda se abrió, pero no se pudieron leer sus registros.',
+  'app.confirmDeleteDossier': '¿Eliminar el expediente de {name} y todos sus registros?',
+  'app.confirmCancelAnalysis': '¿Cancelar el análisis? Se descartará el progreso de estos archivos.',
+  'app.confirmClear': '¿Borrar todos los registros de {name}?',
+  'app.confirmErase': '¿Borrar todos los expedientes y registros de este dispositivo? No se puede deshacer.',
+  'app.analysisPaused': 'Análisis en pausa',
+  'app.analyzing': 'Analizando registros médicos',
+  'app.pausedProgress': '{files} de {totalFiles} archivos analizados. Los lotes completados están guardados.',
+  'app.progress': '{files} de {totalFiles} archivos analizados...',
+  'app.progressBytes': '{sent} de {total} enviados',
+  'app.resume': 'Reanudar',
+  'app.pause': 'Pausar',
+  'app.notAnalyzed': '{count, plural, one {# registro sin analizar} other {# registros sin analizar}}',
+  'app.notAnalyzedHint': 'La respuesta de la IA no se pudo asociar a estos archivos, así que se dejaron fuera en lugar de etiquetarlos mal.',
+  'app.retryAnalysis': 'Reintentar análisis',
+  'app.dismiss': 'Descartar',
+  'app.recordsAdded': '{count, plural, one {# registro añadido} other {# registros añadidos}}',
+  'app.duplicatesAdded': '{count, plural, one {# de ellos duplica un registro que ya estaba en el expediente y queda fuera de la síntesis.} other {# de ellos duplican registros que ya estaban en el expediente y quedan fuera de la síntesis.}} ',
+  'app.reportNotUpdated': 'El informe guardado aún no los incluye; vuelva a sintetizar para actualizarlo.',
+  'app.addRecords': 'Añadir registros',
+  'app.summary': 'Resumen',
+  'app.records': 'Registros',
+  'app.synthesize': 'Sintetizar historial',
+  'app.openReport': 'Abrir informe guardado',
+  'app.outdated': '(Desactualizado)',
+  'app.reportHistory': 'Historial de informes',
+  'app.reportHistoryCount': 'Historial de informes ({count})',
+  'app.exportDossier': 'Exportar expediente',
+  'app.backToRecords': 'Volver a los registros',
+};
+
+export const esTemplates: TemplateTranslations = {
+  clinical: {
+    name: 'Resumen clínico',
+    description: 'Síntesis extensa de todo el historial para profesionales sanitarios.',
+    title: 'Portafolio de caso clínico',
+    sections: {
+      history: 'Historia narrativa',
+      summary: 'Síntesis clínica',
+      prognosis: 'Observaciones clínicas',
+    },
+  },
+  patient: {
+    name: 'Resumen para el paciente',
+    description: 'Resumen en lenguaje sencillo para el paciente y su familia.',
+    title: 'Resumen de su salud',
+    sections: {
+      story: 'Su historia de salud',
+      results: 'Qué significan sus resultados',
+      questions: 'Preguntas para su médico',
+    },
+  },
+  referral: {
+    name: 'Carta de derivación',
+    description: 'Carta a un especialista sobre una enfermedad concreta.',
+    title: 'Derivación al especialista',
+    focus: { label: 'Enfermedad', placeholder: 'p. ej. Diabetes tipo 2' },
+    recipient: { label: 'Dirigida a', placeholder: 'p. ej. Dra. García, Endocrinología' },
+    sections: {
+      reason: 'Motivo de la derivación',
+      history: 'Antecedentes relevantes',
+      investigations: 'Pruebas realizadas',
+      treatment: 'Tratamiento hasta la fecha',
+      questions: 'Preguntas para el especialista',
+    },
+  },
+  claim: {
+    name: 'Cronología para reclamación',
+    description: 'Cronología objetiva y fechada para una reclamación de seguro o de incapacidad.',
+    title: 'Cronología médica para reclamación',
+    focus: { label: 'Enfermedad reclamada', placeholder: 'p. ej. Hernia discal lumbar' },
+    sections: {
+      chronology: 'Cronología de los hechos',
+      diagnoses: 'Diagnósticos y fecha de inicio',
+      impact: 'Repercusión funcional',
+      treatment: 'Tratamiento y situación actual',
+    },
+  },
+};
@@ -0,0 +1,392 @@
+import { GoogleGenAI } from "@google/genai";
+
+// Tasks the app sends to a model. Each one can be routed to its own model.
+export type AITask = 'metadata' | 'report';
+
+export type AIPart = { inlineData: { data: string; mimeType: string } } | { text: string };
+
+// Provider-neutral subset of JSON Schema used for structured responses.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  description?: string;
+}
+
+export interface GenerateJsonRequest {
+  task: AITask;
+  parts: AIPart[];
+  schema: JsonSchema;
+  signal?: AbortSignal;
+  // When set, the response is streamed and this receives the text received so far.
+  onText?: (text: string) => void;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  modelFor(task: AITask): string;
+  // Resolves with the raw JSON text produced by the model.
+  generateJson(request: GenerateJsonRequest): Promise<string>;
+}
+
+export type AIProviderKind = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+// What one request may carry and how many may be in flight; metadata batches
+// are planned against these.
+export interface RequestLimits {
+  // Encoded size of all attachments and text in one request.
+  maxRequestBytes: number;
+  // Images and PDF pages in one request.
+  maxPages: number;
+  // Records in one request.
+  maxFiles: number;
+  // Requests sent at the same time.
+  concurrency: number;
+}
+
+export interface AIConfig {
+  provider: AIProviderKind;
+  apiKey?: string;
+  baseUrl?: string;
+  models: Record<AITask, string>;
+  limits: RequestLimits;
+}
+
+export class AIProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
+
+// Rate limits, timeouts and server-side failures are worth another attempt;
+// auth and validation errors are not.
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUSES.has(status);
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(408|429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|Failed to fetch|NetworkError/i.test(message);
+};
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Runs `operation`, retrying retryable failures with jittered exponential backoff.
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { attempts = 5, baseDelayMs = 1000, maxDelayMs = 30000, signal, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= attempts || signal?.aborted || !isRetryableError(error)) throw error;
+      const delayMs = Math.round(Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2));
+      onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+const DEFAULT_MODELS: Record<AIProviderKind, Record<AITask, string>> = {
+  gemini: { metadata: 'gemini-3-flash-preview', report: 'gemini-3-pro-preview' },
+  openai: { metadata: 'gpt-4o-mini', report: 'gpt-4o' },
+  ollama: { metadata: 'llava', report: 'llama3.1' },
+  mock: { metadata: 'mock-metadata', report: 'mock-report' },
+};
+
+const MB = 1024 * 1024;
+
+// Below the documented request caps, leaving room for the prompt and schema.
+const DEFAULT_LIMITS: Record<AIProviderKind, RequestLimits> = {
+  gemini: { maxRequestBytes: 18 * MB, maxPages: 100, maxFiles: 10, concurrency: 3 },
+  openai: { maxRequestBytes: 18 * MB, maxPages: 50, maxFiles: 10, concurrency: 3 },
+  ollama: { maxRequestBytes: 32 * MB, maxPages: 8, maxFiles: 4, concurrency: 1 },
+  mock: { maxRequestBytes: 18 * MB, maxPages: 100, maxFiles: 10, concurrency: 3 },
+};
+
+const positiveNumber = (value: string | undefined): number | undefined => {
+  const number = Number(value);
+  return value && Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+const DEFAULT_BASE_URLS: Partial<Record<AIProviderKind, string>> = {
+  openai: 'https://api.openai.com/v1',
+  ollama: 'http://localhost:11434',
+};
+
+const isProviderKind = (value: string | undefined): value is AIProviderKind =>
+  value === 'gemini' || value === 'openai' || value === 'ollama' || value === 'mock';
+
+// Values are injected at build time by vite.config.ts.
+const configFromEnv = (): AIConfig => {
+  const provider = isProviderKind(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : 'gemini';
+  return {
+    provider,
+    apiKey: provider === 'gemini' ? process.env.API_KEY : process.env.AI_API_KEY,
+    baseUrl: process.env.AI_BASE_URL || DEFAULT_BASE_URLS[provider],
+    models: {
+      metadata: process.env.AI_MODEL_METADATA || DEFAULT_MODELS[provider].metadata,
+      report: process.env.AI_MODEL_REPORT || DEFAULT_MODELS[provider].report,
+    },
+    limits: {
+      maxRequestBytes: (positiveNumber(process.env.AI_MAX_REQUEST_MB) ?? DEFAULT_LIMITS[provider].maxRequestBytes / MB) * MB,
+      maxPages: Math.floor(positiveNumber(process.env.AI_MAX_PAGES_PER_REQUEST) ?? DEFAULT_LIMITS[provider].maxPages),
+      maxFiles: Math.floor(positiveNumber(process.env.AI_MAX_FILES_PER_REQUEST) ?? DEFAULT_LIMITS[provider].maxFiles),
+      concurrency: Math.floor(positiveNumber(process.env.AI_CONCURRENCY) ?? DEFAULT_LIMITS[provider].concurrency),
+    },
+  };
+};
+
+let configOverride: Partial<AIConfig> | null = null;
+
+export const configureAIProvider = (config: Partial<AIConfig> | null) => {
+  configOverride = config;
+};
+
+export const getAIConfig = (): AIConfig => {
+  const base = configFromEnv();
+  if (!configOverride) return base;
+  const provider = configOverride.provider || base.provider;
+  const switched = provider !== base.provider;
+  return {
+    ...base,
+    apiKey: switched ? undefined : base.apiKey,
+    baseUrl: switched ? DEFAULT_BASE_URLS[provider] : base.baseUrl,
+    ...configOverride,
+    provider,
+    models: { ...(switched ? DEFAULT_MODELS[provider] : base.models), ...configOverride.models },
+    limits: { ...(switched ? DEFAULT_LIMITS[provider] : base.limits), ...configOverride.limits },
+  };
+};
+
+const isTextPart = (part: AIPart): part is { text: string } => 'text' in part;
+
+const readErrorBody = async (response: Response): Promise<string> => {
+  try {
+    return (await response.text()).slice(0, 500);
+  } catch {
+    return '';
+  }
+};
+
+const post = async (providerName: string, url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const detail = await readErrorBody(response);
+    throw new AIProviderError(`${providerName} request failed (${response.status}): ${detail}`, response.status);
+  }
+  return response;
+};
+
+const postJson = async (providerName: string, url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) =>
+  (await post(providerName, url, body, headers, signal)).json();
+
+// Feeds each complete line of a streamed response body to `onLine`.
+const readLines = async (response: Response, onLine: (line: string) => void) => {
+  if (!response.body) throw new AIProviderError('The provider returned an empty stream.');
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop()!;
+    lines.forEach(line => line.trim() && onLine(line.trim()));
+  }
+  if (buffered.trim()) onLine(buffered.trim());
+};
+
+const createGeminiProvider = (config: AIConfig): AIProvider => ({
+  name: 'gemini',
+  modelFor: (task) => config.models[task],
+  generateJson: async ({ task, parts, schema, signal, onText }) => {
+    // Re-initialize Gemini client to pick up latest API key
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+    const request = {
+      model: config.models[task],
+      contents: { parts },
+      config: { responseMimeType: "application/json", responseJsonSchema: schema, abortSignal: signal }
+    };
+    if (!onText) {
+      const response = await ai.models.generateContent(request);
+      return response.text || '';
+    }
+
+    let text = '';
+    for await (const chunk of await ai.models.generateContentStream(request)) {
+      text += chunk.text || '';
+      onText(text);
+    }
+    return text;
+  }
+});
+
+// Works with OpenAI and any server exposing the same /chat/completions contract
+// (vLLM, LM Studio, LiteLLM, Azure-style gateways).
+const createOpenAIProvider = (config: AIConfig): AIProvider => ({
+  name: 'openai',
+  modelFor: (task) => config.models[task],
+  generateJson: async ({ task, parts, schema, signal, onText }) => {
+    const content = parts.map((part, index) => {
+      if (isTextPart(part)) return { type: 'text', text: part.text };
+      const dataUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      if (part.inlineData.mimeType.startsWith('image/')) {
+        return { type: 'image_url', image_url: { url: dataUrl } };
+      }
+      return { type: 'file', file: { filename: `attachment-${index}`, file_data: dataUrl } };
+    });
+
+    const body = {
+      model: config.models[task],
+      messages: [{ role: 'user', content }],
+      response_format: { type: 'json_schema', json_schema: { name: `${task}_response`, schema } },
+      stream: !!onText,
+    };
+    const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+    if (!onText) {
+      const data = await postJson('openai', `${config.baseUrl}/chat/completions`, body, headers, signal);
+      return data?.choices?.[0]?.message?.content || '';
+    }
+
+    // Server-sent events: one "data: {...}" line per delta, closed by "data: [DONE]"
+    let text = '';
+    await readLines(await post('openai', `${config.baseUrl}/chat/completions`, body, headers, signal), line => {
+      const data = line.replace(/^data:\s*/, '');
+      if (!line.startsWith('data:') || data === '[DONE]') return;
+      text += JSON.parse(data)?.choices?.[0]?.delta?.content || '';
+      onText(text);
+    });
+    return text;
+  }
+});
+
+// Targets a local Ollama-style server. Only images can be attached; other
+// binary parts are replaced with a note so the prompt still lines up.
+const createOllamaProvider = (config: AIConfig): AIProvider => ({
+  name: 'ollama',
+  modelFor: (task) => config.models[task],
+  generateJson: async ({ task, parts, schema, signal, onText }) => {
+    const textChunks: string[] = [];
+    const images: string[] = [];
+    parts.forEach(part => {
+      if (isTextPart(part)) {
+        textChunks.push(part.text);
+      } else if (part.inlineData.mimeType.startsWith('image/')) {
+        images.push(part.inlineData.data);
+      } else {
+        textChunks.push(`[Attachment of type ${part.inlineData.mimeType} omitted: not supported by this provider]`);
+      }
+    });
+
+    const body = {
+      model: config.models[task],
+      messages: [{ role: 'user', content: textChunks.join('\n\n'), images }],
+      format: schema,
+      stream: !!onText,
+    };
+    if (!onText) {
+      const data = await postJson('ollama', `${config.baseUrl}/api/chat`, body, {}, signal);
+      return data?.message?.content || '';
+    }
+
+    // Newline-delimited JSON, one message fragment per line
+    let text = '';
+    await readLines(await post('ollama', `${config.baseUrl}/api/chat`, body, {}, signal), line => {
+      text += JSON.parse(line)?.message?.content || '';
+      onText(text);
+    });
+    return text;
+  }
+});
+
+const mockValue = (schema: JsonSchema, key: string, attachments: number, index = 0): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, child]) => [name, mockValue(child, name, attachments, index)])
+      );
+    case 'array':
+      return Array.from({ length: Math.max(attachments, 1) }, (_, i) => mockValue(schema.items!, key, attachments, i));
+    case 'boolean':
+      return false;
+    case 'number':
+    case 'integer':
+      return 0;
+    default:
+      if (schema.enum?.length) return schema.enum[index % schema.enum.length];
+      if (key.toLowerCase().includes('date')) return new Date().toISOString().split('T')[0];
+      return `Mock ${key} generated locally without contacting a model.`;
+  }
+};
+
+export type MockResponder = (request: GenerateJsonRequest) => unknown;
+
+// In-process stand-in: produces schema-shaped placeholder data, or whatever the
+// supplied responder returns. Arrays get one entry per attached file, and enum
+// fields take the value at that entry's position.
+export const createMockProvider = (config: AIConfig, responder?: MockResponder): AIProvider => ({
+  name: 'mock',
+  modelFor: (task) => config.models[task],
+  generateJson: async (request) => {
+    if (request.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    // Each file is introduced by a "FILE <id>" line and may span several parts
+    const attachments = request.parts.filter(p => isTextPart(p) && p.text.startsWith('FILE ')).length;
+    const value = responder ? responder(request) : mockValue(request.schema, 'value', attachments);
+    const text = JSON.stringify(value);
+    if (request.onText) {
+      // Played back in small pieces so streaming views can be tried without a model
+      for (let end = 40; end < text.length; end += 40) {
+        request.onText(text.slice(0, end));
+        await sleep(50, request.signal);
+      }
+      request.onText(text);
+    }
+    return text;
+  }
+});
+
+export const getAIProvider = (): AIProvider => {
+  const config = getAIConfig();
+  switch (config.provider) {
+    case 'openai': return createOpenAIProvider(config);
+    case 'ollama': return createOllamaProvider(config);
+    case 'mock': return createMockProvider(config);
+    default: return createGeminiProvider(config);
+  }
+};
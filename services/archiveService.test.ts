@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PatientProfile, ProcessedDocument, ReportData } from "../types";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, ArchiveError, createDossierArchive, openDossierArchive, readDossierArchive, restoreDossierArchive } from "./archiveService";
+import { saveDocumentsToStorage, saveReportToStorage } from "./storageService";
+import { DEFAULT_REPORT_SETTINGS } from "./reportTemplateService";
+
+// Restoring writes to IndexedDB, which tests only need to observe.
+vi.mock("./storageService", () => ({
+  clearDocumentsStorage: vi.fn(async () => {}),
+  saveDocumentsToStorage: vi.fn(async () => {}),
+  saveReportVersion: vi.fn(async () => {}),
+  saveReportToStorage: vi.fn(async () => {})
+}));
+
+const profile: PatientProfile = { id: 'p1', name: 'Jane Doe', dob: '1970-05-01', gender: 'Female' };
+
+const makeDoc = (id: string, overrides: Partial<ProcessedDocument> = {}): ProcessedDocument => ({
+  id,
+  file: new File([`%PDF ${id}`], `${id}.pdf`, { type: 'application/pdf' }),
+  previewUrl: 'blob:preview',
+  date: '2023-03-01',
+  type: 'LAB',
+  summary: `Summary of ${id}`,
+  isDuplicate: false,
+  ...overrides
+});
+
+const documents = [makeDoc('a', { duplicateGroupId: 'a' }), makeDoc('b', { type: 'NOTE', duplicateGroupId: 'a', isDuplicate: true })];
+
+const report: ReportData = {
+  settings: DEFAULT_REPORT_SETTINGS,
+  sections: [{ key: 'summary', title: 'Summary', text: 'Stable.', paragraphs: [{ text: 'Stable.', sourceIds: ['a'] }] }],
+  version: { id: 'v1', generatedAt: '2024-01-01T00:00:00.000Z', provider: 'mock', model: 'mock-model', documentIds: ['a', 'b'] }
+};
+
+const toFile = (value: Blob | string) => new File([value], 'dossier.json', { type: 'application/json' });
+
+const exportDossier = async (password?: string) =>
+  readDossierArchive(toFile(await createDossierArchive(profile, documents, report, [report], password)));
+
+const rejectionKey = (promise: Promise<unknown>) =>
+  promise.then(() => null, (error: unknown) => error instanceof ArchiveError ? error.key : error);
+
+describe('dossier archives', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('round-trips a dossier without a password', async () => {
+    const archive = await exportDossier();
+    const manifest = await openDossierArchive(archive);
+
+    expect(archive.encrypted).toBe(false);
+    expect(manifest.profile).toEqual(profile);
+    expect(manifest.documents.map(doc => doc.id)).toEqual(['a', 'b']);
+    expect(manifest.documents[0]).not.toHaveProperty('previewUrl');
+    expect(manifest.reports).toHaveLength(1);
+  });
+
+  it('round-trips a dossier with a password', async () => {
+    const archive = await exportDossier('correct horse');
+    const manifest = await openDossierArchive(archive, 'correct horse');
+
+    expect(archive.encrypted).toBe(true);
+    expect(JSON.stringify(archive)).not.toContain('Jane Doe');
+    expect(manifest.profile).toEqual(profile);
+    expect(atob(manifest.documents[1].file.data)).toBe('%PDF b');
+  });
+
+  it('rejects a missing or wrong password', async () => {
+    const archive = await exportDossier('correct horse');
+
+    expect(await rejectionKey(openDossierArchive(archive))).toBe('importArchive.passwordRequired');
+    expect(await rejectionKey(openDossierArchive(archive, 'battery staple'))).toBe('importArchive.wrongPassword');
+  });
+
+  it('rejects archives from a newer version', async () => {
+    const file = toFile(JSON.stringify({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION + 1, encrypted: false, manifest: {} }));
+
+    const error = await readDossierArchive(file).catch((e: ArchiveError) => e);
+    expect(error).toBeInstanceOf(ArchiveError);
+    expect((error as ArchiveError).key).toBe('importArchive.newerVersion');
+    expect((error as ArchiveError).params).toEqual({ version: ARCHIVE_VERSION + 1 });
+  });
+
+  it('rejects files that are not archives', async () => {
+    expect(await rejectionKey(readDossierArchive(toFile('not json')))).toBe('importArchive.notArchive');
+    expect(await rejectionKey(readDossierArchive(toFile('[]')))).toBe('importArchive.notArchive');
+  });
+
+  it('rejects key derivation settings outside the expected bounds', async () => {
+    const archive = JSON.parse(JSON.stringify(await exportDossier('correct horse')));
+    const withKdf = (kdf: unknown) => readDossierArchive(toFile(JSON.stringify({ ...archive, kdf })));
+
+    expect(await rejectionKey(withKdf({ ...archive.kdf, iterations: 1 }))).toBe('importArchive.incomplete');
+    expect(await rejectionKey(withKdf({ ...archive.kdf, iterations: 1e12 }))).toBe('importArchive.incomplete');
+    expect(await rejectionKey(withKdf({ ...archive.kdf, iterations: 310000.5 }))).toBe('importArchive.incomplete');
+    expect(await rejectionKey(withKdf({ ...archive.kdf, salt: 42 }))).toBe('importArchive.incomplete');
+    expect(await rejectionKey(readDossierArchive(toFile(JSON.stringify({ ...archive, payload: 'x' }))))).toBe('importArchive.incomplete');
+  });
+
+  it('rejects malformed manifests', async () => {
+    const archive = JSON.parse(JSON.stringify(await exportDossier()));
+    const open = (manifest: unknown) => rejectionKey(openDossierArchive({ ...archive, manifest }));
+    const [first] = archive.manifest.documents;
+
+    expect(await open({ ...archive.manifest, profile: { ...profile, gender: 'Unknown' } })).toBe('importArchive.badProfile');
+    expect(await open({ ...archive.manifest, documents: undefined })).toBe('importArchive.noRecords');
+    expect(await open({ ...archive.manifest, documents: [first, first] })).toBe('importArchive.badId');
+    expect(await open({ ...archive.manifest, documents: [{ ...first, file: null }] })).toBe('importArchive.noFile');
+    expect(await open({ ...archive.manifest, documents: [{ ...first, pageRange: { start: 3, end: 1 } }] })).toBe('importArchive.badPageRange');
+    expect(await open({ ...archive.manifest, reports: [{ sections: [{ key: 'summary' }] }] })).toBe('importArchive.badReport');
+  });
+
+  it('gives imported records fresh ids and follows them in the reports', async () => {
+    const manifest = await openDossierArchive(await exportDossier());
+    const restored = await restoreDossierArchive(manifest, 'd2');
+
+    expect(restored).toEqual({ ...profile, id: 'd2' });
+    const saved = vi.mocked(saveDocumentsToStorage).mock.calls[0][1];
+    const [a, b] = saved;
+    expect(a.id).not.toBe('a');
+    expect(b.id).not.toBe('b');
+    expect(a.duplicateGroupId).toBe(a.id);
+    expect(b.duplicateGroupId).toBe(a.id);
+    expect(await a.file.text()).toBe('%PDF a');
+
+    const current = vi.mocked(saveReportToStorage).mock.calls[0][1];
+    expect(current.sections[0].paragraphs?.[0].sourceIds).toEqual([a.id]);
+    expect(current.version?.documentIds).toEqual([a.id, b.id]);
+    expect(current.version?.id).not.toBe('v1');
+  });
+});
@@ -0,0 +1,296 @@
+import { DocumentMetadata, LegacyReportData, PatientProfile, ProcessedDocument, ReportData } from "../types";
+import { MessageKey } from "../locales/en";
+import { EncodedPayload, PBKDF2_ITERATIONS, decodePayload, decryptJson, deriveKey, encodePayload, encryptJson, fromBase64, generateSalt, toBase64 } from "./cryptoService";
+import { TranslationParams, translate } from "./i18nService";
+import { upgradeReport } from "./reportTemplateService";
+import { clearDocumentsStorage, saveDocumentsToStorage, saveReportToStorage, saveReportVersion } from "./storageService";
+
+export const ARCHIVE_FORMAT = 'medichronicle-dossier';
+// Bump when the manifest shape changes; older archives must keep importing.
+// Version 2: reports are stored as template sections.
+export const ARCHIVE_VERSION = 2;
+
+const DOCUMENT_TYPES: ProcessedDocument['type'][] = ['LAB', 'IMAGING', 'PRESCRIPTION', 'NOTE', 'OTHER'];
+const GENDERS: PatientProfile['gender'][] = ['Male', 'Female', 'Other'];
+// Key derivation work an archive may ask for; anything outside is a damaged
+// or hostile file rather than a choice any version of this app made.
+const MIN_KDF_ITERATIONS = 100000;
+const MAX_KDF_ITERATIONS = 10000000;
+
+export interface ArchivedFile {
+  name: string;
+  type: string;
+  lastModified: number;
+  // Base64 of the original bytes.
+  data: string;
+}
+
+export interface ArchivedDocument extends DocumentMetadata {
+  file: ArchivedFile;
+  // Every page, `file` included, of a record grouped from several scans.
+  pageFiles?: ArchivedFile[];
+}
+
+export interface DossierManifest {
+  profile: PatientProfile;
+  documents: ArchivedDocument[];
+  // Report versions oldest first; the last one is the dossier's current report.
+  // Version 1 archives hold reports in the legacy three-field shape.
+  reports: (ReportData | LegacyReportData)[];
+}
+
+interface ArchiveHeader {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+}
+
+interface PlainArchive extends ArchiveHeader {
+  encrypted: false;
+  manifest: DossierManifest;
+}
+
+interface EncryptedArchive extends ArchiveHeader {
+  encrypted: true;
+  kdf: { salt: string; iterations: number };
+  payload: EncodedPayload;
+}
+
+export type DossierArchive = PlainArchive | EncryptedArchive;
+
+// Carries a message key so the import dialog can show it in the interface language.
+export class ArchiveError extends Error {
+  key: MessageKey;
+  params?: TranslationParams;
+
+  constructor(key: MessageKey, params?: TranslationParams) {
+    super(translate('en', key, params));
+    this.name = 'ArchiveError';
+    this.key = key;
+    this.params = params;
+  }
+}
+
+const toArchivedFile = async (file: File): Promise<ArchivedFile> =>
+  ({ name: file.name, type: file.type, lastModified: file.lastModified, data: toBase64(await file.arrayBuffer()) });
+
+const toArchivedDocument = async (doc: ProcessedDocument): Promise<ArchivedDocument> => {
+  const { file, previewUrl, originalIndex, pageFiles, ...meta } = doc;
+  return {
+    ...meta,
+    file: await toArchivedFile(file),
+    pageFiles: pageFiles && await Promise.all(pageFiles.map(toArchivedFile))
+  };
+};
+
+export const createDossierArchive = async (
+  profile: PatientProfile,
+  documents: ProcessedDocument[],
+  report: ReportData | null,
+  reportHistory: ReportData[],
+  password?: string
+): Promise<Blob> => {
+  const manifest: DossierManifest = {
+    profile,
+    documents: await Promise.all(documents.map(toArchivedDocument)),
+    reports: [
+      ...reportHistory.filter(version => version.version?.id !== report?.version?.id),
+      ...(report ? [report] : [])
+    ]
+  };
+  const header: ArchiveHeader = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: new Date().toISOString() };
+
+  let archive: DossierArchive;
+  if (password) {
+    const salt = generateSalt();
+    const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+    archive = {
+      ...header,
+      encrypted: true,
+      kdf: { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS },
+      payload: encodePayload(await encryptJson(key, manifest))
+    };
+  } else {
+    archive = { ...header, encrypted: false, manifest };
+  }
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => (values as readonly unknown[]).includes(value);
+
+const isEncryptedArchive = (archive: UnknownRecord): archive is UnknownRecord & EncryptedArchive => {
+  const { kdf, payload } = archive;
+  return archive.encrypted === true
+    && isRecord(kdf) && isString(kdf.salt)
+    && isInteger(kdf.iterations) && kdf.iterations >= MIN_KDF_ITERATIONS && kdf.iterations <= MAX_KDF_ITERATIONS
+    && isRecord(payload) && isString(payload.iv) && isString(payload.data);
+};
+
+// The manifest itself is checked once it is opened, after any decryption.
+const isPlainArchive = (archive: UnknownRecord): archive is UnknownRecord & PlainArchive =>
+  archive.encrypted === false && isRecord(archive.manifest);
+
+export const readDossierArchive = async (file: File): Promise<DossierArchive> => {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch {
+    throw new ArchiveError('importArchive.notArchive');
+  }
+  if (!isRecord(archive) || archive.format !== ARCHIVE_FORMAT || typeof archive.version !== 'number') {
+    throw new ArchiveError('importArchive.notArchive');
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new ArchiveError('importArchive.newerVersion', { version: archive.version });
+  }
+  if (!isEncryptedArchive(archive) && !isPlainArchive(archive)) {
+    throw new ArchiveError('importArchive.incomplete');
+  }
+  return archive;
+};
+
+const isArchivedFile = (value: unknown) => isRecord(value) && isString(value.name) && isString(value.data);
+
+// Archives written before report templates carry the three classic sections as fields
+const hasReportSections = (report: UnknownRecord) => Array.isArray(report.sections)
+  ? report.sections.every((s: unknown) => isRecord(s) && isString(s.key) && isString(s.title) && isString(s.text))
+  : isString(report.history) && isString(report.summary) && isString(report.prognosis);
+
+// Returns the first problem found, or null for a usable manifest.
+const findManifestProblem = (manifest: unknown): ArchiveError | null => {
+  const profile = isRecord(manifest) ? manifest.profile : undefined;
+  if (!isRecord(profile) || !isString(profile.id) || !isString(profile.name) || !isString(profile.dob) || !isOneOf(GENDERS, profile.gender)) {
+    return new ArchiveError('importArchive.badProfile');
+  }
+  const documents: unknown = isRecord(manifest) ? manifest.documents : undefined;
+  const reports: unknown = isRecord(manifest) ? manifest.reports : undefined;
+  if (!Array.isArray(documents) || !Array.isArray(reports)) {
+    return new ArchiveError('importArchive.noRecords');
+  }
+
+  const ids = new Set<string>();
+  for (const [i, doc] of (documents as unknown[]).entries()) {
+    const record = { record: i + 1 };
+    if (!isRecord(doc) || !isString(doc.id) || ids.has(doc.id)) return new ArchiveError('importArchive.badId', record);
+    ids.add(doc.id);
+    if (!isOneOf(DOCUMENT_TYPES, doc.type)) return new ArchiveError('importArchive.badType', record);
+    if (doc.date !== null && !isString(doc.date)) return new ArchiveError('importArchive.badDate', record);
+    if (!isString(doc.summary) || typeof doc.isDuplicate !== 'boolean') return new ArchiveError('importArchive.noSummary', record);
+    if (!isArchivedFile(doc.file)) return new ArchiveError('importArchive.noFile', record);
+    if (doc.pageFiles !== undefined && !(Array.isArray(doc.pageFiles) && doc.pageFiles.every(isArchivedFile))) {
+      return new ArchiveError('importArchive.badPage', record);
+    }
+    const range = doc.pageRange;
+    if (range !== undefined && !(isRecord(range) && isInteger(range.start) && typeof range.end === 'number' && range.end >= range.start)) {
+      return new ArchiveError('importArchive.badPageRange', record);
+    }
+  }
+
+  for (const report of reports as unknown[]) {
+    if (!isRecord(report) || !hasReportSections(report)) {
+      return new ArchiveError('importArchive.badReport');
+    }
+    const version = report.version;
+    if (version !== undefined && !(isRecord(version) && isString(version.id) && isString(version.generatedAt) && Array.isArray(version.documentIds))) {
+      return new ArchiveError('importArchive.badReportVersion');
+    }
+  }
+  return null;
+};
+
+// Decrypts (when needed) and validates the archive contents.
+export const openDossierArchive = async (archive: DossierArchive, password?: string): Promise<DossierManifest> => {
+  let manifest: DossierManifest;
+  if (archive.encrypted === false) {
+    manifest = archive.manifest;
+  } else {
+    if (!password) throw new ArchiveError('importArchive.passwordRequired');
+    const key = await deriveKey(password, fromBase64(archive.kdf.salt), archive.kdf.iterations);
+    try {
+      manifest = await decryptJson<DossierManifest>(key, decodePayload(archive.payload));
+    } catch {
+      throw new ArchiveError('importArchive.wrongPassword');
+    }
+  }
+
+  const problem = findManifestProblem(manifest);
+  if (problem) throw problem;
+  return manifest;
+};
+
+// An existing dossier the archive would collide with: the same dossier id, or
+// a different dossier for the same person (name and date of birth).
+export const findArchiveConflict = (manifest: DossierManifest, dossiers: PatientProfile[]): PatientProfile | null => {
+  const name = manifest.profile.name.trim().toLowerCase();
+  return dossiers.find(d => d.id === manifest.profile.id)
+    || dossiers.find(d => d.name.trim().toLowerCase() === name && d.dob === manifest.profile.dob)
+    || null;
+};
+
+const createDocumentId = () => Math.random().toString(36).substring(2, 9);
+
+// Imported records get fresh ids so they can never overwrite records of
+// another dossier on this device. References inside the reports follow, and
+// report versions are renumbered the same way.
+const remapIds = (manifest: DossierManifest) => {
+  const ids = new Map(manifest.documents.map(doc => [doc.id, createDocumentId()]));
+  const remap = (id: string) => ids.get(id) || id;
+  const versionIds = new Map<string, string>();
+  const remapVersion = (id: string) => {
+    if (!versionIds.has(id)) versionIds.set(id, createDocumentId());
+    return versionIds.get(id)!;
+  };
+
+  const documents = manifest.documents.map(doc => ({
+    ...doc,
+    id: remap(doc.id),
+    duplicateGroupId: doc.duplicateGroupId && remap(doc.duplicateGroupId)
+  }));
+
+  const reports = manifest.reports.map(upgradeReport).map(report => ({
+    ...report,
+    sections: report.sections.map(section => ({
+      ...section,
+      paragraphs: section.paragraphs?.map(p => ({ ...p, sourceIds: p.sourceIds.map(remap) }))
+    })),
+    medications: report.medications?.map(m => ({ ...m, documentIds: m.documentIds.map(remap) })),
+    version: report.version && {
+      ...report.version,
+      id: remapVersion(report.version.id),
+      documentIds: report.version.documentIds.map(remap)
+    }
+  }));
+
+  return { documents, reports };
+};
+
+const toFile = ({ name, type, lastModified, data }: ArchivedFile) =>
+  new File([fromBase64(data)], name, { type, lastModified });
+
+// Writes the archive into `dossierId`, replacing anything stored there, and
+// returns the profile to add to the dossier list.
+export const restoreDossierArchive = async (manifest: DossierManifest, dossierId: string): Promise<PatientProfile> => {
+  const { documents, reports } = remapIds(manifest);
+  // Preview URLs are recreated when the dossier is opened
+  const restored: ProcessedDocument[] = documents.map(({ pageFiles, ...doc }) => {
+    const pages = pageFiles?.map(toFile);
+    // The first page and `file` are the same file once restored
+    return { ...doc, file: pages?.[0] || toFile(doc.file), pageFiles: pages, previewUrl: '' };
+  });
+
+  await clearDocumentsStorage(dossierId);
+  await saveDocumentsToStorage(dossierId, restored);
+  for (const report of reports) {
+    if (report.version) await saveReportVersion(dossierId, report);
+  }
+  const current = reports[reports.length - 1];
+  if (current) await saveReportToStorage(dossierId, current);
+
+  return { ...manifest.profile, id: dossierId };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { RequestLimits } from "./aiProvider";
+import { FileProfile, PlannedEntry, base64Size, packBatches, planRecord } from "./batchPlanService";
+
+// Matches the room batchPlanService keeps for the prompt.
+const OVERHEAD = 32 * 1024;
+const RENDERED_PAGE = base64Size(350 * 1024);
+
+const limits = (overrides: Partial<RequestLimits> = {}): RequestLimits =>
+  ({ maxRequestBytes: OVERHEAD + 1000, maxPages: 3, maxFiles: 2, concurrency: 1, ...overrides });
+
+const entry = (bytes: number, pages = 0): PlannedEntry => ({ indices: [0], send: {}, estimate: { bytes, pages } });
+
+const image = (bytes: number): FileProfile => ({
+  file: new File([new Uint8Array(bytes)], 'scan.jpg', { type: 'image/jpeg' }),
+  text: null,
+  pageCount: 1,
+  redacted: false
+});
+
+const pdf = (pageCount: number): FileProfile => ({
+  file: new File(['%PDF'], 'record.pdf', { type: 'application/pdf' }),
+  text: null,
+  pageCount,
+  redacted: false
+});
+
+describe('packBatches', () => {
+  it('starts a new batch when the bytes would exceed the request size', () => {
+    const entries = [entry(600), entry(600), entry(300)];
+
+    expect(packBatches(entries, limits())).toEqual([[entries[0]], [entries[1], entries[2]]]);
+  });
+
+  it('starts a new batch when the pages would exceed the page limit', () => {
+    const entries = [entry(10, 2), entry(10, 2), entry(10, 1)];
+
+    expect(packBatches(entries, limits())).toEqual([[entries[0]], [entries[1], entries[2]]]);
+  });
+
+  it('holds at most the file limit per batch', () => {
+    const entries = [entry(10), entry(10), entry(10)];
+
+    expect(packBatches(entries, limits())).toEqual([[entries[0], entries[1]], [entries[2]]]);
+  });
+
+  it('gives a record larger than one batch a batch of its own', () => {
+    const entries = [entry(10), entry(5000), entry(10)];
+
+    expect(packBatches(entries, limits())).toEqual([[entries[0]], [entries[1]], [entries[2]]]);
+  });
+});
+
+describe('planRecord', () => {
+  it('sends a record that fits as it is', () => {
+    expect(planRecord([0], [image(100)], limits())).toEqual([
+      { indices: [0], send: {}, estimate: { bytes: base64Size(100), pages: 1 } }
+    ]);
+  });
+
+  it('downsamples an image until it fits', () => {
+    const [planned] = planRecord([0], [image(1024 * 1024)], limits({ maxRequestBytes: OVERHEAD + 400 * 1024 }));
+
+    expect(planned.send).toEqual({ scale: 0.75 });
+  });
+
+  it('sends an image too large at every scale at its smallest', () => {
+    expect(planRecord([0], [image(1024 * 1024)], limits()).map(p => p.send)).toEqual([{ scale: 0.5 }]);
+  });
+
+  it('splits a PDF over the page limit into consecutive page ranges', () => {
+    const planned = planRecord([0], [pdf(10)], limits({ maxRequestBytes: OVERHEAD + 2 * RENDERED_PAGE, maxPages: 4 }));
+
+    expect(planned.map(p => p.send.range)).toEqual([
+      { start: 1, end: 2 }, { start: 3, end: 4 }, { start: 5, end: 6 }, { start: 7, end: 8 }, { start: 9, end: 10 }
+    ]);
+    expect(planned.every(p => p.estimate.pages === 2)).toBe(true);
+  });
+
+  it('splits by the page limit when pages are small enough', () => {
+    const planned = planRecord([0], [pdf(5)], limits({ maxRequestBytes: OVERHEAD + 10 * RENDERED_PAGE, maxPages: 2 }));
+
+    expect(planned.map(p => p.send.range)).toEqual([{ start: 1, end: 2 }, { start: 3, end: 4 }, { start: 5, end: 5 }]);
+  });
+
+  it('plans the pages of a grouped record together', () => {
+    const planned = planRecord([0, 1], [image(100), image(200)], limits());
+
+    expect(planned).toEqual([{ indices: [0, 1], send: {}, estimate: { bytes: base64Size(100) + base64Size(200), pages: 2 } }]);
+  });
+});
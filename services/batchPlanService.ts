@@ -0,0 +1,128 @@
+import { PageRange } from "../types";
+import { RequestLimits } from "./aiProvider";
+import { ExtractedText, pagesWithoutText } from "./textService";
+import { isPdfFile } from "./pdfService";
+import { isWordFile } from "./wordDocumentService";
+
+// Rough encoded sizes of what is sent, so batches can be planned before
+// anything is encoded: a photo as a JPEG of at most 1000x1400 pixels, and a
+// PDF page rendered as a JPEG 1400 pixels high.
+const SENT_IMAGE_BYTES = 400 * 1024;
+const RENDERED_PAGE_BYTES = 350 * 1024;
+// Room left in every request for the prompt, the schema and the FILE lines.
+const PROMPT_OVERHEAD_BYTES = 32 * 1024;
+// Downsampling steps tried on a record too large for one request.
+const DOWNSAMPLE_SCALES = [1, 0.75, 0.5];
+
+export const base64Size = (bytes: number) => Math.ceil(bytes / 3) * 4;
+
+const textSize = (text: string) => new TextEncoder().encode(text).length;
+
+// How a file is shrunk to fit in a request.
+export interface SendOptions {
+  // Images and rendered pages are downsampled by this factor.
+  scale?: number;
+  // Only these pages of a PDF are sent.
+  range?: PageRange;
+  // A PDF is sent as its text, or as rendered pages, instead of the original file.
+  rasterize?: boolean;
+}
+
+export interface FileProfile {
+  file: File;
+  text: ExtractedText | null;
+  // Pages of a PDF; 1 for every other file.
+  pageCount: number;
+  redacted: boolean;
+}
+
+export interface PayloadEstimate {
+  // Encoded size, as base64 for attachments.
+  bytes: number;
+  // Images and PDF pages.
+  pages: number;
+}
+
+// Mirrors the choices prepareFileParts makes for the same options.
+export const estimatePayload = ({ file, text, pageCount, redacted }: FileProfile, send: SendOptions = {}): PayloadEstimate => {
+  const area = (send.scale ?? 1) ** 2;
+  if (isWordFile(file)) return { bytes: text ? textSize(text.text) : file.size, pages: 0 };
+  if (isPdfFile(file)) {
+    const range = send.range || { start: 1, end: pageCount };
+    const pages = range.end - range.start + 1;
+    if (!redacted && !send.range && !send.rasterize) return { bytes: base64Size(file.size), pages };
+    if (text) {
+      const sent = send.range && text.pages ? text.pages.slice(range.start - 1, range.end).join('\n\n') : text.text;
+      // Pages without a text layer go as rendered images
+      const scanned = pagesWithoutText(text, send.range).length;
+      return { bytes: textSize(sent) + Math.round(base64Size(RENDERED_PAGE_BYTES) * area) * scanned, pages: scanned };
+    }
+    return { bytes: Math.round(base64Size(RENDERED_PAGE_BYTES) * area) * pages, pages };
+  }
+  return { bytes: Math.round(Math.min(base64Size(file.size), base64Size(SENT_IMAGE_BYTES)) * area), pages: 1 };
+};
+
+const sumEstimates = (estimates: PayloadEstimate[]): PayloadEstimate =>
+  estimates.reduce((sum, e) => ({ bytes: sum.bytes + e.bytes, pages: sum.pages + e.pages }), { bytes: 0, pages: 0 });
+
+const fits = (estimate: PayloadEstimate, limits: RequestLimits) =>
+  estimate.bytes <= limits.maxRequestBytes - PROMPT_OVERHEAD_BYTES && estimate.pages <= limits.maxPages;
+
+export interface PlannedEntry {
+  // Files of the record: one, or the pages grouped from several scans.
+  indices: number[];
+  send: SendOptions;
+  estimate: PayloadEstimate;
+}
+
+// Splits a PDF into consecutive page ranges that each fit in a request.
+const splitPages = (index: number, profile: FileProfile, limits: RequestLimits): PlannedEntry[] => {
+  const chunks: PlannedEntry[] = [];
+  for (let page = 1; page <= profile.pageCount; page++) {
+    const last = chunks[chunks.length - 1];
+    if (last) {
+      const range = { start: last.send.range!.start, end: page };
+      const estimate = estimatePayload(profile, { range });
+      if (fits(estimate, limits)) {
+        chunks[chunks.length - 1] = { ...last, send: { range }, estimate };
+        continue;
+      }
+    }
+    const range = { start: page, end: page };
+    chunks.push({ indices: [index], send: { range }, estimate: estimatePayload(profile, { range }) });
+  }
+  return chunks;
+};
+
+// The requests one record needs. A record too large for a single request is
+// shrunk step by step: PDFs are sent as text or rendered pages, images and
+// pages are downsampled, and a PDF still too large is split into page ranges.
+// Whatever cannot be shrunk further is sent at its smallest and left to the provider.
+export const planRecord = (indices: number[], profiles: FileProfile[], limits: RequestLimits): PlannedEntry[] => {
+  const estimateWith = (send: SendOptions) => sumEstimates(indices.map(index => estimatePayload(profiles[index], send)));
+  const asIs = estimateWith({});
+  if (fits(asIs, limits)) return [{ indices, send: {}, estimate: asIs }];
+
+  const pdf = indices.length === 1 && isPdfFile(profiles[indices[0]].file) ? profiles[indices[0]] : null;
+  let smallest: PlannedEntry | null = null;
+  for (const scale of DOWNSAMPLE_SCALES) {
+    const send: SendOptions = pdf ? { rasterize: true, scale } : { scale };
+    smallest = { indices, send, estimate: estimateWith(send) };
+    if (fits(smallest.estimate, limits)) return [smallest];
+  }
+  return pdf && pdf.pageCount > 1 ? splitPages(indices[0], pdf, limits) : [smallest!];
+};
+
+// Packs entries, in order, into batches within the request limits.
+export const packBatches = (entries: PlannedEntry[], limits: RequestLimits): PlannedEntry[][] => {
+  const batches: PlannedEntry[][] = [];
+  entries.forEach(entry => {
+    const last = batches[batches.length - 1];
+    if (last && last.length < limits.maxFiles && fits(sumEstimates([...last, entry].map(e => e.estimate)), limits)) {
+      last.push(entry);
+    } else {
+      batches.push([entry]);
+    }
+  });
+  return batches;
+};
@@ -0,0 +1,29 @@
+import { CitedParagraph, ProcessedDocument } from "../types";
+
+// Reference numbers follow the chronological order of the master document
+// index, so the same number points to the same record on screen and in exports.
+export const buildReferenceNumbers = (sortedDocs: ProcessedDocument[]): Map<string, number> =>
+  new Map(sortedDocs.map((doc, index) => [doc.id, index + 1]));
+
+export const getReferenceNumbers = (sourceIds: string[], references: Map<string, number>): number[] =>
+  Array.from(new Set(sourceIds.map(id => references.get(id)).filter((n): n is number => n !== undefined)))
+    .sort((a, b) => a - b);
+
+export const formatReferenceList = (sourceIds: string[], references: Map<string, number>): string => {
+  const numbers = getReferenceNumbers(sourceIds, references);
+  return numbers.length > 0 ? `[${numbers.join(', ')}]` : '';
+};
+
+// Converts the model's paragraphs, which cite short labels like "R3", into
+// paragraphs citing document ids. Unknown labels are dropped.
+export const resolveCitedParagraphs = (paragraphs: unknown, labels: Map<string, string>): CitedParagraph[] | null => {
+  if (!Array.isArray(paragraphs)) return null;
+  return paragraphs
+    .filter(p => typeof p?.text === 'string' && p.text.trim())
+    .map(p => ({
+      text: p.text.trim(),
+      sourceIds: (Array.isArray(p.sources) ? p.sources : [])
+        .map((label: unknown) => labels.get(String(label).replace(/[\[\]\s]/g, '').toUpperCase()))
+        .filter((id: string | undefined): id is string => !!id)
+    }));
+};
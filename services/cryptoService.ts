@@ -0,0 +1,69 @@
+// WebCrypto primitives for vault mode: PBKDF2 key derivation and AES-GCM.
+
+export const PBKDF2_ITERATIONS = 310000;
+
+export interface EncryptedPayload {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+// String form used where only text can be stored (localStorage).
+export interface EncodedPayload {
+  iv: string;
+  data: string;
+}
+
+export const generateSalt = (): Uint8Array<ArrayBuffer> => crypto.getRandomValues(new Uint8Array(16));
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptBytes = async (key: CryptoKey, bytes: ArrayBuffer | Uint8Array<ArrayBuffer>): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv, data };
+};
+
+// Rejects with an OperationError when the key is wrong or the data was altered.
+export const decryptBytes = (key: CryptoKey, payload: EncryptedPayload): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.data);
+
+export const encryptJson = (key: CryptoKey, value: unknown): Promise<EncryptedPayload> =>
+  encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await decryptBytes(key, payload)));
+
+export const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const encodePayload = (payload: EncryptedPayload): EncodedPayload => ({
+  iv: toBase64(payload.iv),
+  data: toBase64(payload.data),
+});
+
+export const decodePayload = (encoded: EncodedPayload): EncryptedPayload => ({
+  iv: fromBase64(encoded.iv),
+  data: fromBase64(encoded.data).buffer,
+});
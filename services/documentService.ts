@@ -0,0 +1,36 @@
+import { DocumentCorrections, EditableDocumentField, FieldSource, ProcessedDocument } from "../types";
+
+export const EDITABLE_FIELDS: EditableDocumentField[] = ['date', 'type', 'summary', 'isDuplicate', 'labResults', 'medications'];
+
+// Lab values and medications are lists rebuilt by the editor, so they compare by content.
+const isSameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const getFieldSource = (doc: ProcessedDocument, field: EditableDocumentField): FieldSource =>
+  doc.corrections && field in doc.corrections ? 'human' : 'ai';
+
+// Returns the document with human corrections applied on top of AI values.
+export const resolveDocument = (doc: ProcessedDocument): ProcessedDocument => {
+  if (!doc.corrections) return doc;
+  return { ...doc, ...doc.corrections };
+};
+
+// Merges edits into the document's corrections. Values equal to what the model
+// produced are dropped so the field is reported as AI-sourced again.
+export const applyCorrections = (doc: ProcessedDocument, edits: DocumentCorrections): ProcessedDocument => {
+  const corrections: DocumentCorrections = { ...doc.corrections };
+  EDITABLE_FIELDS.forEach(field => {
+    if (!(field in edits)) return;
+    if (isSameValue(edits[field], doc[field])) {
+      delete corrections[field];
+    } else {
+      (corrections as Record<string, unknown>)[field] = edits[field];
+    }
+  });
+  return { ...doc, corrections: Object.keys(corrections).length > 0 ? corrections : undefined };
+};
+
+export const revertCorrection = (doc: ProcessedDocument, field: EditableDocumentField): ProcessedDocument => {
+  if (!doc.corrections || !(field in doc.corrections)) return doc;
+  const { [field]: _, ...rest } = doc.corrections;
+  return { ...doc, corrections: Object.keys(rest).length > 0 ? rest : undefined };
+};
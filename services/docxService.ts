@@ -0,0 +1,292 @@
+import {
+  AlignmentType, BorderStyle, Document, HeadingLevel, ImageRun, Packer, Paragraph, ShadingType,
+  Table, TableCell, TableRow, TextRun, WidthType
+} from "docx";
+import { Buffer } from "buffer";
+import { CitedParagraph, MedicationCourse, ProcessedDocument, ReportData } from "../types";
+import { MessageKey } from "../locales/en";
+import { LabHistoryRow } from "./labService";
+import { formatRegimen } from "./medicationService";
+import { buildReferenceNumbers, formatReferenceList } from "./citationService";
+import { getReportTemplate, sectionNumeral } from "./reportTemplateService";
+import { canvasToJpeg, isPdfFile, renderPdfPages } from "./pdfService";
+import { TextBlock, extractWordBlocks, isWordFile } from "./wordDocumentService";
+import { LanguageInfo, TranslationParams, getLanguage, isRtlText, translate } from "./i18nService";
+import { loadExportFont } from "./exportFontService";
+import { getDocumentPages } from "./pageGroupService";
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const ACCENT = '0284C7';
+const MUTED = '64748B';
+const BORDER = 'E2E8F0';
+const HEADER_FILL = 'F8FAFC';
+const ALERT = 'E11D48';
+
+// Usable area of an A4 page with the default 1" margins, in pixels at 96 dpi.
+const MAX_IMAGE_WIDTH = 600;
+const MAX_IMAGE_HEIGHT = 820;
+// Longest edge of the re-encoded image; keeps the file size reasonable.
+const MAX_IMAGE_EDGE = 1600;
+
+export interface WordPortfolioInput {
+  patientName?: string;
+  report: ReportData;
+  // Resolved documents in master index order.
+  sortedDocs: ProcessedDocument[];
+  labHistory: LabHistoryRow[];
+  medications: MedicationCourse[];
+}
+
+interface PreparedImage {
+  data: ArrayBuffer;
+  width: number;
+  height: number;
+}
+
+// Re-encodes any browser-decodable image as JPEG so formats Word cannot embed
+// (WebP, HEIC after decoding) still make it into the appendix.
+const prepareImage = async (file: File): Promise<PreparedImage> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_EDGE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return { data: await canvasToJpeg(canvas), width: canvas.width, height: canvas.height };
+};
+
+const fitImage = ({ width, height }: PreparedImage) => {
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / width, MAX_IMAGE_HEIGHT / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const cellBorders = {
+  top: { style: BorderStyle.SINGLE, size: 4, color: BORDER },
+  bottom: { style: BorderStyle.SINGLE, size: 4, color: BORDER },
+  left: { style: BorderStyle.SINGLE, size: 4, color: BORDER },
+  right: { style: BorderStyle.SINGLE, size: 4, color: BORDER },
+};
+
+const cell = (text: string, rtl: boolean, options: { bold?: boolean; color?: string; header?: boolean } = {}) => new TableCell({
+  borders: cellBorders,
+  shading: options.header ? { type: ShadingType.CLEAR, color: 'auto', fill: HEADER_FILL } : undefined,
+  margins: { top: 80, bottom: 80, left: 100, right: 100 },
+  children: [new Paragraph({
+    bidirectional: rtl,
+    children: [new TextRun({ text, bold: options.bold || options.header, color: options.color, size: options.header ? 18 : 17 })]
+  })],
+});
+
+// A native Word table; the header row repeats on every page it spans.
+const table = (headers: string[], rows: TableCell[][], rtl: boolean) => new Table({
+  width: { size: 100, type: WidthType.PERCENTAGE },
+  visuallyRightToLeft: rtl,
+  rows: [
+    new TableRow({ tableHeader: true, children: headers.map(h => cell(h, rtl, { header: true })) }),
+    ...rows.map(children => new TableRow({ children, cantSplit: true })),
+  ],
+});
+
+const heading = (text: string, rtl: boolean, pageBreakBefore = false) =>
+  new Paragraph({ text, heading: HeadingLevel.HEADING_1, bidirectional: rtl, pageBreakBefore });
+
+const sectionParagraphs = (content: string, references: Map<string, number>, rtl: boolean, paragraphs?: CitedParagraph[]) => {
+  if (!paragraphs) {
+    return content.split(/\n+/).filter(Boolean).map(text => new Paragraph({ bidirectional: rtl, children: [new TextRun(text)] }));
+  }
+  return paragraphs.map(p => {
+    const refs = formatReferenceList(p.sourceIds, references);
+    return new Paragraph({
+      bidirectional: rtl,
+      children: [
+        new TextRun(p.text),
+        ...(refs ? [new TextRun({ text: ` ${refs}`, superScript: true, color: ACCENT })] : []),
+      ]
+    });
+  });
+};
+
+const imageParagraph = (image: PreparedImage, name: string, description: string, title: string) => new Paragraph({
+  alignment: AlignmentType.CENTER,
+  children: [new ImageRun({
+    type: 'jpg',
+    data: image.data,
+    transformation: fitImage(image),
+    altText: { name, description, title },
+  })]
+});
+
+const HEADING_LEVELS = [HeadingLevel.HEADING_3, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6, HeadingLevel.HEADING_6];
+
+// Word source content is re-typeset below the record heading, one level down.
+// It keeps its own direction, whatever the language of the portfolio.
+const wordBlockParagraph = (block: TextBlock) => {
+  const rtl = isRtlText(block.runs.map(run => run.text).join(''));
+  const children = block.runs.map(run => new TextRun({ text: run.text.replace(/\n/g, ' '), bold: run.bold, italics: run.italic, rightToLeft: rtl }));
+  if (block.kind === 'heading') return new Paragraph({ heading: HEADING_LEVELS[block.level - 1], bidirectional: rtl, children });
+  if (block.kind === 'listItem') return new Paragraph({ bullet: { level: Math.min(block.level, 8) }, bidirectional: rtl, children });
+  return new Paragraph({ bidirectional: rtl, children });
+};
+
+const placeholder = (text: string) => new Paragraph({
+  alignment: AlignmentType.CENTER,
+  children: [new TextRun({ text: `[${text}]`, color: MUTED })]
+});
+
+const appendixEntry = async (doc: ProcessedDocument, index: number, language: LanguageInfo) => {
+  const tr = (key: MessageKey, params?: TranslationParams) => translate(language.id, key, params);
+  const record = tr('export.record', { number: index + 1, type: tr(`docType.${doc.type}`) });
+  const fileLabel = doc.pageRange
+    ? tr('export.filePages', { file: doc.file.name, start: doc.pageRange.start, end: doc.pageRange.end })
+    : doc.file.name;
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({ text: record, heading: HeadingLevel.HEADING_2, bidirectional: language.rtl, pageBreakBefore: index > 0 }),
+    new Paragraph({
+      bidirectional: language.rtl,
+      children: [new TextRun({ text: tr('export.recordDetails', { date: doc.date || tr('common.notAvailable'), file: fileLabel }), size: 16, color: MUTED })]
+    }),
+    new Paragraph({ bidirectional: isRtlText(doc.summary), children: [new TextRun({ text: doc.summary, italics: true, color: ACCENT })] }),
+  ];
+
+  if (doc.file.type.startsWith('image/')) {
+    // Scans grouped into one record follow each other, one page each
+    const pages = getDocumentPages(doc);
+    for (const [p, page] of pages.entries()) {
+      if (p > 0) children.push(new Paragraph({ pageBreakBefore: true, children: [] }));
+      const pageLabel = pages.length > 1 ? tr('export.pageOf', { page: p + 1, total: pages.length }) : null;
+      try {
+        const image = await prepareImage(page);
+        children.push(imageParagraph(image, page.name, doc.summary, pageLabel ? `${record}, ${pageLabel}` : record));
+      } catch (e) {
+        children.push(placeholder(tr('export.imageFailed')));
+      }
+    }
+  } else if (isPdfFile(doc.file)) {
+    try {
+      // Each original page becomes a full-width image on its own page; an
+      // encounter split from a compound PDF only has its own pages
+      const pages = await renderPdfPages(doc.file, undefined, undefined, doc.pageRange);
+      pages.forEach((page, p) => {
+        if (p > 0) children.push(new Paragraph({ pageBreakBefore: true, children: [] }));
+        const pageLabel = tr('export.pageOf', { page: p + 1, total: pages.length });
+        children.push(imageParagraph(page, `${doc.file.name}, ${pageLabel}`, doc.summary, `${record}, ${pageLabel}`));
+      });
+    } catch (e) {
+      console.error("Failed to render PDF pages:", doc.file.name, e);
+      children.push(placeholder(tr('export.pdfFailed')));
+    }
+  } else if (isWordFile(doc.file)) {
+    try {
+      children.push(...(await extractWordBlocks(doc.file)).map(wordBlockParagraph));
+    } catch (e) {
+      console.error("Failed to read Word document:", doc.file.name, e);
+      children.push(placeholder(tr('export.wordFailed')));
+    }
+  } else {
+    children.push(placeholder(tr('export.unsupported')));
+  }
+  return children;
+};
+
+// Builds the Word portfolio as a real Office Open XML (.docx) file with the
+// same numbered sections as the PDF export, in the language of the report.
+export const buildWordPortfolio = async ({ patientName, report, sortedDocs, labHistory, medications }: WordPortfolioInput): Promise<Blob> => {
+  const language = getLanguage(report.settings.language);
+  const { rtl } = language;
+  const tr = (key: MessageKey, params?: TranslationParams) => translate(language.id, key, params);
+  const exportFont = await loadExportFont(language.id);
+  const font = exportFont?.family || 'Segoe UI';
+  const references = buildReferenceNumbers(sortedDocs);
+  const { title } = getReportTemplate(report.settings.templateId, language.id);
+  const sectionCount = report.sections.length;
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({ text: title, heading: HeadingLevel.TITLE, bidirectional: rtl }),
+    new Paragraph({
+      spacing: { after: 300 },
+      bidirectional: rtl,
+      children: [
+        new TextRun({ text: `${tr('report.patient')} `, bold: true, color: MUTED }),
+        new TextRun({ text: patientName || tr('report.anonymous'), color: MUTED }),
+        new TextRun({ text: `${tr('export.date')} `, bold: true, color: MUTED, break: 1 }),
+        new TextRun({ text: new Date().toLocaleDateString(language.tag), color: MUTED }),
+      ]
+    }),
+  ];
+
+  report.sections.forEach((section, i) => {
+    children.push(heading(`${sectionNumeral(i)}. ${section.title}`, rtl), ...sectionParagraphs(section.text, references, rtl, section.paragraphs));
+  });
+
+  if (labHistory.length > 0) {
+    children.push(heading(tr('export.labHistory'), rtl), table(
+      [tr('timeline.date'), tr('export.analyte'), tr('export.value'), tr('export.unit'), tr('export.reference')],
+      labHistory.map(row => [
+        cell(row.date || tr('common.notAvailable'), rtl),
+        cell(row.analyte, rtl, { bold: true }),
+        cell(row.value, rtl, row.outOfRange ? { bold: true, color: ALERT } : {}),
+        cell(row.unit, rtl),
+        cell(row.referenceRange, rtl),
+      ]),
+      rtl
+    ));
+  }
+
+  if (medications.length > 0) {
+    const active = medications.filter(m => m.isActive).map(m => `${m.drug} (${formatRegimen(m, language.id)})`).join(', ') || tr('timeline.none');
+    children.push(
+      heading(tr('medications.title'), rtl),
+      new Paragraph({ bidirectional: rtl, children: [new TextRun({ text: `${tr('export.currentlyActive')} `, bold: true }), new TextRun(active)] }),
+      table(
+        [tr('medications.drug'), tr('medications.regimen'), tr('medications.start'), tr('medications.stop'), tr('medications.prescriber')],
+        medications.map(m => [
+          cell(m.drug, rtl, { bold: true }),
+          cell(formatRegimen(m, language.id), rtl),
+          cell(m.startDate || tr('common.unknown'), rtl),
+          cell(m.isActive ? tr('medications.activeBadge') : `${m.endDate || tr('common.unknown')}${m.endInferred ? ` ${tr('medications.inferred')}` : ''}`, rtl),
+          cell(m.prescriber || '-', rtl),
+        ]),
+        rtl
+      )
+    );
+  }
+
+  children.push(heading(`${sectionNumeral(sectionCount)}. ${tr('report.masterIndex')}`, rtl), table(
+    [tr('export.ref'), tr('timeline.date'), tr('timeline.type'), tr('timeline.summary')],
+    sortedDocs.map((doc, i) => [
+      cell(String(i + 1), rtl, { bold: true }),
+      cell(doc.date || tr('common.notAvailable'), rtl),
+      cell(tr(`docType.${doc.type}`), rtl),
+      cell(doc.summary, rtl),
+    ]),
+    rtl
+  ));
+
+  children.push(heading(`${sectionNumeral(sectionCount + 1)}. ${tr('export.appendix')}`, rtl, true));
+  for (let i = 0; i < sortedDocs.length; i++) {
+    children.push(...await appendixEntry(sortedDocs[i], i, language));
+  }
+
+  const document = new Document({
+    title: `${title}: ${patientName || tr('report.anonymous')}`,
+    creator: 'MediChronicle AI',
+    // Embedded so the portfolio renders the same on machines without the font.
+    // docx takes the data as a Buffer; this one wraps the bytes without copying.
+    fonts: exportFont ? [{ name: exportFont.family, data: Buffer.from(exportFont.regular.buffer, exportFont.regular.byteOffset, exportFont.regular.byteLength) }] : [],
+    styles: {
+      default: {
+        document: { run: { font, size: 22, color: '334155', rightToLeft: rtl }, paragraph: { spacing: { after: 160, line: 300 } } },
+        title: { run: { font, size: 48, bold: true, color: ACCENT }, paragraph: { spacing: { after: 200 } } },
+        heading1: { run: { font, size: 32, bold: true, color: ACCENT }, paragraph: { spacing: { before: 480, after: 200 } } },
+        heading2: { run: { font, size: 26, bold: true, color: '1E293B' }, paragraph: { spacing: { before: 240, after: 120 } } },
+      }
+    },
+    sections: [{ children }],
+  });
+
+  return Packer.toBlob(document);
+};
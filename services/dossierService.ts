@@ -0,0 +1,60 @@
+import { PatientProfile } from "../types";
+import { EncodedPayload, decodePayload, decryptJson, encodePayload, encryptJson } from "./cryptoService";
+import { getVaultKey } from "./vaultService";
+
+const STORAGE_KEY_DOSSIERS = 'medichronicle_dossiers';
+const STORAGE_KEY_ACTIVE = 'medichronicle_active_dossier';
+// Single-profile key used before dossiers existed; migrated on first load.
+const LEGACY_KEY_PROFILE = 'medichronicle_profile';
+
+// Documents stored before dossiers existed are assigned to this id.
+export const LEGACY_DOSSIER_ID = 'default';
+
+export const createDossierId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+// In vault mode the profile list is stored as a single encrypted payload.
+interface SealedDossiers {
+  sealed: EncodedPayload;
+}
+
+export const saveDossiers = async (dossiers: PatientProfile[], key = getVaultKey()) => {
+  const value: PatientProfile[] | SealedDossiers = key
+    ? { sealed: encodePayload(await encryptJson(key, dossiers)) }
+    : dossiers;
+  localStorage.setItem(STORAGE_KEY_DOSSIERS, JSON.stringify(value));
+};
+
+export const loadDossiers = async (key = getVaultKey()): Promise<PatientProfile[]> => {
+  const saved = localStorage.getItem(STORAGE_KEY_DOSSIERS);
+  if (saved) {
+    const parsed: PatientProfile[] | SealedDossiers = JSON.parse(saved);
+    if (Array.isArray(parsed)) return parsed;
+    if (!key) throw new Error("Profiles are encrypted. Unlock the vault to read them.");
+    return decryptJson<PatientProfile[]>(key, decodePayload(parsed.sealed));
+  }
+
+  const legacyProfile = localStorage.getItem(LEGACY_KEY_PROFILE);
+  if (!legacyProfile) return [];
+
+  const migrated: PatientProfile[] = [{ ...JSON.parse(legacyProfile), id: LEGACY_DOSSIER_ID }];
+  await saveDossiers(migrated, key);
+  saveActiveDossierId(LEGACY_DOSSIER_ID);
+  localStorage.removeItem(LEGACY_KEY_PROFILE);
+  return migrated;
+};
+
+export const loadActiveDossierId = (): string | null => localStorage.getItem(STORAGE_KEY_ACTIVE);
+
+export const saveActiveDossierId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(STORAGE_KEY_ACTIVE, id);
+  } else {
+    localStorage.removeItem(STORAGE_KEY_ACTIVE);
+  }
+};
+
+export const clearDossiers = () => {
+  localStorage.removeItem(STORAGE_KEY_DOSSIERS);
+  localStorage.removeItem(STORAGE_KEY_ACTIVE);
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { ProcessedDocument } from "../types";
+import { assignDuplicateClusters, chooseCanonicalCopy } from "./duplicateService";
+import { resolveDocument } from "./documentService";
+
+const makeDoc = (id: string, contentHash: string): ProcessedDocument => ({
+  id,
+  file: new File([id], `${id}.pdf`, { type: 'application/pdf' }),
+  previewUrl: '',
+  date: '2024-01-01',
+  type: 'NOTE',
+  summary: id,
+  isDuplicate: false,
+  contentHash,
+  perceptualHash: null
+});
+
+const hidden = (docs: ProcessedDocument[]) => docs.map(resolveDocument).filter(d => d.isDuplicate).map(d => d.id);
+
+describe('chooseCanonicalCopy', () => {
+  it('records only the kept copy as a correction', () => {
+    const clustered = assignDuplicateClusters([makeDoc('a', 'x'), makeDoc('b', 'x'), makeDoc('c', 'x')]);
+    const kept = chooseCanonicalCopy(clustered, 'a', 'b');
+
+    expect(kept.find(d => d.id === 'b')!.corrections).toEqual({ isDuplicate: false });
+    expect(kept.filter(d => d.id !== 'b').every(d => d.corrections === undefined)).toBe(true);
+    expect(hidden(kept)).toEqual(['a', 'c']);
+  });
+
+  it('hands over to the remaining copies when the kept one is deleted', () => {
+    const clustered = assignDuplicateClusters([makeDoc('a', 'x'), makeDoc('b', 'x'), makeDoc('c', 'x')]);
+    const kept = chooseCanonicalCopy(clustered, 'a', 'c');
+    const remaining = kept.filter(d => d.id !== 'c');
+    const reclustered = assignDuplicateClusters(remaining, kept);
+
+    expect(hidden(reclustered)).toEqual(['b']);
+  });
+
+  it('shows a single survivor once its cluster is gone', () => {
+    const clustered = assignDuplicateClusters([makeDoc('a', 'x'), makeDoc('b', 'x')]);
+    const kept = chooseCanonicalCopy(clustered, 'a', 'b');
+    const reclustered = assignDuplicateClusters(kept.filter(d => d.id !== 'b'), kept);
+
+    expect(reclustered[0].duplicateGroupId).toBeUndefined();
+    expect(hidden(reclustered)).toEqual([]);
+  });
+});
+
+describe('assignDuplicateClusters', () => {
+  it('drops duplicate flags left on a cluster that changed', () => {
+    // As stored by earlier versions, which flagged every copy but the kept one
+    const stale = assignDuplicateClusters([makeDoc('a', 'x'), makeDoc('b', 'x'), makeDoc('c', 'x')])
+      .map(doc => ({ ...doc, corrections: { isDuplicate: doc.id !== 'c' } }));
+    const reclustered = assignDuplicateClusters(stale.filter(d => d.id !== 'c'), stale);
+
+    expect(reclustered.every(d => d.corrections === undefined)).toBe(true);
+    expect(hidden(reclustered)).toEqual(['b']);
+  });
+
+  it('keeps a duplicate flag on a record whose cluster is unchanged', () => {
+    const docs = [makeDoc('a', 'x'), { ...makeDoc('b', 'y'), corrections: { isDuplicate: true } }];
+
+    expect(hidden(assignDuplicateClusters(docs))).toEqual(['b']);
+  });
+});
@@ -0,0 +1,197 @@
+import { ProcessedDocument } from "../types";
+import { getDocumentPages } from "./pageGroupService";
+
+// Maximum number of differing bits (out of 64) for two images to count as the
+// same page photographed or scanned twice.
+const PERCEPTUAL_DISTANCE_THRESHOLD = 10;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const computeContentHash = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return toHex(digest);
+};
+
+// A grouped record hashes the page hashes in order, so only the same pages in
+// the same order match it exactly. Encounters split from one PDF add their
+// page range, as they share the file.
+const computeRecordHash = async (doc: ProcessedDocument): Promise<string> => {
+  const pages = getDocumentPages(doc);
+  if (pages.length === 1 && !doc.pageRange) return computeContentHash(pages[0]);
+  const parts = await Promise.all(pages.map(computeContentHash));
+  if (doc.pageRange) parts.push(`pages ${doc.pageRange.start}-${doc.pageRange.end}`);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(parts.join('\n')));
+  return toHex(digest);
+};
+
+const loadImage = (file: File): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = (error) => {
+      URL.revokeObjectURL(url);
+      reject(error);
+    };
+    img.src = url;
+  });
+};
+
+// Difference hash (dHash): shrink to 9x8 grayscale and record whether each
+// pixel is brighter than its right neighbour. Survives rescaling, recompression
+// and mild lighting changes. Returns null for non-images or undecodable files.
+export const computePerceptualHash = async (file: File): Promise<string | null> => {
+  if (!file.type.startsWith('image/')) return null;
+  try {
+    const img = await loadImage(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = 9;
+    canvas.height = 8;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(img, 0, 0, 9, 8);
+    const { data } = ctx.getImageData(0, 0, 9, 8);
+
+    const luminance = (x: number, y: number) => {
+      const i = (y * 9 + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+
+    let hash = '';
+    for (let y = 0; y < 8; y++) {
+      let nibble = 0;
+      for (let x = 0; x < 8; x++) {
+        nibble = (nibble << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+        if (x % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+    return hash;
+  } catch (error) {
+    console.warn("Perceptual hash failed:", file.name, error);
+    return null;
+  }
+};
+
+const hammingDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+// Fills in hashes for documents stored before hashing existed or just uploaded.
+export const ensureDocumentHashes = async (docs: ProcessedDocument[]): Promise<ProcessedDocument[]> => {
+  return Promise.all(docs.map(async (doc) => {
+    if (doc.contentHash && doc.perceptualHash !== undefined) return doc;
+    // Grouped records compare by their first page for near-copies
+    const [contentHash, perceptualHash] = await Promise.all([
+      computeRecordHash(doc),
+      computePerceptualHash(doc.file)
+    ]);
+    return { ...doc, contentHash, perceptualHash };
+  }));
+};
+
+const isSameContent = (a: ProcessedDocument, b: ProcessedDocument) => {
+  if (a.contentHash && a.contentHash === b.contentHash) return true;
+  if (!a.perceptualHash || !b.perceptualHash) return false;
+  // Slices of an imaging series look alike by design; only exact copies count there
+  if (a.type === 'IMAGING' || b.type === 'IMAGING') return false;
+  return hammingDistance(a.perceptualHash, b.perceptualHash) <= PERCEPTUAL_DISTANCE_THRESHOLD;
+};
+
+const withoutDuplicateCorrection = (doc: ProcessedDocument): ProcessedDocument => {
+  if (!doc.corrections || !('isDuplicate' in doc.corrections)) return doc;
+  const { isDuplicate: _, ...rest } = doc.corrections;
+  return { ...doc, corrections: Object.keys(rest).length > 0 ? rest : undefined };
+};
+
+// Groups documents holding the same content and marks every member except the
+// canonical copy as a duplicate. A copy the user kept explicitly stays
+// canonical; otherwise the earliest document in the list is used.
+// `previous` is the list before documents were removed, so a cluster that lost
+// members counts as changed. Duplicate flags the user set on a cluster that has
+// since changed or disappeared are dropped, as is a keep pick that no longer
+// applies, so they cannot hide records clustering would show.
+export const assignDuplicateClusters = (docs: ProcessedDocument[], previous: ProcessedDocument[] = docs): ProcessedDocument[] => {
+  const parent = docs.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < docs.length; i++) {
+    for (let j = i + 1; j < docs.length; j++) {
+      if (isSameContent(docs[i], docs[j])) parent[find(j)] = find(i);
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  docs.forEach((_, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) || []), i]);
+  });
+
+  const previousMembers = new Map<string, string[]>();
+  previous.forEach(doc => {
+    if (doc.duplicateGroupId) previousMembers.set(doc.duplicateGroupId, [...(previousMembers.get(doc.duplicateGroupId) || []), doc.id]);
+  });
+
+  const result = docs.map(doc => ({ ...doc, isDuplicate: false, duplicateGroupId: undefined as string | undefined }));
+  const kept = new Set<number>();
+  clusters.forEach(members => {
+    if (members.length < 2) return;
+    const groupId = docs[members[0]].id;
+    const keeper = members.find(i => docs[i].corrections?.isDuplicate === false) ?? members[0];
+    kept.add(keeper);
+    members.forEach(i => {
+      result[i].duplicateGroupId = groupId;
+      result[i].isDuplicate = i !== keeper;
+    });
+  });
+
+  const memberIds = (groupId: string) => result.filter(doc => doc.duplicateGroupId === groupId).map(doc => doc.id);
+  const isSameCluster = (oldGroupId: string, newGroupId: string | undefined) => {
+    if (oldGroupId !== newGroupId) return false;
+    const before = previousMembers.get(oldGroupId) || [];
+    const after = memberIds(newGroupId);
+    return before.length === after.length && after.every(id => before.includes(id));
+  };
+
+  return result.map((doc, i) => {
+    const correction = doc.corrections?.isDuplicate;
+    if (correction === undefined) return doc;
+    if (correction === false) return kept.has(i) ? doc : withoutDuplicateCorrection(doc);
+    const oldGroupId = docs[i].duplicateGroupId;
+    return !oldGroupId || isSameCluster(oldGroupId, doc.duplicateGroupId) ? doc : withoutDuplicateCorrection(doc);
+  });
+};
+
+// Records the user's canonical pick as a human correction on that copy only,
+// so it survives re-clustering; the other members are duplicates through
+// clustering alone and come back if the kept copy is removed.
+export const chooseCanonicalCopy = (docs: ProcessedDocument[], groupId: string, canonicalId: string): ProcessedDocument[] => {
+  return docs.map(doc => {
+    if (doc.duplicateGroupId !== groupId) return doc;
+    if (doc.id === canonicalId) return { ...doc, isDuplicate: false, corrections: { ...doc.corrections, isDuplicate: false } };
+    return { ...withoutDuplicateCorrection(doc), isDuplicate: true };
+  });
+};
+
+export const getDuplicateClusters = (docs: ProcessedDocument[]): ProcessedDocument[][] => {
+  const groups = new Map<string, ProcessedDocument[]>();
+  docs.forEach(doc => {
+    if (!doc.duplicateGroupId) return;
+    groups.set(doc.duplicateGroupId, [...(groups.get(doc.duplicateGroupId) || []), doc]);
+  });
+  return Array.from(groups.values());
+};
@@ -0,0 +1,64 @@
+import { jsPDF } from "jspdf";
+import { Locale } from "../types";
+import { toBase64 } from "./cryptoService";
+
+// Served with the app from public/fonts, so exports need no third-party host.
+const FONTS_URL = '/fonts';
+
+export interface ExportFont {
+  family: string;
+  regular: Uint8Array;
+  bold: Uint8Array;
+}
+
+// The built-in PDF fonts and Segoe UI only cover Latin script, so exports in
+// other scripts embed a TrueType font that does.
+const FONT_SOURCES: Partial<Record<Locale, { family: string; regular: string; bold: string }>> = {
+  ar: {
+    family: 'Amiri',
+    regular: `${FONTS_URL}/Amiri-Regular.ttf`,
+    bold: `${FONTS_URL}/Amiri-Bold.ttf`,
+  },
+};
+
+export class ExportFontError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportFontError';
+  }
+}
+
+const cache = new Map<string, Promise<Uint8Array>>();
+
+const fetchFont = (url: string): Promise<Uint8Array> => {
+  if (!cache.has(url)) {
+    const request = fetch(url).then(async response => {
+      if (!response.ok) throw new ExportFontError(`Font could not be loaded (${response.status}): ${url}`);
+      return new Uint8Array(await response.arrayBuffer());
+    }, error => {
+      throw new ExportFontError(`Font could not be loaded: ${url} (${error})`);
+    });
+    // A failed download is retried on the next export
+    request.catch(() => cache.delete(url));
+    cache.set(url, request);
+  }
+  return cache.get(url)!;
+};
+
+// Null when the built-in fonts already cover the language.
+export const loadExportFont = async (locale: Locale): Promise<ExportFont | null> => {
+  const source = FONT_SOURCES[locale];
+  if (!source) return null;
+  const [regular, bold] = await Promise.all([fetchFont(source.regular), fetchFont(source.bold)]);
+  return { family: source.family, regular, bold };
+};
+
+// jsPDF has no italic cut of the font, so italic text falls back to upright.
+export const registerPdfFont = (pdf: jsPDF, font: ExportFont) => {
+  pdf.addFileToVFS(`${font.family}-Regular.ttf`, toBase64(font.regular));
+  pdf.addFileToVFS(`${font.family}-Bold.ttf`, toBase64(font.bold));
+  pdf.addFont(`${font.family}-Regular.ttf`, font.family, 'normal');
+  pdf.addFont(`${font.family}-Regular.ttf`, font.family, 'italic');
+  pdf.addFont(`${font.family}-Bold.ttf`, font.family, 'bold');
+  pdf.addFont(`${font.family}-Bold.ttf`, font.family, 'bolditalic');
+};
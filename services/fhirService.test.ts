@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import Ajv from "ajv";
+import draft6 from "ajv/dist/refs/json-schema-draft-06.json";
+import fhirSchema from "@asymmetrik/fhir-json-schema-validator/fhir.schema.json";
+import { PatientProfile, ProcessedDocument, ReportData } from "../types";
+import { FhirBundle, FhirResource, buildFhirBundle } from "./fhirService";
+import { DEFAULT_REPORT_SETTINGS } from "./reportTemplateService";
+
+const profile: PatientProfile = { id: 'p1', name: 'Jane Doe', dob: '1970-05-01', gender: 'Female' };
+
+const makeDoc = (id: string, overrides: Partial<ProcessedDocument> = {}): ProcessedDocument => ({
+  id,
+  file: new File([`%PDF ${id}`], `${id}.pdf`, { type: 'application/pdf' }),
+  previewUrl: '',
+  date: '2023-03-01',
+  type: 'LAB',
+  summary: `Summary of ${id}`,
+  isDuplicate: false,
+  ...overrides
+});
+
+const documents: ProcessedDocument[] = [
+  makeDoc('lab', {
+    labResults: [
+      { analyte: 'HbA1c', value: 6.1, unit: '%', referenceLow: 4, referenceHigh: 5.6, referenceRange: '4.0-5.6', collectionDate: '2023-03-01', rawValue: '6.1', rawUnit: '%' },
+      { analyte: 'Urine colour', value: null, unit: '', referenceLow: null, referenceHigh: null, collectionDate: null, rawValue: 'amber', rawUnit: '' }
+    ]
+  }),
+  makeDoc('note', { type: 'NOTE', date: null }),
+  makeDoc('copy', { isDuplicate: true, labResults: [
+    { analyte: 'Glucose', value: 100, unit: 'mg/dL', referenceLow: null, referenceHigh: null, collectionDate: null, rawValue: '100', rawUnit: 'mg/dL' }
+  ] })
+];
+
+const report: ReportData = {
+  settings: DEFAULT_REPORT_SETTINGS,
+  sections: [
+    { key: 'history', title: 'History', text: 'Raised HbA1c.', paragraphs: [{ text: 'Raised HbA1c.', sourceIds: ['lab', 'missing'] }] },
+    { key: 'summary', title: 'Summary', text: 'Stable.' }
+  ],
+  version: { id: 'v1', generatedAt: '2024-01-01T00:00:00.000Z', provider: 'mock', model: 'mock-model', documentIds: ['lab', 'note'] }
+};
+
+// The published R4 schema names itself with the draft-04 "id", which Ajv 8 only accepts as "$id".
+const { id: schemaId, ...fhirDefinitions } = fhirSchema;
+const ajv = new Ajv({ strict: false, allErrors: true });
+ajv.addMetaSchema(draft6);
+ajv.addSchema({ ...fhirDefinitions, $id: schemaId });
+
+// Compiling the schema takes a few seconds, paid by whichever test validates first.
+const SCHEMA_TEST_TIMEOUT = 30000;
+
+const schemaErrors = (definition: string, value: unknown): string[] => {
+  const validate = ajv.getSchema(`${schemaId}#/definitions/${definition}`)!;
+  return validate(value) ? [] : (validate.errors || []).map(e => `${definition}${e.instancePath} ${e.message}`);
+};
+
+// Each resource is also checked against its own definition, as errors from
+// the bundle's any-resource choice do not say which element is wrong.
+const bundleSchemaErrors = (bundle: FhirBundle) => [
+  ...schemaErrors('Bundle', bundle),
+  ...bundle.entry.flatMap(entry => schemaErrors(entry.resource.resourceType, entry.resource))
+];
+
+const resourcesOf = <T extends FhirResource['resourceType']>(bundle: FhirBundle, type: T) =>
+  bundle.entry.map(entry => entry.resource).filter((r): r is Extract<FhirResource, { resourceType: T }> => r.resourceType === type);
+
+// Every { reference } object anywhere in the value.
+const collectReferences = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.flatMap(collectReferences);
+  if (!value || typeof value !== 'object') return [];
+  const own = 'reference' in value && typeof value.reference === 'string' ? [value.reference] : [];
+  return [...own, ...Object.values(value).flatMap(collectReferences)];
+};
+
+// Paths of nulls, empty strings and empty arrays or objects, which FHIR JSON forbids.
+const findEmptyValues = (value: unknown, path = ''): string[] => {
+  if (value === null || value === '') return [path];
+  if (Array.isArray(value)) {
+    return value.length === 0 ? [path] : value.flatMap((item, i) => findEmptyValues(item, `${path}[${i}]`));
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as object);
+    return entries.length === 0 ? [path] : entries.flatMap(([key, item]) => findEmptyValues(item, `${path}.${key}`));
+  }
+  return [];
+};
+
+describe('buildFhirBundle', () => {
+  it('builds a document bundle with the Composition first', async () => {
+    const bundle = await buildFhirBundle(profile, documents, report);
+
+    expect(bundle.resourceType).toBe('Bundle');
+    expect(bundle.type).toBe('document');
+    expect(bundle.identifier.value).toBeTruthy();
+    expect(bundle.timestamp).toBeTruthy();
+    expect(bundle.entry[0].resource.resourceType).toBe('Composition');
+    bundle.entry.forEach(entry => {
+      expect(entry.fullUrl).toMatch(/^urn:uuid:/);
+      expect(typeof entry.resource.resourceType).toBe('string');
+    });
+  });
+
+  it('resolves every reference to an entry of the bundle', async () => {
+    const bundle = await buildFhirBundle(profile, documents, report);
+    const fullUrls = new Set(bundle.entry.map(entry => entry.fullUrl));
+
+    expect(fullUrls.size).toBe(bundle.entry.length);
+    const references = collectReferences(bundle.entry.map(entry => entry.resource));
+    expect(references.length).toBeGreaterThan(0);
+    expect(references.filter(ref => !fullUrls.has(ref))).toEqual([]);
+  });
+
+  it('gives the Composition a Device author and its required elements', async () => {
+    const bundle = await buildFhirBundle(profile, documents, report);
+    const [composition] = resourcesOf(bundle, 'Composition');
+    const byUrl = new Map(bundle.entry.map(entry => [entry.fullUrl, entry.resource]));
+
+    expect(composition.status).toBe('final');
+    expect(composition.type.coding?.[0].code).toBeTruthy();
+    expect(composition.date).toBeTruthy();
+    expect(composition.title).toBeTruthy();
+    expect(composition.author).toHaveLength(1);
+    expect(byUrl.get(composition.author[0].reference)?.resourceType).toBe('Device');
+    expect(byUrl.get(composition.subject.reference)?.resourceType).toBe('Patient');
+  });
+
+  it('leaves out empty values and observations of duplicates', async () => {
+    const bundle = await buildFhirBundle(profile, documents, report);
+
+    expect(findEmptyValues(bundle)).toEqual([]);
+    expect(resourcesOf(bundle, 'Observation')).toHaveLength(2);
+    expect(resourcesOf(bundle, 'DocumentReference')).toHaveLength(3);
+  });
+
+  it('validates against the FHIR R4 schema', async () => {
+    const bundle = await buildFhirBundle(profile, documents, report);
+
+    expect(bundleSchemaErrors(bundle)).toEqual([]);
+  }, SCHEMA_TEST_TIMEOUT);
+
+  it('validates against the FHIR R4 schema without lab values or a report version', async () => {
+    const minimalReport: ReportData = { settings: DEFAULT_REPORT_SETTINGS, sections: [] };
+    const bundle = await buildFhirBundle(profile, [makeDoc('note', { type: 'OTHER', date: null, summary: '' })], minimalReport);
+
+    expect(resourcesOf(bundle, 'Observation')).toEqual([]);
+    expect(resourcesOf(bundle, 'Composition')[0].section).toHaveLength(1);
+    expect(bundleSchemaErrors(bundle)).toEqual([]);
+  }, SCHEMA_TEST_TIMEOUT);
+
+  it('reports schema errors in a broken bundle', async () => {
+    const bundle = await buildFhirBundle(profile, documents, report);
+    const [patient] = resourcesOf(bundle, 'Patient');
+    const broken = { ...bundle, entry: [...bundle.entry, { fullUrl: 'urn:uuid:x', resource: { ...patient, gender: 'unknown-value' } }] };
+
+    expect(bundleSchemaErrors(broken as FhirBundle)).toContain('Patient/gender must be equal to one of the allowed values');
+  }, SCHEMA_TEST_TIMEOUT);
+});
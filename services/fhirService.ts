@@ -0,0 +1,352 @@
+import { CitedParagraph, LabResult, PatientProfile, ProcessedDocument, ReportData, ReportSection, ReportVersion } from "../types";
+import { resolveDocument } from "./documentService";
+import { buildReferenceNumbers, formatReferenceList } from "./citationService";
+import { toBase64 } from "./cryptoService";
+import { getReportTemplate, sectionNumeral } from "./reportTemplateService";
+import { getLanguage, translate } from "./i18nService";
+import { getDocumentPages } from "./pageGroupService";
+import { extractPdfPageRange } from "./pdfService";
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+
+// The parts of the R4 resources this export writes. Optional elements may be
+// left undefined; compact() drops them before the bundle is returned.
+interface Coding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Identifier {
+  system: string;
+  value: string;
+}
+
+interface Reference {
+  reference: string;
+  display?: string;
+}
+
+interface Quantity {
+  value: number;
+  unit: string;
+  system?: string;
+  code?: string;
+}
+
+interface Narrative {
+  status: 'generated';
+  div: string;
+}
+
+interface Patient {
+  resourceType: 'Patient';
+  identifier: Identifier[];
+  name: { text: string }[];
+  gender: 'male' | 'female' | 'other';
+  birthDate?: string;
+}
+
+interface Device {
+  resourceType: 'Device';
+  deviceName: { name: string; type: 'user-friendly-name' }[];
+  version?: { value: string }[];
+}
+
+interface DocumentReference {
+  resourceType: 'DocumentReference';
+  identifier: Identifier[];
+  status: 'current';
+  type: CodeableConcept;
+  subject: Reference;
+  description?: string;
+  content: { attachment: { contentType: string; data: string; title: string; size: number; creation?: string } }[];
+  context?: { period: { start?: string } };
+}
+
+interface Observation {
+  resourceType: 'Observation';
+  status: 'final';
+  category: CodeableConcept[];
+  code: CodeableConcept;
+  subject: Reference;
+  effectiveDateTime?: string;
+  valueQuantity?: Quantity;
+  valueString?: string;
+  referenceRange?: { low?: Quantity; high?: Quantity; text?: string }[];
+  derivedFrom: Reference[];
+}
+
+interface CompositionSection {
+  title: string;
+  text: Narrative;
+  entry?: Reference[];
+}
+
+interface Composition {
+  resourceType: 'Composition';
+  status: 'final';
+  type: CodeableConcept;
+  subject: Reference;
+  date: string;
+  author: Reference[];
+  language: string;
+  title: string;
+  section: CompositionSection[];
+}
+
+export type FhirResource = Composition | Patient | Device | DocumentReference | Observation;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  identifier: Identifier;
+  type: 'document';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+const GENDER_CODES: Record<PatientProfile['gender'], Patient['gender']> = {
+  Male: 'male',
+  Female: 'female',
+  Other: 'other',
+};
+
+// LOINC document classes for the record types the model assigns.
+const DOCUMENT_TYPE_CODES: Record<ProcessedDocument['type'], { code: string; display: string } | null> = {
+  LAB: { code: '11502-2', display: 'Laboratory report' },
+  IMAGING: { code: '18748-4', display: 'Diagnostic imaging study' },
+  PRESCRIPTION: { code: '57833-6', display: 'Prescription for medication' },
+  NOTE: { code: '11506-3', display: 'Progress note' },
+  OTHER: null,
+};
+
+// LOINC codes for the analytes normalized by labService.
+const ANALYTE_CODES: Record<string, string> = {
+  'HbA1c': '4548-4',
+  'Creatinine': '2160-0',
+  'eGFR': '33914-3',
+  'Glucose': '2345-7',
+  'Total Cholesterol': '2093-3',
+  'LDL Cholesterol': '18262-6',
+  'HDL Cholesterol': '2085-9',
+  'Triglycerides': '2571-8',
+  'Hemoglobin': '718-7',
+  'Potassium': '2823-3',
+  'Sodium': '2951-2',
+  'TSH': '3016-3',
+};
+
+// UCUM codes for display units whose spelling differs or is known to be valid.
+const UCUM_CODES: Record<string, string> = {
+  '%': '%',
+  'mg/dL': 'mg/dL',
+  'g/dL': 'g/dL',
+  'g/L': 'g/L',
+  'mmol/L': 'mmol/L',
+  'mmol/mol': 'mmol/mol',
+  'umol/L': 'umol/L',
+  'mIU/L': 'm[IU]/L',
+  'mL/min/1.73m2': 'mL/min/{1.73_m2}',
+};
+
+const FHIR_DATE = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+
+const fhirDate = (value: string | null | undefined) => (value && FHIR_DATE.test(value) ? value : undefined);
+
+const escapeXhtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const narrative = (paragraphs: string[]): Narrative => ({
+  status: 'generated',
+  div: `<div xmlns="http://www.w3.org/1999/xhtml">${paragraphs.map(p => `<p>${escapeXhtml(p)}</p>`).join('')}</div>`,
+});
+
+// FHIR JSON forbids nulls, empty strings and empty arrays or objects.
+const prune = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.map(prune).filter(v => v !== undefined);
+    return items.length ? items : undefined;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .map(([k, v]) => [k, prune(v)] as const)
+      .filter(([, v]) => v !== undefined);
+    return entries.length ? Object.fromEntries(entries) : undefined;
+  }
+  return value === null || value === '' ? undefined : value;
+};
+
+// Only removes what the types already allow to be absent.
+const compact = <T extends object>(value: T): T => prune(value) as T;
+
+const reference = (fullUrl: string, display?: string): Reference => ({ reference: fullUrl, display });
+
+const buildPatient = (profile: PatientProfile): Patient => ({
+  resourceType: 'Patient',
+  identifier: [{ system: 'urn:medichronicle:dossier', value: profile.id }],
+  name: [{ text: profile.name }],
+  gender: GENDER_CODES[profile.gender],
+  birthDate: fhirDate(profile.dob),
+});
+
+// The Composition author must be a resource; the report is written by the model.
+const buildAuthorDevice = (version?: ReportVersion): Device => ({
+  resourceType: 'Device',
+  deviceName: [{ name: 'MediChronicle AI', type: 'user-friendly-name' }],
+  version: version ? [{ value: `${version.provider} ${version.model}` }] : undefined,
+});
+
+// One attachment per page for records grouped from several scans; an
+// encounter split from a compound PDF attaches only its own pages.
+const attachedFiles = async (doc: ProcessedDocument): Promise<File[]> =>
+  doc.pageRange ? [await extractPdfPageRange(doc.file, doc.pageRange)] : getDocumentPages(doc);
+
+const buildDocumentReference = async (doc: ProcessedDocument, patientUrl: string): Promise<DocumentReference> => {
+  const typeCode = DOCUMENT_TYPE_CODES[doc.type];
+  return {
+    resourceType: 'DocumentReference',
+    identifier: [{ system: 'urn:medichronicle:record', value: doc.id }],
+    status: 'current',
+    type: {
+      coding: typeCode ? [{ system: LOINC, ...typeCode }] : undefined,
+      text: doc.type,
+    },
+    subject: reference(patientUrl),
+    description: doc.summary,
+    content: await Promise.all((await attachedFiles(doc)).map(async file => ({
+      attachment: {
+        contentType: file.type || 'application/octet-stream',
+        data: toBase64(await file.arrayBuffer()),
+        title: file.name,
+        size: file.size,
+        creation: fhirDate(doc.date),
+      }
+    }))),
+    context: fhirDate(doc.date) ? { period: { start: fhirDate(doc.date) } } : undefined,
+  };
+};
+
+const quantity = (value: number | null, unit: string): Quantity | undefined => value === null ? undefined : {
+  value,
+  unit,
+  system: UCUM_CODES[unit] ? UCUM : undefined,
+  code: UCUM_CODES[unit],
+};
+
+const buildObservation = (result: LabResult, doc: ProcessedDocument, patientUrl: string, documentUrl: string): Observation => {
+  const loinc = ANALYTE_CODES[result.analyte];
+  const hasRange = result.referenceLow !== null || result.referenceHigh !== null;
+  return {
+    resourceType: 'Observation',
+    status: 'final',
+    category: [{
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/observation-category', code: 'laboratory', display: 'Laboratory' }]
+    }],
+    code: {
+      coding: loinc ? [{ system: LOINC, code: loinc, display: result.analyte }] : undefined,
+      text: result.analyte,
+    },
+    subject: reference(patientUrl),
+    effectiveDateTime: fhirDate(result.collectionDate || doc.date),
+    valueQuantity: quantity(result.value, result.unit),
+    valueString: result.value === null ? [result.rawValue, result.rawUnit].filter(Boolean).join(' ') : undefined,
+    referenceRange: hasRange || result.referenceRange ? [{
+      low: quantity(result.referenceLow, result.unit),
+      high: quantity(result.referenceHigh, result.unit),
+      text: hasRange ? undefined : result.referenceRange,
+    }] : undefined,
+    derivedFrom: [reference(documentUrl)],
+  };
+};
+
+// Builds a FHIR R4 document Bundle: the Composition (the synthesized report)
+// first, then the Patient, the Device that wrote the report, a
+// DocumentReference per record with the original file embedded, and an
+// Observation per extracted lab value.
+export const buildFhirBundle = async (profile: PatientProfile, documents: ProcessedDocument[], report: ReportData): Promise<FhirBundle> => {
+  const newUrl = () => `urn:uuid:${crypto.randomUUID()}`;
+  const compositionUrl = newUrl();
+  const patientUrl = newUrl();
+  const authorUrl = newUrl();
+
+  // Same chronological order as the master index, so reference numbers match
+  const sortedDocs = documents.map(resolveDocument).sort((a, b) => {
+    if (!a.date || !b.date) return 0;
+    return new Date(a.date).getTime() - new Date(b.date).getTime();
+  });
+  const references = buildReferenceNumbers(sortedDocs);
+  const documentUrls = new Map(sortedDocs.map(doc => [doc.id, newUrl()]));
+  // Narrative text follows the report language; coded displays stay in English
+  const language = getLanguage(report.settings.language);
+
+  const documentEntries = await Promise.all(sortedDocs.map(async doc => ({
+    fullUrl: documentUrls.get(doc.id)!,
+    resource: await buildDocumentReference(doc, patientUrl),
+  })));
+
+  const observationEntries = sortedDocs
+    .filter(doc => !doc.isDuplicate)
+    .flatMap(doc => (doc.labResults || []).map(result => ({
+      fullUrl: newUrl(),
+      resource: buildObservation(result, doc, patientUrl, documentUrls.get(doc.id)!),
+    })));
+
+  const reportSection = (section: ReportSection, index: number): CompositionSection => {
+    const paragraphs: CitedParagraph[] = section.paragraphs || [{ text: section.text, sourceIds: [] }];
+    const cited = Array.from(new Set(paragraphs.flatMap(p => p.sourceIds))).filter(id => documentUrls.has(id));
+    return {
+      title: `${sectionNumeral(index)}. ${section.title}`,
+      text: narrative(paragraphs.map(p => {
+        const refs = formatReferenceList(p.sourceIds, references);
+        return refs ? `${p.text} ${refs}` : p.text;
+      })),
+      entry: cited.map(id => reference(documentUrls.get(id)!)),
+    };
+  };
+
+  const composition: Composition = {
+    resourceType: 'Composition',
+    status: 'final',
+    type: { coding: [{ system: LOINC, code: '60591-5', display: 'Patient summary Document' }] },
+    subject: reference(patientUrl, profile.name),
+    date: new Date().toISOString(),
+    author: [reference(authorUrl, 'MediChronicle AI')],
+    language: language.tag,
+    title: `${getReportTemplate(report.settings.templateId, language.id).title}: ${profile.name}`,
+    section: [
+      ...report.sections.map(reportSection),
+      ...(observationEntries.length > 0 ? [{
+        title: translate(language.id, 'export.labHistory'),
+        text: narrative([translate(language.id, 'export.labResults', { count: observationEntries.length })]),
+        entry: observationEntries.map(e => reference(e.fullUrl)),
+      }] : []),
+      {
+        title: `${sectionNumeral(report.sections.length)}. ${translate(language.id, 'report.masterIndex')}`,
+        text: narrative(sortedDocs.map((doc, i) =>
+          `[${i + 1}] ${doc.date || translate(language.id, 'common.undated')} · ${translate(language.id, `docType.${doc.type}`)} · ${doc.file.name}`
+        )),
+        entry: documentEntries.map(e => reference(e.fullUrl)),
+      },
+    ],
+  };
+
+  return compact<FhirBundle>({
+    resourceType: 'Bundle',
+    identifier: { system: 'urn:ietf:rfc:3986', value: newUrl() },
+    type: 'document',
+    timestamp: new Date().toISOString(),
+    entry: [
+      { fullUrl: compositionUrl, resource: composition },
+      { fullUrl: patientUrl, resource: buildPatient(profile) },
+      { fullUrl: authorUrl, resource: buildAuthorDevice(report.version) },
+      ...documentEntries,
+      ...observationEntries,
+    ],
+  });
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { DocumentMetadata } from "../types";
+import { FileProfile } from "./batchPlanService";
+import { mergeChunks, toEncounterRanges } from "./geminiService";
+
+const pages = ['Page one', 'Page two', 'Page three', 'Page four'];
+
+const profile: FileProfile = {
+  file: new File(['%PDF'], 'record.pdf', { type: 'application/pdf' }),
+  text: { text: pages.join('\n\n'), source: 'pdf', pages },
+  pageCount: pages.length,
+  redacted: false
+};
+
+const makeDoc = (start: number, end: number, overrides: Partial<DocumentMetadata> = {}): DocumentMetadata => ({
+  id: `doc-${start}`,
+  date: null,
+  type: 'NOTE',
+  summary: `Pages ${start}-${end}`,
+  isDuplicate: false,
+  textSource: 'pdf',
+  fullText: pages.slice(start - 1, end).join('\n\n'),
+  originalIndex: 0,
+  pageRange: { start, end },
+  ...overrides
+});
+
+const glucose = { analyte: 'Glucose', value: 95, unit: 'mg/dL', referenceLow: null, referenceHigh: null, collectionDate: null, rawValue: '95', rawUnit: 'mg/dL' };
+
+describe('mergeChunks', () => {
+  it('joins the parts of a single record back into one', () => {
+    const merged = mergeChunks([
+      [makeDoc(1, 2, { labResults: [glucose] })],
+      [makeDoc(3, 4, { date: '2024-02-01', labResults: [{ ...glucose, value: 101, rawValue: '101' }] })]
+    ], profile);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].id).toBe('doc-1');
+    expect(merged[0].date).toBe('2024-02-01');
+    expect(merged[0].labResults?.map(r => r.value)).toEqual([95, 101]);
+    expect(merged[0].pageRange).toBeUndefined();
+    expect(merged[0].fullText).toBe(profile.text!.text);
+  });
+
+  it('joins a part without encounters to the encounter it continues', () => {
+    const merged = mergeChunks([
+      [makeDoc(3, 4)],
+      [makeDoc(1, 1, { date: '2024-01-01' }), makeDoc(2, 2, { date: '2024-03-01' })]
+    ], profile);
+
+    expect(merged.map(doc => doc.pageRange)).toEqual([{ start: 1, end: 1 }, { start: 2, end: 4 }]);
+    expect(merged.map(doc => doc.date)).toEqual(['2024-01-01', '2024-03-01']);
+    expect(merged[1].fullText).toBe('Page two\n\nPage three\n\nPage four');
+  });
+
+  it('keeps encounters found in a later part separate', () => {
+    const merged = mergeChunks([
+      [makeDoc(1, 2)],
+      [makeDoc(3, 3), makeDoc(4, 4)]
+    ], profile);
+
+    expect(merged.map(doc => doc.pageRange)).toEqual([{ start: 1, end: 2 }, { start: 3, end: 3 }, { start: 4, end: 4 }]);
+  });
+
+  it('joins the transcriptions of parts of a scanned record', () => {
+    const scanned: FileProfile = { ...profile, text: null };
+    const merged = mergeChunks([
+      [makeDoc(1, 2, { textSource: 'transcription', fullText: 'First half' })],
+      [makeDoc(3, 4, { textSource: 'transcription', fullText: null })],
+      [makeDoc(5, 6, { textSource: 'transcription', fullText: 'Second half' })]
+    ], { ...scanned, pageCount: 6 });
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].fullText).toBe('First half\n\nSecond half');
+  });
+});
+
+const encounter = (startPage: unknown, summary = `From page ${startPage}`) => ({ startPage, type: 'NOTE', summary });
+
+describe('toEncounterRanges', () => {
+  it('orders encounters by their first page', () => {
+    const ranges = toEncounterRanges([encounter(4), encounter(1)], 6);
+
+    expect(ranges?.map(r => r.pageRange)).toEqual([{ start: 1, end: 3 }, { start: 4, end: 6 }]);
+    expect(ranges?.map(r => r.encounter.summary)).toEqual(['From page 1', 'From page 4']);
+  });
+
+  it('keeps the first of encounters starting on the same page', () => {
+    const ranges = toEncounterRanges([encounter(1), encounter(3, 'First'), encounter(3, 'Second')], 5);
+
+    expect(ranges?.map(r => r.pageRange)).toEqual([{ start: 1, end: 2 }, { start: 3, end: 5 }]);
+    expect(ranges?.[1].encounter.summary).toBe('First');
+  });
+
+  it('gives pages before the first encounter to that encounter', () => {
+    const ranges = toEncounterRanges([encounter(2), encounter(4)], 5);
+
+    expect(ranges?.map(r => r.pageRange)).toEqual([{ start: 1, end: 3 }, { start: 4, end: 5 }]);
+  });
+
+  it('ignores encounters starting outside the file', () => {
+    const ranges = toEncounterRanges([encounter(1), encounter(3), encounter(9), encounter(0), encounter(1.5)], 4);
+
+    expect(ranges?.map(r => r.pageRange)).toEqual([{ start: 1, end: 2 }, { start: 3, end: 4 }]);
+  });
+
+  it('ignores encounters without a summary or type', () => {
+    const ranges = toEncounterRanges([encounter(1), { startPage: 2, type: 'NOTE' }, { startPage: 3, summary: 'x' }, encounter(4)], 5);
+
+    expect(ranges?.map(r => r.pageRange)).toEqual([{ start: 1, end: 3 }, { start: 4, end: 5 }]);
+  });
+
+  it('returns null unless two encounters remain', () => {
+    expect(toEncounterRanges(undefined, 4)).toBeNull();
+    expect(toEncounterRanges([encounter(1)], 4)).toBeNull();
+    expect(toEncounterRanges([encounter(2), encounter(7)], 4)).toBeNull();
+  });
+});
@@ -1,11 +1,33 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { ProcessedDocument, ReportData } from "../types";
+import { AnalysisProgressState, DocumentMetadata, PageRange, ProcessedDocument, RedactionBox, ReportData, ReportSection, ReportSettings } from "../types";
+import { AIPart, AIProvider, JsonSchema, RetryOptions, getAIConfig, getAIProvider, isAbortError, withRetry } from "./aiProvider";
+import { resolveDocument } from "./documentService";
+import { ExtractedLabValue, normalizeLabResult } from "./labService";
+import { buildMedicationHistory, formatRegimen, normalizeMedicationMention } from "./medicationService";
+import { resolveCitedParagraphs } from "./citationService";
+import { ExtractedText, extractLocalText, normalizeTranscription, pagesWithoutText, textOfPages } from "./textService";
+import { isWordFile } from "./wordDocumentService";
+import { countPdfPages, isPdfFile, renderPdfPages } from "./pdfService";
+import { burnRedactionBoxes } from "./redactionService";
+import { toBase64 } from "./cryptoService";
+import { parsePartialJson } from "./jsonStreamService";
+import { DEFAULT_REPORT_SETTINGS, getReportTemplate, getWordTarget } from "./reportTemplateService";
+import { getLanguage } from "./i18nService";
+import { FileProfile, PlannedEntry, SendOptions, packBatches, planRecord } from "./batchPlanService";
+import { toPageGroups } from "./pageGroupService";
 
-// Declare mammoth for TypeScript (loaded via global script in index.html)
-declare const mammoth: any;
+// Redaction applied to one file on its way to the model.
+export interface FileRedaction {
+  redactText: (text: string) => string;
+  // Boxes per page; images have a single page.
+  boxes: RedactionBox[][];
+}
 
-const compressImage = async (file: File): Promise<string> => {
+// Longest edge of images sent to the model.
+const MAX_SENT_EDGE = 1400;
+
+// Redaction boxes are burned into the pixels, so nothing under them is sent.
+const compressImage = async (file: File, boxes: RedactionBox[] = [], scale = 1): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -14,8 +36,8 @@ const compressImage = async (file: File): Promise<string> => {
       img.src = event.target?.result as string;
       img.onload = () => {
         const canvas = document.createElement('canvas');
-        const MAX_WIDTH = 1000;
-        const MAX_HEIGHT = 1400;
+        const MAX_WIDTH = 1000 * scale;
+        const MAX_HEIGHT = 1400 * scale;
         let width = img.width;
         let height = img.height;
 
@@ -35,6 +57,7 @@ const compressImage = async (file: File): Promise<string> => {
         canvas.height = height;
         const ctx = canvas.getContext('2d');
         ctx?.drawImage(img, 0, 0, width, height);
+        if (ctx) burnRedactionBoxes(ctx, width, height, boxes);
         const dataUrl = canvas.toDataURL('image/jpeg', 0.75); 
         resolve(dataUrl.split(',')[1]);
       };
@@ -44,144 +67,633 @@ const compressImage = async (file: File): Promise<string> => {
   });
 };
 
-type GeminiPart = { inlineData: { data: string; mimeType: string } } | { text: string };
+// Page markers let the model tell where each encounter of a compound PDF
+// starts; pages are numbered from the start of `range`.
+const withPageMarkers = (text: ExtractedText, range?: PageRange) => {
+  const pages = text.pages && range ? text.pages.slice(range.start - 1, range.end) : text.pages;
+  if (!pages) return text.text;
+  return pages.length > 1 ? pages.map((page, i) => `[Page ${i + 1}]\n${page}`).join('\n\n') : pages.join('');
+};
+
+export const outgoingFileName = (file: File, redaction?: FileRedaction) =>
+  redaction ? redaction.redactText(file.name) : file.name;
 
-const fileToGenerativePart = async (file: File): Promise<GeminiPart> => {
+const renderPdfParts = async (file: File, redaction: FileRedaction | undefined, send: SendOptions, range?: PageRange): Promise<AIPart[]> => {
+  const decorate = redaction && ((ctx: CanvasRenderingContext2D, page: number, width: number, height: number) =>
+    burnRedactionBoxes(ctx, width, height, redaction.boxes[page] || [])
+  );
+  const pages = await renderPdfPages(file, Math.round(MAX_SENT_EDGE * (send.scale ?? 1)), decorate || undefined, range);
+  return pages.map(page => ({ inlineData: { data: toBase64(page.data), mimeType: 'image/jpeg' } }));
+};
+
+// Builds exactly what is sent to the model for one file; the redaction review
+// previews the same parts. `localText` is the text already read from the file.
+// Redacted PDFs never leave as the original file: the text layer goes as
+// masked text, and scanned pages as images with the drawn boxes burned in,
+// including scanned pages among pages that have text.
+// `send` shrinks files too large for one request (see batchPlanService).
+export const prepareFileParts = async (
+  file: File,
+  localText: ExtractedText | null,
+  redaction?: FileRedaction,
+  send: SendOptions = {}
+): Promise<AIPart[]> => {
   try {
-    if (file.type === 'application/pdf') {
+    const name = outgoingFileName(file, redaction);
+
+    if (isWordFile(file)) {
+        const text = localText?.text || '';
+        return [{ text: `Word Content (${name}):\n${redaction ? redaction.redactText(text) : text}` }];
+    }
+
+    if (isPdfFile(file)) {
+        const mask = (text: string) => redaction ? redaction.redactText(text) : text;
+        if ((redaction || send.range || send.rasterize) && localText) {
+            const scanned = pagesWithoutText(localText, send.range);
+            if (scanned.length === 0) return [{ text: `PDF Text (${name}):\n${mask(withPageMarkers(localText, send.range))}` }];
+            // Page by page, with the pages that have no text layer as images
+            const start = send.range?.start ?? 1;
+            const parts: AIPart[] = [{ text: `PDF Text and Scanned Pages (${name}):` }];
+            for (const [i, text] of localText.pages!.slice(start - 1, send.range?.end).entries()) {
+                const page = start + i;
+                parts.push({ text: text ? `[Page ${i + 1}]\n${mask(text)}` : `[Page ${i + 1}]` });
+                if (!text) parts.push(...await renderPdfParts(file, redaction, send, { start: page, end: page }));
+            }
+            return parts;
+        }
+        if (redaction || send.range || send.rasterize) return renderPdfParts(file, redaction, send, send.range);
         return new Promise((resolve, reject) => {
             const reader = new FileReader();
             reader.onload = () => {
                 const base64 = (reader.result as string).split(',')[1];
-                resolve({ inlineData: { data: base64, mimeType: file.type } });
+                resolve([{ inlineData: { data: base64, mimeType: 'application/pdf' } }]);
             };
             reader.onerror = reject;
             reader.readAsDataURL(file);
         });
     }
 
-    if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onload = async (e) => {
-                const arrayBuffer = e.target?.result as ArrayBuffer;
-                try {
-                    const result = await mammoth.extractRawText({ arrayBuffer });
-                    resolve({ text: `Word Content (${file.name}):\n${result.value}` });
-                } catch (err) { reject(err); }
-            };
-            reader.onerror = reject;
-            reader.readAsArrayBuffer(file);
-        });
-    }
-
-    const base64Data = await compressImage(file);
-    return { inlineData: { data: base64Data, mimeType: 'image/jpeg' } };
+    const base64Data = await compressImage(file, redaction?.boxes[0], send.scale);
+    return [{ inlineData: { data: base64Data, mimeType: 'image/jpeg' } }];
   } catch (error) {
     console.error("Processing error:", file.name, error);
     throw error;
   }
 };
 
-const BATCH_SIZE = 10;
+// How many times files missing from a batch response are asked for again.
+const REQUERY_ATTEMPTS = 2;
 
-export const analyzeDocumentsMetadata = async (
-    files: File[], 
-    onProgress?: (processed: number, total: number) => void
-): Promise<Omit<ProcessedDocument, 'file' | 'previewUrl'>[]> => {
-  const allResults: any[] = [];
-  
-  // Re-initialize Gemini client to pick up latest API key
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  for (let i = 0; i < files.length; i += BATCH_SIZE) {
-    const chunk = files.slice(i, i + BATCH_SIZE);
-    const fileParts = await Promise.all(chunk.map(fileToGenerativePart));
-    
-    const prompt = `
-      You are a Medical Registrar. Analyze these ${chunk.length} records.
-      1. DATE: Extract exactly as YYYY-MM-DD.
-      2. TYPE: LAB, IMAGING, PRESCRIPTION, NOTE, or OTHER.
-      3. SUMMARY: 1-sentence clinical finding.
-      4. DUPLICATE: Mark true if identical content.
-    `;
-
-    const responseSchema = {
-      type: Type.ARRAY,
+export interface MetadataAnalysisResult {
+  // `originalIndex` of each entry points into the `files` array passed in.
+  documents: DocumentMetadata[];
+  // Files the model never returned a valid result for.
+  unmatchedFiles: File[];
+}
+
+export interface MetadataProgress {
+  // Files analyzed or given up on, out of all files of the run.
+  files: number;
+  totalFiles: number;
+  // Estimated encoded size of what this session has sent, out of what it plans to send.
+  bytes: number;
+  totalBytes: number;
+}
+
+export interface AnalyzeOptions {
+  // Progress from an earlier, interrupted run over the same `files`.
+  resumeFrom?: AnalysisProgressState;
+  // Called after every batch so callers can checkpoint the run. Batches run in
+  // parallel; calls are made one at a time, each with the latest state.
+  onBatchComplete?: (state: AnalysisProgressState) => Promise<void> | void;
+  onRetry?: RetryOptions['onRetry'];
+  signal?: AbortSignal;
+  // Masking applied before anything is sent; absent sends the files as they are.
+  redaction?: {
+    redactText: (text: string) => string;
+    // Per file (aligned with `files`), then per page.
+    boxes: RedactionBox[][][];
+  };
+  // Per file: whether it is a further page of the file before it. Each group
+  // of pages is analyzed as a single record.
+  continuesPrevious?: boolean[];
+}
+
+interface BatchEntry {
+  fileId: string;
+  // The record's files, one per page.
+  indices: number[];
+  // Pages of a PDF too large for one request that this entry covers.
+  range?: PageRange;
+  // Redacted file name, as sent.
+  name: string;
+  parts: AIPart[];
+  // Set when the record has no readable text and the model should transcribe it.
+  transcribe: boolean;
+  // Pages of a PDF of more than one page, which may bundle several encounters.
+  pdfPages?: number;
+}
+
+// Sends one batch and returns the results keyed by file id. Entries with an
+// unknown id, or an id the model used more than once, are discarded; the
+// caller asks again for files left without a result and reports the rest as unmatched.
+const requestBatchMetadata = async (provider: AIProvider, entries: BatchEntry[], options: AnalyzeOptions): Promise<Map<string, any>> => {
+  const prompt = `
+    You are a Medical Registrar. Analyze these ${entries.length} records.
+    Each record is preceded by a line "FILE <id>". Return exactly one entry per record
+    and copy its id into "fileId": ${entries.map(e => e.fileId).join(', ')}.
+    A record split into "PAGE" parts is one document photographed page by page; analyze its pages together.
+    1. DATE: Extract exactly as YYYY-MM-DD.
+    2. TYPE: LAB, IMAGING, PRESCRIPTION, NOTE, or OTHER.
+    3. SUMMARY: 1-sentence clinical finding.
+    4. LAB VALUES: For LAB records, list every measured analyte with its value and unit exactly
+       as printed, the reference range, and the collection date (YYYY-MM-DD). Empty list otherwise.
+    5. MEDICATIONS: For PRESCRIPTION and NOTE records, list every drug with dose, frequency,
+       prescriber, date (YYYY-MM-DD) and action: START, CONTINUE, CHANGE or STOP. Empty list otherwise.
+    6. TRANSCRIPTION: For records whose FILE line ends with TRANSCRIBE, the complete text of the
+       record exactly as printed or written, in reading order. Empty string otherwise.
+    7. ENCOUNTERS: A FILE line with "PAGES <n>" is a PDF that may bundle several separate encounters,
+       such as visits, admissions or reports from different dates, exported together. If it does,
+       list each encounter in page order with its first page (1 to n) and its own date, type, summary,
+       lab values, medications and transcription; the fields above then describe the file as a whole.
+       Empty list when the file is a single encounter, and for every other record.
+  `;
+
+  const recordProperties: Record<string, JsonSchema> = {
+    date: { type: 'string' },
+    type: { type: 'string', enum: ['LAB', 'IMAGING', 'PRESCRIPTION', 'NOTE', 'OTHER'] },
+    summary: { type: 'string' },
+    labResults: {
+      type: 'array',
       items: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
-          date: { type: Type.STRING },
-          type: { type: Type.STRING },
-          summary: { type: Type.STRING },
-          isDuplicate: { type: Type.BOOLEAN }
+          analyte: { type: 'string' },
+          value: { type: 'string' },
+          unit: { type: 'string' },
+          referenceRange: { type: 'string' },
+          collectionDate: { type: 'string' }
         },
-        required: ['type', 'summary', 'isDuplicate']
+        required: ['analyte', 'value']
       }
-    };
+    },
+    medications: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          drug: { type: 'string' },
+          dose: { type: 'string' },
+          frequency: { type: 'string' },
+          prescriber: { type: 'string' },
+          date: { type: 'string' },
+          action: { type: 'string', enum: ['START', 'CONTINUE', 'CHANGE', 'STOP'] }
+        },
+        required: ['drug', 'action']
+      }
+    },
+    transcription: { type: 'string' }
+  };
 
-    // Correctly use contents: { parts: [...] } for multi-part input
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: { parts: [{ text: prompt }, ...fileParts] },
-      config: { responseMimeType: "application/json", responseSchema: responseSchema }
-    });
+  const responseSchema: JsonSchema = {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        fileId: { type: 'string', enum: entries.map(e => e.fileId) },
+        ...recordProperties,
+        encounters: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { startPage: { type: 'integer' }, ...recordProperties },
+            required: ['startPage', 'type', 'summary']
+          }
+        }
+      },
+      required: ['fileId', 'type', 'summary']
+    }
+  };
+
+  const parts: AIPart[] = [{ text: prompt }];
+  entries.forEach(entry => parts.push(
+    { text: `FILE ${entry.fileId} (${entry.name})${entry.pdfPages ? ` PAGES ${entry.pdfPages}` : ''}${entry.transcribe ? ' TRANSCRIBE' : ''}` },
+    ...entry.parts
+  ));
 
-    // Directly access .text property
-    const batchData = JSON.parse(response.text || "[]");
-    
-    batchData.forEach((item: any) => {
-      allResults.push({
-        id: Math.random().toString(36).substring(7),
-        date: item.date || null,
-        type: item.type,
-        summary: item.summary,
-        isDuplicate: item.isDuplicate
-      });
+  const { signal, onRetry } = options;
+  const responseText = await withRetry(
+    () => provider.generateJson({ task: 'metadata', parts, schema: responseSchema, signal }),
+    { signal, onRetry }
+  );
+  const batchData = JSON.parse(responseText || "[]");
+  const items: any[] = Array.isArray(batchData) ? batchData : [];
+
+  const validIds = new Set(entries.map(e => e.fileId));
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(item?.fileId, (counts.get(item?.fileId) || 0) + 1));
+
+  const matched = new Map<string, any>();
+  items.forEach(item => {
+    if (validIds.has(item?.fileId) && counts.get(item.fileId) === 1) matched.set(item.fileId, item);
+  });
+  return matched;
+};
+
+const toDocumentMetadata = (item: any, text: ExtractedText | null, originalIndex: number): DocumentMetadata => {
+  const date = item.date || null;
+  const labResults = (Array.isArray(item.labResults) ? item.labResults : [])
+    .map((raw: ExtractedLabValue) => normalizeLabResult(raw, date))
+    .filter(Boolean);
+  const medications = (Array.isArray(item.medications) ? item.medications : [])
+    .map((raw: unknown) => normalizeMedicationMention(raw, date))
+    .filter(Boolean);
+  return {
+    id: Math.random().toString(36).substring(7),
+    date,
+    type: item.type,
+    summary: item.summary,
+    // Duplicates are detected locally from file hashes, not by the model
+    isDuplicate: false,
+    labResults: labResults.length > 0 ? labResults : undefined,
+    medications: medications.length > 0 ? medications : undefined,
+    fullText: text?.text ?? null,
+    textSource: text?.source,
+    originalIndex
+  };
+};
+
+// Encounters of a compound PDF as page ranges covering the whole file; pages
+// before the next encounter's first page stay with the one before. Null
+// unless the model found at least two encounters starting on distinct pages.
+export const toEncounterRanges = (encounters: unknown, pageCount: number): { encounter: any; pageRange: PageRange }[] | null => {
+  if (!Array.isArray(encounters)) return null;
+  const starts = new Map<number, any>();
+  encounters.forEach(encounter => {
+    const start = Number(encounter?.startPage);
+    if (!Number.isInteger(start) || start < 1 || start > pageCount || starts.has(start)) return;
+    if (typeof encounter.summary !== 'string' || !encounter.type) return;
+    starts.set(start, encounter);
+  });
+  const ordered = [...starts.entries()].sort(([a], [b]) => a - b);
+  if (ordered.length < 2) return null;
+  return ordered.map(([start, encounter], i) => ({
+    encounter,
+    pageRange: { start: i === 0 ? 1 : start, end: i + 1 < ordered.length ? ordered[i + 1][0] - 1 : pageCount }
+  }));
+};
+
+// Records from one response entry: one per encounter of a compound PDF, otherwise one.
+const toDocuments = (entry: BatchEntry, item: any, localText: ExtractedText | null): DocumentMetadata[] => {
+  const index = entry.indices[0];
+  const textOf = (source: any, range?: PageRange) => entry.transcribe || !localText
+    ? normalizeTranscription(source.transcription)
+    : range ? textOfPages(localText, range) : localText;
+  // Encounter pages count from the start of the range that was sent
+  const offset = (entry.range?.start ?? 1) - 1;
+  const encounters = entry.pdfPages ? toEncounterRanges(item.encounters, entry.pdfPages) : null;
+  if (encounters) {
+    return encounters.map(({ encounter, pageRange: sent }) => {
+      const pageRange = { start: sent.start + offset, end: sent.end + offset };
+      return { ...toDocumentMetadata(encounter, textOf(encounter, pageRange), index), pageRange };
     });
+  }
+  return [{
+    ...toDocumentMetadata(item, textOf(item, entry.range), index),
+    pageRange: entry.range,
+    pageCount: entry.indices.length > 1 ? entry.indices.length : undefined
+  }];
+};
+
+// One record from consecutive page ranges of a PDF that was sent in parts.
+const mergeDocuments = (parts: DocumentMetadata[], profile: FileProfile): DocumentMetadata => {
+  const range = { start: parts[0].pageRange!.start, end: parts[parts.length - 1].pageRange!.end };
+  const whole = range.start === 1 && range.end === profile.pageCount;
+  const fullText = parts[0].textSource !== 'transcription' && profile.text
+    ? (whole ? profile.text : textOfPages(profile.text, range))?.text ?? null
+    : parts.map(part => part.fullText).filter(Boolean).join('\n\n') || null;
+  const labResults = parts.flatMap(part => part.labResults || []);
+  const medications = parts.flatMap(part => part.medications || []);
+  return {
+    ...parts[0],
+    date: parts.find(part => part.date)?.date ?? null,
+    labResults: labResults.length > 0 ? labResults : undefined,
+    medications: medications.length > 0 ? medications : undefined,
+    fullText,
+    pageRange: whole ? undefined : range
+  };
+};
 
-    if (onProgress) onProgress(Math.min(i + BATCH_SIZE, files.length), files.length);
+// Splitting a PDF to fit the request limits must not split the record: the
+// parts are joined back into one, except where the model found separate
+// encounters, and a part without any joins the encounter before it.
+export const mergeChunks = (chunks: DocumentMetadata[][], profile: FileProfile): DocumentMetadata[] => {
+  const ordered = [...chunks].sort((a, b) => a[0].pageRange!.start - b[0].pageRange!.start);
+  const runs: DocumentMetadata[][] = [];
+  ordered.forEach(chunk => {
+    if (chunk.length > 1 || runs.length === 0) chunk.forEach(doc => runs.push([doc]));
+    else runs[runs.length - 1].push(chunk[0]);
+  });
+  return runs.map(run => mergeDocuments(run, profile));
+};
+
+const partsSize = (parts: AIPart[]) =>
+  parts.reduce((sum, part) => sum + ('text' in part ? part.text.length : part.inlineData.data.length), 0);
+
+// Files whose results are final, out of all files of a run.
+export const countAnalyzedFiles = (state: AnalysisProgressState) => state.nextIndex + (state.completedIndices?.length || 0);
+
+// Batches are planned from estimated payload sizes against the provider's
+// request limits and sent in parallel, up to its concurrency cap.
+export const analyzeDocumentsMetadata = async (
+    files: File[],
+    onProgress?: (progress: MetadataProgress) => void,
+    options: AnalyzeOptions = {}
+): Promise<MetadataAnalysisResult> => {
+  const provider = getAIProvider();
+  const { limits } = getAIConfig();
+  const resume = options.resumeFrom;
+  const done = new Set<number>([
+    ...Array.from({ length: resume?.nextIndex || 0 }, (_, i) => i),
+    ...(resume?.completedIndices || [])
+  ]);
+  // Results of a record that was only partly analyzed are dropped; the record is sent again
+  const documents: DocumentMetadata[] = (resume?.documents || []).filter(doc => done.has(doc.originalIndex!));
+  const unmatchedIndices: number[] = [...(resume?.unmatchedIndices || [])];
+
+  // Shared by the parallel batches, so one failure stops the others
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  options.signal?.addEventListener('abort', abort, { once: true });
+  if (options.signal?.aborted) abort();
+  const requestOptions: AnalyzeOptions = { ...options, signal: controller.signal };
+  const throwIfAborted = () => {
+    if (controller.signal.aborted) throw new DOMException('Analysis aborted', 'AbortError');
+  };
+
+  const redactionFor = (index: number): FileRedaction | undefined => options.redaction && {
+    redactText: options.redaction.redactText,
+    boxes: options.redaction.boxes[index] || []
+  };
+
+  // Text and page counts are read first, one file at a time, to plan the batches
+  const groups = toPageGroups(files.length, options.continuesPrevious).filter(group => !done.has(group[0]));
+  const profiles: FileProfile[] = [];
+  for (const index of groups.flat()) {
+    throwIfAborted();
+    const file = files[index];
+    const text = await extractLocalText(file);
+    const pageCount = isPdfFile(file) ? text?.pages?.length ?? await countPdfPages(file).catch(() => 1) : 1;
+    profiles[index] = { file, text, pageCount, redacted: !!options.redaction };
   }
+  const planned = groups.flatMap(group => planRecord(group, profiles, limits));
+  const batches = packBatches(planned, limits);
+
+  // Requests still outstanding per record, keyed by its first file
+  const outstanding = new Map<number, number>();
+  planned.forEach(entry => outstanding.set(entry.indices[0], (outstanding.get(entry.indices[0]) || 0) + 1));
+  const failedRecords = new Set<number>();
+  // Results of a PDF sent as page ranges, kept until every range is back
+  const chunkResults = new Map<number, DocumentMetadata[][]>();
+
+  const totalBytes = planned.reduce((sum, entry) => sum + entry.estimate.bytes, 0);
+  let sentBytes = 0;
+  let nextIndex = resume?.nextIndex || 0;
+
+  const finishEntry = (entry: PlannedEntry, results: DocumentMetadata[] | null) => {
+    const key = entry.indices[0];
+    if (!results) failedRecords.add(key);
+    else if (entry.send.range) chunkResults.set(key, [...(chunkResults.get(key) || []), results]);
+    else documents.push(...results);
+    const left = outstanding.get(key)! - 1;
+    outstanding.set(key, left);
+    if (left > 0) return;
+    // A record split over several requests is only kept when every part came back
+    if (failedRecords.has(key)) {
+      unmatchedIndices.push(...entry.indices);
+    } else if (chunkResults.has(key)) {
+      documents.push(...mergeChunks(chunkResults.get(key)!, profiles[key]));
+    }
+    chunkResults.delete(key);
+    entry.indices.forEach(index => done.add(index));
+  };
+
+  const snapshot = (): AnalysisProgressState => {
+    while (done.has(nextIndex)) nextIndex++;
+    return {
+      nextIndex,
+      completedIndices: [...done].filter(index => index > nextIndex),
+      documents: [...documents],
+      unmatchedIndices: [...unmatchedIndices]
+    };
+  };
+  // Checkpoints are written one after another, so the last one written is the latest
+  let saving: Promise<unknown> = Promise.resolve();
+
+  const prepareEntry = async (entry: PlannedEntry, j: number): Promise<BatchEntry> => {
+    const { indices, send } = entry;
+    const first = profiles[indices[0]];
+    const partsOf = (index: number) => prepareFileParts(files[index], profiles[index].text, redactionFor(index), send);
+    const name = outgoingFileName(first.file, redactionFor(indices[0]));
+    const pdfPages = isPdfFile(first.file) ? (send.range ? send.range.end - send.range.start + 1 : first.pageCount) : 0;
+    return {
+      fileId: `F${j + 1}`,
+      indices,
+      range: send.range,
+      name: indices.length > 1 ? `${name}, ${indices.length} pages` : name,
+      parts: indices.length > 1
+        ? (await Promise.all(indices.map(partsOf))).flatMap((parts, page): AIPart[] => [{ text: `PAGE ${page + 1}` }, ...parts])
+        : await partsOf(indices[0]),
+      transcribe: indices.some(index => !profiles[index].text),
+      pdfPages: pdfPages > 1 ? pdfPages : undefined
+    };
+  };
+
+  const runBatch = async (batch: PlannedEntry[]): Promise<void> => {
+    throwIfAborted();
+    const entries = await Promise.all(batch.map(prepareEntry));
+    // Estimates can fall short; a batch that turns out too large is halved
+    if (batch.length > 1 && entries.reduce((sum, entry) => sum + partsSize(entry.parts), 0) > limits.maxRequestBytes) {
+      const half = Math.ceil(batch.length / 2);
+      await runBatch(batch.slice(0, half));
+      await runBatch(batch.slice(half));
+      return;
+    }
+
+    const matched = await requestBatchMetadata(provider, entries, requestOptions);
+    let missing = entries.filter(e => !matched.has(e.fileId));
+
+    // Ask again only for the files that did not come back cleanly
+    for (let attempt = 0; missing.length > 0 && attempt < REQUERY_ATTEMPTS; attempt++) {
+      const retried = await requestBatchMetadata(provider, missing, requestOptions);
+      retried.forEach((item, fileId) => matched.set(fileId, item));
+      missing = missing.filter(e => !matched.has(e.fileId));
+    }
 
-  return allResults;
+    entries.forEach((entry, j) => {
+      const item = matched.get(entry.fileId);
+      finishEntry(batch[j], item ? toDocuments(entry, item, profiles[entry.indices[0]].text) : null);
+    });
+    sentBytes += batch.reduce((sum, entry) => sum + entry.estimate.bytes, 0);
+
+    const state = snapshot();
+    saving = saving.then(() => options.onBatchComplete?.(state));
+    await saving;
+    onProgress?.({ files: done.size, totalFiles: files.length, bytes: sentBytes, totalBytes });
+  };
+
+  let nextBatch = 0;
+  const worker = async () => {
+    while (nextBatch < batches.length) {
+      const batch = batches[nextBatch++];
+      try {
+        await runBatch(batch);
+      } catch (error) {
+        abort();
+        throw error;
+      }
+    }
+  };
+  const results = await Promise.allSettled(Array.from({ length: Math.min(limits.concurrency, batches.length) }, worker));
+  options.signal?.removeEventListener('abort', abort);
+  const errors = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+  // Report what stopped the run rather than the aborts it caused in the other batches
+  if (errors.length > 0) throw errors.find(error => !isAbortError(error)) ?? errors[0];
+  throwIfAborted();
+
+  documents.sort((a, b) => a.originalIndex! - b.originalIndex! || (a.pageRange?.start ?? 0) - (b.pageRange?.start ?? 0));
+  return { documents, unmatchedFiles: unmatchedIndices.map(index => files[index]) };
 };
 
-export const generateMedicalReport = async (documents: ProcessedDocument[]): Promise<ReportData> => {
-  // Re-initialize Gemini client to pick up latest API key
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+// The sections of a report while it is still being streamed, in template order.
+export type ReportDraft = ReportSection[];
+
+export interface ReportOptions {
+  // Template, length, focus and language; the English clinical overview when absent.
+  settings?: ReportSettings;
+  // Masks the prompt the same way uploads were masked.
+  redactText?: (text: string) => string;
+  signal?: AbortSignal;
+  // Called whenever more of the streamed sections has arrived.
+  onDraft?: (draft: ReportDraft) => void;
+}
+
+// Section text from a partially parsed response; paragraphs still arriving are included as far as they go.
+const draftSection = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (!Array.isArray(value)) return '';
+  return value.map(p => p?.text).filter((text): text is string => typeof text === 'string' && !!text).join('\n\n');
+};
+
+// Records a report is synthesized from. Duplicate imaging stays in, as a repeated
+// study is part of the history rather than a copy of one record.
+export const isReportSource = (doc: ProcessedDocument) => !doc.isDuplicate || doc.type === 'IMAGING';
+
+export const generateMedicalReport = async (documents: ProcessedDocument[], options: ReportOptions = {}): Promise<ReportData> => {
+  const provider = getAIProvider();
+  const { settings = DEFAULT_REPORT_SETTINGS, redactText = (text: string) => text, signal, onDraft } = options;
+  const template = getReportTemplate(settings.templateId);
+  // Section headings are stored in the language the report is written in
+  const { sections: localizedSections } = getReportTemplate(settings.templateId, settings.language);
+  const language = getLanguage(settings.language);
+
   const activeDocs = documents
-    .filter(d => !d.isDuplicate || d.type === 'IMAGING')
+    .map(resolveDocument)
+    .filter(isReportSource)
     .sort((a, b) => (a.date || '').localeCompare(b.date || ''));
 
-  const timelineText = activeDocs.map(d => 
-    `Date: ${d.date || 'Unknown'} | Type: ${d.type} | Finding: ${d.summary}`
+  // Each record gets a short label the model cites; labels map back to document ids
+  const labels = new Map(activeDocs.map((d, i) => [`R${i + 1}`, d.id]));
+  const labelOf = new Map(activeDocs.map((d, i) => [d.id, `R${i + 1}`]));
+
+  const timelineText = activeDocs.map(d => {
+    const labs = (d.labResults || []).map(r =>
+      r.value !== null ? `${r.analyte} ${r.value} ${r.unit}`.trim() : `${r.analyte} ${r.rawValue} ${r.rawUnit}`.trim()
+    ).join(', ');
+    return `[${labelOf.get(d.id)}] Date: ${d.date || 'Unknown'} | Type: ${d.type} | Finding: ${d.summary}${labs ? ` | Labs: ${labs}` : ''}`;
+  }).join('\n');
+
+  // Medication courses are reconstructed locally so the model cannot invent them
+  const medications = buildMedicationHistory(activeDocs);
+  const medicationText = medications.map(m =>
+    `${m.drug} (${formatRegimen(m, 'en')}) from ${m.startDate || 'Unknown'} to ${m.isActive ? 'present' : m.endDate || 'Unknown'} ` +
+    `[${m.documentIds.map(id => labelOf.get(id)).filter(Boolean).join(', ')}]`
   ).join('\n');
 
+  const focus = settings.focus.trim();
+  const recipient = template.recipient && settings.recipient.trim();
   const prompt = `
+    Write a ${template.name} for ${template.audience}.
+    Tone: ${template.tone}
+    ${focus ? `Concentrate on: ${focus}. Leave out records that do not bear on it.` : ''}
+    ${recipient ? `Address it to: ${recipient}.` : ''}
+    Length: about ${getWordTarget(settings)} words in total.
+    Language: write every section in ${language.name}, whatever the language of the records.
+    Keep drug names, units and numeric values exactly as they appear in the records.
+
     Synthesize this medical timeline:
     ${timelineText}
-    
-    Return JSON with: history, summary, prognosis.
+    ${medicationText ? `Medication courses:\n${medicationText}` : ''}
+
+    Return JSON with one field per section:
+    ${template.sections.map(section => `- ${section.key} (${section.title}): ${section.instruction}`).join('\n    ')}
+    Write each section as a list of paragraphs. For every paragraph, list in "sources"
+    the record labels (e.g. "R3") that support it. Only cite labels listed above.
   `;
 
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      history: { type: Type.STRING },
-      summary: { type: Type.STRING },
-      prognosis: { type: Type.STRING },
-    },
-    required: ['history', 'summary', 'prognosis']
+  const paragraphsSchema: JsonSchema = {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        text: { type: 'string' },
+        sources: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['text', 'sources']
+    }
   };
 
-  // Correctly use contents: string for simple text generation
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: prompt,
-    config: { responseMimeType: "application/json", responseSchema: responseSchema }
+  const responseSchema: JsonSchema = {
+    type: 'object',
+    properties: Object.fromEntries(template.sections.map(section => [section.key, paragraphsSchema])),
+    required: template.sections.map(section => section.key)
+  };
+
+  const responseText = await provider.generateJson({
+    task: 'report',
+    parts: [{ text: redactText(prompt) }],
+    schema: responseSchema,
+    signal,
+    onText: onDraft && (text => {
+      const partial = parsePartialJson(text) as Record<string, unknown> | undefined;
+      if (partial && typeof partial === 'object') {
+        onDraft(localizedSections.map(({ key, title }) => ({ key, title, text: draftSection(partial[key]) })));
+      }
+    })
   });
 
-  // Directly access .text property
-  return JSON.parse(response.text || "{}") as ReportData;
+  let parsed: any;
+  try {
+    parsed = JSON.parse(responseText || "{}");
+  } catch {
+    throw new Error("The report stream ended before the report was complete.");
+  }
+  const report: ReportData = {
+    settings,
+    sections: localizedSections.map(({ key, title }) => {
+      const paragraphs = resolveCitedParagraphs(parsed[key], labels);
+      // Providers that ignore the schema may still answer with plain text
+      if (!paragraphs) return { key, title, text: typeof parsed[key] === 'string' ? parsed[key] : '' };
+      return { key, title, text: paragraphs.map(p => p.text).join('\n\n'), paragraphs };
+    }),
+    medications,
+    version: {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+      generatedAt: new Date().toISOString(),
+      provider: provider.name,
+      model: provider.modelFor('report'),
+      documentIds: activeDocs.map(d => d.id),
+    }
+  };
+  return report;
 };
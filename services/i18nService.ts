@@ -0,0 +1,89 @@
+import { Locale, ReportTemplateId } from "../types";
+import { en, MessageKey, Messages } from "../locales/en";
+import { es, esTemplates } from "../locales/es";
+import { ar, arTemplates } from "../locales/ar";
+
+const STORAGE_KEY_LOCALE = 'medichronicle_locale';
+
+export interface LanguageInfo {
+  id: Locale;
+  // English name, as used in the report prompt.
+  name: string;
+  nativeName: string;
+  // BCP 47 tag for dates and for the language of exported documents.
+  tag: string;
+  rtl: boolean;
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { id: 'en', name: 'English', nativeName: 'English', tag: 'en-US', rtl: false },
+  { id: 'es', name: 'Spanish', nativeName: 'Español', tag: 'es-ES', rtl: false },
+  { id: 'ar', name: 'Arabic', nativeName: 'العربية', tag: 'ar-SA', rtl: true },
+];
+
+// Display text of a report template; the English text lives with the template itself.
+export interface TemplateTranslation {
+  name: string;
+  description: string;
+  title: string;
+  focus?: { label: string; placeholder: string };
+  recipient?: { label: string; placeholder: string };
+  // Section titles by section key.
+  sections: Record<string, string>;
+}
+
+export type TemplateTranslations = Record<ReportTemplateId, TemplateTranslation>;
+
+export type TranslationParams = Record<string, string | number>;
+
+const MESSAGES: Record<Locale, Messages> = { en, es, ar };
+const TEMPLATES: Partial<Record<Locale, TemplateTranslations>> = { es: esTemplates, ar: arTemplates };
+
+export const isLocale = (value: unknown): value is Locale => LANGUAGES.some(l => l.id === value);
+
+export const getLanguage = (locale: Locale): LanguageInfo => LANGUAGES.find(l => l.id === locale) || LANGUAGES[0];
+
+export const isRtl = (locale: Locale): boolean => getLanguage(locale).rtl;
+
+const RTL_LETTER = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const STRONG_LETTER = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFFA-Za-z\u00C0-\u024F]/;
+
+// Direction of text in an unknown language, such as a source record, from its first letter.
+export const isRtlText = (text: string): boolean => RTL_LETTER.test(text.match(STRONG_LETTER)?.[0] || '');
+
+// {count, plural, one {# record} other {# records}}, with the categories of Intl.PluralRules.
+const PLURAL_PATTERN = /\{(\w+), plural, ((?:\w+ \{[^{}]*\}\s*)+)\}/g;
+const PLURAL_FORM_PATTERN = /(\w+) \{([^{}]*)\}/g;
+
+// Looks up a message and fills in its {placeholders} and plural forms.
+export const translate = (locale: Locale, key: MessageKey, params?: TranslationParams): string => {
+  const message = MESSAGES[locale]?.[key] ?? en[key];
+  if (!params) return message;
+  const rules = new Intl.PluralRules(getLanguage(locale).tag);
+  return message
+    .replace(PLURAL_PATTERN, (match, name, forms: string) => {
+      const count = Number(params[name]);
+      const options = Object.fromEntries([...forms.matchAll(PLURAL_FORM_PATTERN)].map(([, category, text]) => [category, text]));
+      const form = options[rules.select(count)] ?? options.other;
+      return form === undefined ? match : form.replace(/#/g, String(count));
+    })
+    .replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+};
+
+export const formatMegabytes = (bytes: number, locale: Locale): string =>
+  new Intl.NumberFormat(getLanguage(locale).tag, { style: 'unit', unit: 'megabyte', maximumFractionDigits: 1 }).format(bytes / (1024 * 1024));
+
+export const getTemplateTranslation = (locale: Locale, id: ReportTemplateId): TemplateTranslation | undefined =>
+  TEMPLATES[locale]?.[id];
+
+// The saved choice, else the browser language when there is a translation for it.
+export const loadUiLocale = (): Locale => {
+  const saved = localStorage.getItem(STORAGE_KEY_LOCALE);
+  if (isLocale(saved)) return saved;
+  const browser = navigator.language.split('-')[0];
+  return isLocale(browser) ? browser : 'en';
+};
+
+export const saveUiLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY_LOCALE, locale);
+};
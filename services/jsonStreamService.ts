@@ -0,0 +1,37 @@
+// Best-effort parse of a JSON document that is still being streamed: the open
+// string, arrays and objects are closed, and a trailing key without a value is
+// dropped. Returns undefined while nothing usable has arrived yet.
+export const parsePartialJson = (text: string): unknown => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') closers.push('}');
+    else if (char === '[') closers.push(']');
+    else if (char === '}' || char === ']') closers.pop();
+  }
+
+  let head = text.trimEnd();
+  if (inString) {
+    // An escape sequence cut in half cannot be closed, so it is dropped
+    head = head.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '') + '"';
+  }
+  if (closers[closers.length - 1] === '}') {
+    // Inside an object, a string right after '{' or ',' is a key still waiting for its value
+    head = head.replace(/(?<=[{,])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '');
+  }
+  head = head.replace(/,\s*$/, '');
+
+  try {
+    return JSON.parse(head + closers.reverse().join(''));
+  } catch {
+    return undefined;
+  }
+};
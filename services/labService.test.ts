@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { ProcessedDocument } from "../types";
+import { buildLabHistory, normalizeLabResult } from "./labService";
+
+describe('normalizeLabResult', () => {
+  it('converts mmol/L to the canonical mg/dL, range included', () => {
+    const result = normalizeLabResult({ analyte: 'Fasting glucose', value: '5.5', unit: 'mmol/L', referenceRange: '3.9-5.6' }, '2024-01-01');
+
+    expect(result).toMatchObject({
+      analyte: 'Glucose', value: 99.09, unit: 'mg/dL', referenceLow: 70.26, referenceHigh: 100.89,
+      rawValue: '5.5', rawUnit: 'mmol/L', collectionDate: '2024-01-01'
+    });
+  });
+
+  it('keeps values already in the canonical unit', () => {
+    const result = normalizeLabResult({ analyte: 'Total cholesterol', value: '190', unit: 'mg/dl' }, null);
+
+    expect(result).toMatchObject({ analyte: 'Total Cholesterol', value: 190, unit: 'mg/dL' });
+  });
+
+  it('converts units written with a micro sign or in litres', () => {
+    expect(normalizeLabResult({ analyte: 'Creatinine', value: '88.42', unit: 'µmol/L' }, null)?.value).toBe(1);
+    expect(normalizeLabResult({ analyte: 'Hemoglobin', value: '135', unit: 'g/litre' }, null)).toMatchObject({ value: 13.5, unit: 'g/dL' });
+  });
+
+  it('reads upper bounds and dash ranges', () => {
+    expect(normalizeLabResult({ analyte: 'HbA1c', value: '5.9', unit: '%', referenceRange: '<5.7' }, null))
+      .toMatchObject({ referenceLow: null, referenceHigh: 5.7, referenceRange: '<5.7' });
+    expect(normalizeLabResult({ analyte: 'HbA1c', value: '5.9', unit: '%', referenceRange: '4.0–5.6' }, null))
+      .toMatchObject({ referenceLow: 4, referenceHigh: 5.6 });
+    expect(normalizeLabResult({ analyte: 'eGFR', value: '75', referenceRange: '> 60' }, null))
+      .toMatchObject({ referenceLow: 60, referenceHigh: null, unit: 'mL/min/1.73m2' });
+  });
+
+  it('keeps non-numeric values as printed', () => {
+    const result = normalizeLabResult({ analyte: 'Urine protein', value: ' Negative ', unit: '' }, null);
+
+    expect(result).toMatchObject({ analyte: 'Urine protein', value: null, unit: '', rawValue: 'Negative' });
+  });
+
+  it('keeps a value in an unknown unit unconverted', () => {
+    const result = normalizeLabResult({ analyte: 'Glucose', value: '100', unit: 'mg%' }, null);
+
+    expect(result).toMatchObject({ analyte: 'Glucose', value: 100, unit: 'mg%', rawUnit: 'mg%' });
+  });
+
+  it('drops entries without an analyte or value', () => {
+    expect(normalizeLabResult({ analyte: 'Glucose' }, null)).toBeNull();
+    expect(normalizeLabResult({ value: '5' }, null)).toBeNull();
+  });
+});
+
+describe('buildLabHistory', () => {
+  it('flags out-of-range values and skips duplicates', () => {
+    const lab = (id: string, value: string, isDuplicate = false): ProcessedDocument => ({
+      id,
+      file: new File([id], `${id}.pdf`, { type: 'application/pdf' }),
+      previewUrl: '',
+      date: '2024-01-01',
+      type: 'LAB',
+      summary: id,
+      isDuplicate,
+      labResults: [normalizeLabResult({ analyte: 'HbA1c', value, unit: '%', referenceRange: '4.0-5.6' }, null)!]
+    });
+
+    const rows = buildLabHistory([lab('a', '6.1'), lab('b', '5.0', true)]);
+    expect(rows).toEqual([
+      { date: '2024-01-01', analyte: 'HbA1c', value: '6.1', unit: '%', referenceRange: '4–5.6', outOfRange: true, documentId: 'a' }
+    ]);
+  });
+});
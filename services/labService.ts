@@ -0,0 +1,231 @@
+import { LabResult, ProcessedDocument } from "../types";
+import { resolveDocument } from "./documentService";
+
+// Raw lab entry as returned by the model, before parsing and normalization.
+export interface ExtractedLabValue {
+  analyte?: string;
+  value?: string;
+  unit?: string;
+  referenceRange?: string;
+  collectionDate?: string;
+}
+
+interface AnalyteDefinition {
+  name: string;
+  aliases: string[];
+  unit: string;
+  // Multipliers (or converters) from other units to `unit`, keyed by normalized unit.
+  conversions: Record<string, (value: number) => number>;
+}
+
+// Analytes users track over years. Anything not listed is kept as printed.
+const ANALYTES: AnalyteDefinition[] = [
+  {
+    name: 'HbA1c', unit: '%',
+    aliases: ['hba1c', 'hemoglobin a1c', 'haemoglobin a1c', 'a1c', 'glycated hemoglobin', 'glycated haemoglobin', 'glycosylated hemoglobin'],
+    conversions: { 'mmol/mol': v => 0.09148 * v + 2.152 }
+  },
+  {
+    name: 'Creatinine', unit: 'mg/dL',
+    aliases: ['creatinine', 'serum creatinine', 'creat', 'cr'],
+    conversions: { 'umol/l': v => v / 88.42, 'mmol/l': v => (v * 1000) / 88.42 }
+  },
+  {
+    name: 'eGFR', unit: 'mL/min/1.73m2',
+    aliases: ['egfr', 'estimated gfr', 'gfr'],
+    conversions: {}
+  },
+  {
+    name: 'Glucose', unit: 'mg/dL',
+    aliases: ['glucose', 'fasting glucose', 'blood glucose', 'fasting blood sugar', 'fbs', 'fasting plasma glucose'],
+    conversions: { 'mmol/l': v => v * 18.016 }
+  },
+  {
+    name: 'Total Cholesterol', unit: 'mg/dL',
+    aliases: ['cholesterol', 'total cholesterol', 'chol'],
+    conversions: { 'mmol/l': v => v * 38.67 }
+  },
+  {
+    name: 'LDL Cholesterol', unit: 'mg/dL',
+    aliases: ['ldl', 'ldl cholesterol', 'ldl-c', 'ldl-cholesterol'],
+    conversions: { 'mmol/l': v => v * 38.67 }
+  },
+  {
+    name: 'HDL Cholesterol', unit: 'mg/dL',
+    aliases: ['hdl', 'hdl cholesterol', 'hdl-c', 'hdl-cholesterol'],
+    conversions: { 'mmol/l': v => v * 38.67 }
+  },
+  {
+    name: 'Triglycerides', unit: 'mg/dL',
+    aliases: ['triglycerides', 'triglyceride', 'tg', 'trig'],
+    conversions: { 'mmol/l': v => v * 88.57 }
+  },
+  {
+    name: 'Hemoglobin', unit: 'g/dL',
+    aliases: ['hemoglobin', 'haemoglobin', 'hgb', 'hb'],
+    conversions: { 'g/l': v => v / 10, 'mmol/l': v => v * 1.611 }
+  },
+  {
+    name: 'Potassium', unit: 'mmol/L',
+    aliases: ['potassium', 'k', 'k+'],
+    conversions: { 'meq/l': v => v }
+  },
+  {
+    name: 'Sodium', unit: 'mmol/L',
+    aliases: ['sodium', 'na', 'na+'],
+    conversions: { 'meq/l': v => v }
+  },
+  {
+    name: 'TSH', unit: 'mIU/L',
+    aliases: ['tsh', 'thyroid stimulating hormone', 'thyrotropin'],
+    conversions: { 'uiu/ml': v => v, 'miu/ml': v => v * 1000 }
+  },
+];
+
+const normalizeUnit = (unit: string) =>
+  unit.trim().toLowerCase().replace(/[µμ]/g, 'u').replace(/\s+/g, '').replace('litre', 'l').replace('liter', 'l');
+
+const normalizeAnalyteKey = (analyte: string) =>
+  analyte.trim().toLowerCase().replace(/[,.:()]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const findAnalyte = (analyte: string) => {
+  const key = normalizeAnalyteKey(analyte);
+  return ANALYTES.find(a => a.aliases.includes(key) || a.name.toLowerCase() === key);
+};
+
+const parseNumber = (text: string | undefined): number | null => {
+  if (!text) return null;
+  const match = text.replace(',', '.').match(/-?\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+};
+
+// Understands "4.0-5.6", "4.0 – 5.6", "<5.7", "> 60" and "up to 1.2".
+const parseReferenceRange = (range: string | undefined): { low: number | null; high: number | null } => {
+  if (!range) return { low: null, high: null };
+  const text = range.replace(/,/g, '.');
+  const between = text.match(/(-?\d+(?:\.\d+)?)\s*[-–—]\s*(-?\d+(?:\.\d+)?)/);
+  if (between) return { low: parseFloat(between[1]), high: parseFloat(between[2]) };
+  const upper = text.match(/(?:<=?|≤|up to|below)\s*(\d+(?:\.\d+)?)/i);
+  if (upper) return { low: null, high: parseFloat(upper[1]) };
+  const lower = text.match(/(?:>=?|≥|above)\s*(\d+(?:\.\d+)?)/i);
+  if (lower) return { low: parseFloat(lower[1]), high: null };
+  return { low: null, high: null };
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Parses a model-extracted lab value and converts it to the analyte's canonical
+// unit when the conversion is known. The printed value and unit are retained.
+export const normalizeLabResult = (raw: ExtractedLabValue, fallbackDate: string | null): LabResult | null => {
+  if (!raw.analyte || !raw.value) return null;
+  const definition = findAnalyte(raw.analyte);
+  const rawUnit = (raw.unit || '').trim();
+  let value = parseNumber(raw.value);
+  let { low, high } = parseReferenceRange(raw.referenceRange);
+  let unit = rawUnit;
+
+  if (definition) {
+    const sourceUnit = normalizeUnit(rawUnit);
+    const convert = sourceUnit === normalizeUnit(definition.unit) ? null : definition.conversions[sourceUnit];
+    if (convert) {
+      value = value === null ? null : round(convert(value));
+      low = low === null ? null : round(convert(low));
+      high = high === null ? null : round(convert(high));
+      unit = definition.unit;
+    } else if (!rawUnit || sourceUnit === normalizeUnit(definition.unit)) {
+      unit = definition.unit;
+    }
+  }
+
+  return {
+    analyte: definition?.name || raw.analyte.trim(),
+    value,
+    unit,
+    referenceLow: low,
+    referenceHigh: high,
+    referenceRange: raw.referenceRange?.trim() || undefined,
+    collectionDate: raw.collectionDate || fallbackDate,
+    rawValue: raw.value.trim(),
+    rawUnit,
+  };
+};
+
+export interface LabPoint {
+  date: string;
+  value: number;
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  documentId: string;
+}
+
+export interface LabSeries {
+  analyte: string;
+  unit: string;
+  points: LabPoint[];
+}
+
+// Groups numeric results by analyte and unit, ordered by collection date.
+// Results whose unit could not be normalized form their own series so values
+// in different units are never plotted on one axis.
+export const buildLabSeries = (documents: ProcessedDocument[]): LabSeries[] => {
+  const series = new Map<string, LabSeries>();
+  documents.map(resolveDocument).filter(d => !d.isDuplicate).forEach(doc => {
+    (doc.labResults || []).forEach(result => {
+      const date = result.collectionDate || doc.date;
+      if (result.value === null || !date) return;
+      const key = `${result.analyte}|${result.unit}`;
+      if (!series.has(key)) series.set(key, { analyte: result.analyte, unit: result.unit, points: [] });
+      series.get(key)!.points.push({
+        date,
+        value: result.value,
+        unit: result.unit,
+        referenceLow: result.referenceLow,
+        referenceHigh: result.referenceHigh,
+        documentId: doc.id,
+      });
+    });
+  });
+
+  return Array.from(series.values())
+    .map(s => ({ ...s, points: s.points.sort((a, b) => a.date.localeCompare(b.date)) }))
+    .sort((a, b) => b.points.length - a.points.length || a.analyte.localeCompare(b.analyte));
+};
+
+export const isOutOfRange = (point: { value: number; referenceLow: number | null; referenceHigh: number | null }) =>
+  (point.referenceLow !== null && point.value < point.referenceLow) ||
+  (point.referenceHigh !== null && point.value > point.referenceHigh);
+
+export interface LabHistoryRow {
+  date: string | null;
+  analyte: string;
+  value: string;
+  unit: string;
+  referenceRange: string;
+  outOfRange: boolean;
+  documentId: string;
+}
+
+// Flat table of every extracted result (numeric or not) for the exports,
+// ordered by analyte and then collection date.
+export const buildLabHistory = (documents: ProcessedDocument[]): LabHistoryRow[] => {
+  const rows: LabHistoryRow[] = [];
+  documents.map(resolveDocument).filter(d => !d.isDuplicate).forEach(doc => {
+    (doc.labResults || []).forEach(result => {
+      const numeric = result.value !== null;
+      const range = result.referenceLow !== null || result.referenceHigh !== null
+        ? `${result.referenceLow ?? ''}–${result.referenceHigh ?? ''}`
+        : result.referenceRange || '';
+      rows.push({
+        date: result.collectionDate || doc.date,
+        analyte: result.analyte,
+        value: numeric ? String(result.value) : result.rawValue,
+        unit: numeric ? result.unit : result.rawUnit,
+        referenceRange: range,
+        outOfRange: numeric && isOutOfRange({ value: result.value!, referenceLow: result.referenceLow, referenceHigh: result.referenceHigh }),
+        documentId: doc.id,
+      });
+    });
+  });
+  return rows.sort((a, b) => a.analyte.localeCompare(b.analyte) || (a.date || '').localeCompare(b.date || ''));
+};
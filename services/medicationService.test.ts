@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { MedicationMention, ProcessedDocument } from "../types";
+import { buildMedicationHistory } from "./medicationService";
+
+const mention = (action: MedicationMention['action'], dose: string | null, date: string | null = null): MedicationMention =>
+  ({ drug: 'Metformin', dose, frequency: dose && 'twice daily', prescriber: null, date, action });
+
+const makeDoc = (id: string, date: string | null, medications: MedicationMention[]): ProcessedDocument => ({
+  id,
+  file: new File([id], `${id}.pdf`, { type: 'application/pdf' }),
+  previewUrl: '',
+  date,
+  type: 'PRESCRIPTION',
+  summary: id,
+  isDuplicate: false,
+  medications
+});
+
+describe('buildMedicationHistory', () => {
+  it('follows a drug from its start through a dose change to its stop', () => {
+    const courses = buildMedicationHistory([
+      makeDoc('start', '2023-01-01', [mention('START', '500 mg')]),
+      makeDoc('change', '2023-06-01', [mention('CHANGE', '1000 mg')]),
+      makeDoc('stop', '2024-01-01', [mention('STOP', null)])
+    ]);
+
+    expect(courses).toEqual([
+      {
+        drug: 'Metformin', dose: '500 mg', frequency: 'twice daily', prescriber: null,
+        startDate: '2023-01-01', endDate: '2023-06-01', endInferred: true, isActive: false, documentIds: ['start']
+      },
+      {
+        drug: 'Metformin', dose: '1000 mg', frequency: 'twice daily', prescriber: null,
+        startDate: '2023-06-01', endDate: '2024-01-01', endInferred: false, isActive: false, documentIds: ['change', 'stop']
+      }
+    ]);
+  });
+
+  it('dates mentions from their record and lets undated ones extend the open course', () => {
+    const courses = buildMedicationHistory([
+      makeDoc('undated', null, [mention('CONTINUE', null)]),
+      makeDoc('start', '2024-01-01', [mention('START', '500 mg')]),
+      makeDoc('refill', '2024-03-01', [{ ...mention('CONTINUE', '500 mg'), drug: 'Metformin tablets' }])
+    ]);
+
+    expect(courses).toHaveLength(1);
+    expect(courses[0]).toMatchObject({ startDate: '2024-01-01', isActive: true, endDate: null, documentIds: ['start', 'refill', 'undated'] });
+  });
+
+  it('ends a course not mentioned for a year on its last mention', () => {
+    const courses = buildMedicationHistory([
+      makeDoc('start', '2021-01-01', [mention('START', '500 mg')]),
+      makeDoc('refill', '2021-09-01', [mention('CONTINUE', '500 mg')]),
+      makeDoc('later', '2023-01-01', [])
+    ]);
+
+    expect(courses).toEqual([expect.objectContaining({ startDate: '2021-01-01', endDate: '2021-09-01', endInferred: true, isActive: false })]);
+  });
+
+  it('keeps a course recently mentioned active', () => {
+    const courses = buildMedicationHistory([
+      makeDoc('start', '2023-01-01', [mention('START', '500 mg')]),
+      makeDoc('later', '2023-12-01', [])
+    ]);
+
+    expect(courses[0]).toMatchObject({ isActive: true, endDate: null, endInferred: false });
+  });
+
+  it('records a stop without an earlier start', () => {
+    const courses = buildMedicationHistory([makeDoc('stop', '2024-01-01', [mention('STOP', null)])]);
+
+    expect(courses[0]).toMatchObject({ startDate: null, endDate: '2024-01-01', endInferred: false, isActive: false });
+  });
+});
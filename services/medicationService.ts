@@ -0,0 +1,122 @@
+import { Locale, MedicationCourse, MedicationMention, ProcessedDocument } from "../types";
+import { resolveDocument } from "./documentService";
+import { translate } from "./i18nService";
+
+// A drug not mentioned for this long before the newest record is assumed stopped.
+const ACTIVE_WINDOW_DAYS = 365;
+
+const MEDICATION_ACTIONS: MedicationMention['action'][] = ['START', 'CONTINUE', 'CHANGE', 'STOP'];
+
+// Cleans a model-extracted mention; returns null when no drug name is present.
+export const normalizeMedicationMention = (raw: any, fallbackDate: string | null): MedicationMention | null => {
+  const drug = typeof raw?.drug === 'string' ? raw.drug.trim() : '';
+  if (!drug) return null;
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+  return {
+    drug,
+    dose: text(raw.dose),
+    frequency: text(raw.frequency),
+    prescriber: text(raw.prescriber),
+    date: text(raw.date) || fallbackDate,
+    action: MEDICATION_ACTIONS.includes(raw.action) ? raw.action : 'CONTINUE',
+  };
+};
+
+const drugKey = (drug: string) => drug.toLowerCase().replace(/\b(tablets?|tabs?|capsules?|caps?|oral|injection)\b/g, '').replace(/\s+/g, ' ').trim();
+
+const regimenKey = (dose: string | null, frequency: string | null) =>
+  `${(dose || '').toLowerCase().replace(/\s+/g, '')}|${(frequency || '').toLowerCase().replace(/\s+/g, '')}`;
+
+const daysBetween = (from: string, to: string) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24);
+
+interface DatedMention extends MedicationMention {
+  documentId: string;
+}
+
+type OpenCourse = MedicationCourse & { lastSeen: string | null };
+
+const closeCourse = ({ lastSeen, ...course }: OpenCourse, endDate: string | null, inferred: boolean): MedicationCourse =>
+  ({ ...course, endDate, endInferred: inferred, isActive: false });
+
+const openCourse = (mention: DatedMention): OpenCourse => ({
+  drug: mention.drug,
+  dose: mention.dose,
+  frequency: mention.frequency,
+  prescriber: mention.prescriber,
+  startDate: mention.date,
+  endDate: null,
+  endInferred: false,
+  isActive: true,
+  documentIds: [mention.documentId],
+  lastSeen: mention.date,
+});
+
+// Rebuilds medication courses from every mention in the dossier. Consecutive
+// mentions with the same dose and frequency extend one course; a new regimen
+// closes the previous course on the date it appears; an explicit STOP closes
+// it on the documented date.
+export const buildMedicationHistory = (documents: ProcessedDocument[]): MedicationCourse[] => {
+  const activeDocs = documents.map(resolveDocument).filter(d => !d.isDuplicate);
+  const latestRecordDate = activeDocs.map(d => d.date).filter((d): d is string => !!d).sort().pop() || null;
+
+  const byDrug = new Map<string, DatedMention[]>();
+  activeDocs.forEach(doc => {
+    (doc.medications || []).forEach(mention => {
+      const key = drugKey(mention.drug);
+      const dated: DatedMention = { ...mention, date: mention.date || doc.date, documentId: doc.id };
+      byDrug.set(key, [...(byDrug.get(key) || []), dated]);
+    });
+  });
+
+  const courses: MedicationCourse[] = [];
+  byDrug.forEach(mentions => {
+    // Undated mentions sort last and simply extend whatever course is open
+    mentions.sort((a, b) => (a.date || '9999').localeCompare(b.date || '9999'));
+
+    let current: OpenCourse | null = null;
+    for (const mention of mentions) {
+      if (mention.action === 'STOP') {
+        if (current) {
+          current.documentIds.push(mention.documentId);
+          courses.push(closeCourse(current, mention.date, false));
+          current = null;
+        } else {
+          courses.push(closeCourse({ ...openCourse(mention), startDate: null }, mention.date, false));
+        }
+        continue;
+      }
+
+      const sameRegimen = current !== null && (
+        (mention.action === 'CONTINUE' && !mention.dose && !mention.frequency) ||
+        regimenKey(current.dose, current.frequency) === regimenKey(mention.dose, mention.frequency)
+      );
+      if (current && sameRegimen) {
+        current.documentIds.push(mention.documentId);
+        current.lastSeen = mention.date || current.lastSeen;
+        current.prescriber = mention.prescriber || current.prescriber;
+        continue;
+      }
+
+      if (current) courses.push(closeCourse(current, mention.date, true));
+      current = openCourse(mention);
+    }
+
+    if (current) {
+      const stale = current.lastSeen && latestRecordDate && daysBetween(current.lastSeen, latestRecordDate) > ACTIVE_WINDOW_DAYS;
+      if (stale) {
+        courses.push(closeCourse(current, current.lastSeen, true));
+      } else {
+        const { lastSeen, ...course } = current;
+        courses.push(course);
+      }
+    }
+  });
+
+  return courses.sort((a, b) =>
+    Number(b.isActive) - Number(a.isActive) || (a.startDate || '').localeCompare(b.startDate || '') || a.drug.localeCompare(b.drug)
+  );
+};
+
+export const formatRegimen = (course: Pick<MedicationCourse, 'dose' | 'frequency'>, locale: Locale) =>
+  [course.dose, course.frequency].filter(Boolean).join(' · ') || translate(locale, 'medications.regimenUnspecified');
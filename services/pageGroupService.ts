@@ -0,0 +1,34 @@
+import { ProcessedDocument } from "../types";
+
+// Photos of one multi-page letter are taken moments apart; separate records
+// rarely are.
+const SCAN_INTERVAL_MS = 3 * 60 * 1000;
+
+// Only photos and scanned images are grouped; PDFs and Word files already hold their pages.
+export const isPageImage = (file: File) => file.type.startsWith('image/');
+
+export const canContinuePrevious = (files: File[], index: number) =>
+  index > 0 && isPageImage(files[index]) && isPageImage(files[index - 1]);
+
+// Proposes grouping for a fresh upload: consecutive images taken within a few
+// minutes of each other are treated as pages of one record.
+export const proposePageGroups = (files: File[]): boolean[] =>
+  files.map((file, i) =>
+    canContinuePrevious(files, i) && Math.abs(file.lastModified - files[i - 1].lastModified) <= SCAN_INTERVAL_MS
+  );
+
+// File indices of each record, in order.
+export const toPageGroups = (fileCount: number, continuesPrevious: boolean[] = []): number[][] => {
+  const groups: number[][] = [];
+  for (let i = 0; i < fileCount; i++) {
+    if (continuesPrevious[i] && groups.length > 0) {
+      groups[groups.length - 1].push(i);
+    } else {
+      groups.push([i]);
+    }
+  }
+  return groups;
+};
+
+export const getDocumentPages = (doc: Pick<ProcessedDocument, 'file' | 'pageFiles'>): File[] =>
+  doc.pageFiles || [doc.file];
@@ -0,0 +1,150 @@
+import * as pdfjs from 'pdfjs-dist';
+import { PDFDocument } from 'pdf-lib';
+import { PageRange } from '../types';
+
+// The worker is loaded from the CDN at the exact version of the library in use.
+pdfjs.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.mjs`;
+
+const MM_TO_PT = 72 / 25.4;
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+export const canvasToJpeg = (canvas: HTMLCanvasElement, quality = 0.85): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? blob.arrayBuffer().then(resolve, reject) : reject(new Error("Image encoding failed"))), 'image/jpeg', quality);
+  });
+
+export interface RenderedPage {
+  // JPEG bytes.
+  data: ArrayBuffer;
+  width: number;
+  height: number;
+}
+
+// Rasterizes every page, or those in `range`, as a JPEG whose longest edge is
+// `maxEdge` pixels. `decorate` can paint over each rendered page before it is
+// encoded; its page index counts from the start of the file.
+export const renderPdfPages = async (
+  file: File,
+  maxEdge = 1600,
+  decorate?: (ctx: CanvasRenderingContext2D, pageIndex: number, width: number, height: number) => void,
+  range?: PageRange
+): Promise<RenderedPage[]> => {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: RenderedPage[] = [];
+    const last = Math.min(range?.end ?? pdf.numPages, pdf.numPages);
+    for (let n = range?.start ?? 1; n <= last; n++) {
+      const page = await pdf.getPage(n);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: maxEdge / Math.max(base.width, base.height) });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      decorate?.(ctx, n - 1, canvas.width, canvas.height);
+      pages.push({ data: await canvasToJpeg(canvas), width: canvas.width, height: canvas.height });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Text layer of each page, in order. Pages without one, as in scanned PDFs,
+// yield an empty string.
+export const extractPdfPageTexts = async (file: File): Promise<string[]> => {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const content = await page.getTextContent();
+      pages.push(content.items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')).join('').trim());
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+export const countPdfPages = async (file: File): Promise<number> => {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    return pdf.numPages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// A new PDF holding only the pages in `range`, or the whole file when pdf-lib
+// cannot read it.
+export const extractPdfPageRange = async (file: File, range: PageRange): Promise<File> => {
+  try {
+    const source = await PDFDocument.load(await file.arrayBuffer());
+    const output = await PDFDocument.create();
+    const indices = Array.from({ length: range.end - range.start + 1 }, (_, i) => range.start - 1 + i);
+    (await output.copyPages(source, indices)).forEach(page => output.addPage(page));
+    return new File([await output.save()], file.name, { type: 'application/pdf', lastModified: file.lastModified });
+  } catch {
+    return file;
+  }
+};
+
+// Page count of a PDF that can be embedded as vector pages, or null when
+// pdf-lib cannot read it (encrypted or damaged) and it must be rasterized.
+export const countEmbeddablePdfPages = async (file: File): Promise<number | null> => {
+  try {
+    const source = await PDFDocument.load(await file.arrayBuffer());
+    return source.getPageCount();
+  } catch {
+    return null;
+  }
+};
+
+// Area of a report page (in mm from the top-left, as jsPDF measures) that an
+// original page is drawn into.
+export interface PdfPagePlacement {
+  // 1-based page number in the report.
+  targetPage: number;
+  file: File;
+  // 0-based page index in `file`.
+  sourcePage: number;
+  box: { x: number; y: number; width: number; height: number };
+}
+
+// Draws original PDF pages onto reserved report pages. The pages stay vector
+// content, so text in the originals remains sharp and selectable.
+export const embedPdfPages = async (report: ArrayBuffer, placements: PdfPagePlacement[]): Promise<Uint8Array> => {
+  const output = await PDFDocument.load(report);
+  const sources = new Map<File, PDFDocument>();
+
+  for (const placement of placements) {
+    if (!sources.has(placement.file)) {
+      sources.set(placement.file, await PDFDocument.load(await placement.file.arrayBuffer()));
+    }
+    const source = sources.get(placement.file)!;
+    // Blank pages have no content stream to embed; the reserved page stays empty
+    if (!source.getPage(placement.sourcePage).node.Contents()) continue;
+    const [embedded] = await output.embedPdf(source, [placement.sourcePage]);
+    const page = output.getPage(placement.targetPage - 1);
+    const box = {
+      x: placement.box.x * MM_TO_PT,
+      width: placement.box.width * MM_TO_PT,
+      height: placement.box.height * MM_TO_PT,
+      // pdf-lib measures from the bottom of the page
+      top: page.getHeight() - placement.box.y * MM_TO_PT,
+    };
+    const scale = Math.min(box.width / embedded.width, box.height / embedded.height);
+    const width = embedded.width * scale;
+    const height = embedded.height * scale;
+    page.drawPage(embedded, { x: box.x + (box.width - width) / 2, y: box.top - height, width, height });
+  }
+
+  return output.save();
+};
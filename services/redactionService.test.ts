@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PatientProfile, RedactionPattern, RedactionSettings } from "../types";
+import { deriveKey, generateSalt } from "./cryptoService";
+import { DEFAULT_REDACTION_SETTINGS, createTextRedactor, isValidPattern, loadRedactionSettings, resealRedactionSettings, saveRedactionSettings } from "./redactionService";
+
+const profile: PatientProfile = { id: 'p1', name: 'María José García', dob: '1970-05-01', gender: 'Female' };
+
+const userPattern = (pattern: string, label = 'Custom'): RedactionPattern => ({ id: label, label, pattern, enabled: true });
+
+const withPatterns = (...patterns: RedactionPattern[]): RedactionSettings =>
+  ({ ...DEFAULT_REDACTION_SETTINGS, patterns: [...DEFAULT_REDACTION_SETTINGS.patterns, ...patterns] });
+
+describe('createTextRedactor', () => {
+  const redact = createTextRedactor(profile, DEFAULT_REDACTION_SETTINGS);
+
+  it('masks the full name as one token and its longer parts alone', () => {
+    expect(redact('Patient: María José García, seen today')).toBe('Patient: [PATIENT NAME], seen today');
+    expect(redact('Ms GARCIA was referred by Dr. Jose Ramos')).toBe('Ms [PATIENT NAME] was referred by Dr. [PATIENT NAME] Ramos');
+  });
+
+  it('masks the name with or without its accents', () => {
+    expect(redact('Maria Jose Garcia')).toBe('[PATIENT NAME]');
+    expect(redact('García')).toBe('[PATIENT NAME]');
+  });
+
+  it('leaves words that only contain a part of the name', () => {
+    expect(redact('Garcias and Marias')).toBe('Garcias and Marias');
+  });
+
+  it('masks the date of birth in the common formats', () => {
+    const formats = ['1970-05-01', '01/05/1970', '1.5.70', '05-01-1970', '1st May 1970', '1 May, 1970', 'May 1, 1970', 'May 1st 1970', 'may 01 1970'];
+
+    formats.forEach(date => expect(redact(`DOB ${date}.`)).toBe('DOB [DATE OF BIRTH].'));
+  });
+
+  it('leaves other dates alone', () => {
+    expect(redact('Seen 2001-05-01 and 11/05/1970')).toBe('Seen 2001-05-01 and 11/05/1970');
+  });
+
+  it('applies the built-in patterns', () => {
+    expect(redact('MRN: AB12345, call 555-123-4567 or mail jane.doe@example.org'))
+      .toBe('[MRN], call [PHONE] or mail [EMAIL]');
+    expect(redact('Insurance no. 123-45-6789')).toBe('[NATIONAL ID]');
+    expect(redact('Reference 123-45-6789')).toBe('Reference [NATIONAL ID]');
+  });
+
+  it('applies user patterns case-insensitively', () => {
+    const redactWard = createTextRedactor(profile, withPatterns(userPattern('ward \\d+', 'Ward')));
+
+    expect(redactWard('Admitted to WARD 12')).toBe('Admitted to [WARD]');
+  });
+
+  it('matches accented user patterns however the text is encoded', () => {
+    const redactClinic = createTextRedactor(profile, withPatterns(userPattern('Clínica Sur', 'Clinic')));
+
+    expect(redactClinic('Seen at Clínica Sur')).toBe('Seen at [CLINIC]');
+    expect(redactClinic('Seen at Clínica Sur')).toBe('Seen at [CLINIC]');
+  });
+
+  it('skips an invalid user pattern without failing', () => {
+    // A range of accented letters no longer holds once decomposed
+    const settings = withPatterns(userPattern('(unclosed'), userPattern('[à-é]'));
+
+    expect(isValidPattern('(unclosed')).toBe(false);
+    expect(isValidPattern('[à-é]')).toBe(false);
+    expect(() => createTextRedactor(profile, settings)).not.toThrow();
+    expect(createTextRedactor(profile, settings)('María José García, (unclosed')).toBe('[PATIENT NAME], (unclosed');
+  });
+
+  it('skips disabled patterns and masking options', () => {
+    const settings: RedactionSettings = {
+      ...DEFAULT_REDACTION_SETTINGS,
+      maskDob: false,
+      patterns: DEFAULT_REDACTION_SETTINGS.patterns.map(p => ({ ...p, enabled: p.id !== 'email' }))
+    };
+
+    expect(createTextRedactor(profile, settings)('García 1970-05-01 jane@example.org')).toBe('[PATIENT NAME] 1970-05-01 jane@example.org');
+  });
+
+  it('returns the text unchanged when redaction is off', () => {
+    const text = 'María García, 1970-05-01';
+
+    expect(createTextRedactor(profile, { ...DEFAULT_REDACTION_SETTINGS, enabled: false })(text)).toBe(text);
+  });
+
+  it('returns unmasked text in composed form', () => {
+    expect(redact('Clínica Sur')).toBe('Clínica Sur'.normalize('NFC'));
+  });
+});
+
+describe('redaction settings storage', () => {
+  const stored = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key)
+  });
+  beforeEach(() => stored.clear());
+
+  const settings = withPatterns(userPattern('Clínica Sur', 'Clinic'));
+
+  it('seals the settings under a vault key', async () => {
+    const key = await deriveKey('passphrase', generateSalt());
+    await saveRedactionSettings(settings, key);
+
+    expect([...stored.values()].join()).not.toContain('Clínica');
+    expect(await loadRedactionSettings(key)).toEqual(settings);
+    await expect(loadRedactionSettings(null)).rejects.toThrow();
+  });
+
+  it('reseals saved settings and leaves unsaved ones to the defaults', async () => {
+    const key = await deriveKey('passphrase', generateSalt());
+    await resealRedactionSettings(null, key);
+    expect(stored.size).toBe(0);
+
+    await saveRedactionSettings(settings, null);
+    await resealRedactionSettings(null, key);
+    expect(await loadRedactionSettings(key)).toEqual(settings);
+
+    await resealRedactionSettings(key, null);
+    expect(await loadRedactionSettings(null)).toEqual(settings);
+  });
+});
@@ -0,0 +1,163 @@
+import { PatientProfile, RedactionBox, RedactionPattern, RedactionSettings } from "../types";
+import { EncodedPayload, decodePayload, decryptJson, encodePayload, encryptJson } from "./cryptoService";
+import { getVaultKey } from "./vaultService";
+
+const STORAGE_KEY_REDACTION = 'medichronicle_redaction';
+
+export const DEFAULT_REDACTION_PATTERNS: RedactionPattern[] = [
+  {
+    id: 'mrn',
+    label: 'MRN',
+    pattern: '\\b(?:MRN|Medical Record (?:Number|No\\.?)|Patient ID|Hospital (?:Number|No\\.?))[\\s:#.]*[A-Z0-9][A-Z0-9-]{3,}',
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: 'phone',
+    label: 'Phone',
+    pattern: '(?:\\+\\d{1,3}[\\s.-]?)?\\(?\\b\\d{3}\\)?[\\s.-]\\d{3}[\\s.-]\\d{4}\\b|\\+\\d{1,3}(?:[\\s.-]?\\d{2,4}){3,5}\\b',
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: 'national-id',
+    label: 'National ID',
+    pattern: '\\b\\d{3}-\\d{2}-\\d{4}\\b|\\b(?:SSN|NHS (?:Number|No\\.?)|National ID|Insurance (?:Number|No\\.?))[\\s:#.]*[A-Z0-9][A-Z0-9 -]{5,}[A-Z0-9]',
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: 'email',
+    label: 'Email',
+    pattern: '\\b[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+\\b',
+    enabled: true,
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  maskName: true,
+  maskDob: true,
+  patterns: DEFAULT_REDACTION_PATTERNS,
+};
+
+// In vault mode the settings, which may name people and places, are stored
+// as a single encrypted payload like the profile list.
+interface SealedRedactionSettings {
+  sealed: EncodedPayload;
+}
+
+// The settings as saved, without defaults filled in; null when never saved.
+const readRedactionSettings = async (key: CryptoKey | null): Promise<Partial<RedactionSettings> | null> => {
+  const saved = localStorage.getItem(STORAGE_KEY_REDACTION);
+  if (!saved) return null;
+  const parsed: Partial<RedactionSettings> | SealedRedactionSettings = JSON.parse(saved);
+  if (!('sealed' in parsed)) return parsed;
+  if (!key) throw new Error("Redaction settings are encrypted. Unlock the vault to read them.");
+  return decryptJson<Partial<RedactionSettings>>(key, decodePayload(parsed.sealed));
+};
+
+export const loadRedactionSettings = async (key = getVaultKey()): Promise<RedactionSettings> =>
+  ({ ...DEFAULT_REDACTION_SETTINGS, ...await readRedactionSettings(key) });
+
+export const saveRedactionSettings = async (settings: Partial<RedactionSettings>, key = getVaultKey()) => {
+  const value: Partial<RedactionSettings> | SealedRedactionSettings = key
+    ? { sealed: encodePayload(await encryptJson(key, settings)) }
+    : settings;
+  localStorage.setItem(STORAGE_KEY_REDACTION, JSON.stringify(value));
+};
+
+// Re-encrypts saved settings from `fromKey` to `toKey` (null meaning
+// plaintext). Settings never saved stay unsaved, so they keep following the defaults.
+export const resealRedactionSettings = async (fromKey: CryptoKey | null, toKey: CryptoKey | null) => {
+  const saved = await readRedactionSettings(fromKey);
+  if (saved) await saveRedactionSettings(saved, toKey);
+};
+
+export const clearRedactionSettings = () => {
+  localStorage.removeItem(STORAGE_KEY_REDACTION);
+};
+
+// Text is matched in decomposed form (see stripMarks), so patterns are too:
+// an "é" typed in a pattern then matches the "e" and accent it became.
+const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern.normalize('NFD'), 'giu');
+  } catch {
+    return null;
+  }
+};
+
+export const isValidPattern = (pattern: string): boolean => !!pattern.trim() && compilePattern(pattern) !== null;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters and digits on either side would mean the match is part of a longer word.
+const wholeWord = (source: string) => `(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])`;
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// The ways a birth date is commonly printed: ISO, day or month first with any
+// separator, two-digit years, and spelled-out or abbreviated month names.
+const dobPatterns = (dob: string): string[] => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dob);
+  if (!match) return [];
+  const [, year, month, day] = match;
+  const m = String(Number(month));
+  const d = String(Number(day));
+  const yy = year.slice(2);
+  const sep = '[\\s./-]';
+  const num = (value: string) => `0?${value}`;
+  const anyYear = `(?:${year}|${yy})`;
+  const monthName = MONTHS[Number(month) - 1];
+  const names = `(?:${monthName}|${monthName.slice(0, 3)}\\.?)`;
+  return [
+    `${year}${sep}${month}${sep}${day}`,
+    `${num(d)}${sep}${num(m)}${sep}${anyYear}`,
+    `${num(m)}${sep}${num(d)}${sep}${anyYear}`,
+    `${num(d)}(?:st|nd|rd|th)?[\\s-]${names}[\\s,-]+${year}`,
+    `${names}\\s${num(d)}(?:st|nd|rd|th)?,?\\s${year}`,
+  ];
+};
+
+// Text is matched in decomposed form, so "Maria" also finds "María" and back.
+const stripMarks = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '');
+
+const letters = (word: string) => Array.from(word).map(char => `${escapeRegExp(char)}\\p{M}*`).join('');
+
+// The full name first, so it is masked as one token rather than part by part.
+// Short particles ("de", "Li") are only masked as part of the full name.
+const namePatterns = (name: string): string[] => {
+  const words = stripMarks(name).trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  return [words.map(letters).join('\\s+'), ...words.filter(w => w.replace(/\W/g, '').length >= 3).map(letters)];
+};
+
+interface Rule {
+  regex: RegExp;
+  replacement: string;
+}
+
+// Builds the text masking used on everything that leaves the device.
+export const createTextRedactor = (profile: PatientProfile | null, settings: RedactionSettings): ((text: string) => string) => {
+  if (!settings.enabled) return text => text;
+
+  const rules: Rule[] = settings.patterns
+    .filter(p => p.enabled && isValidPattern(p.pattern))
+    .map(p => ({ regex: compilePattern(p.pattern)!, replacement: `[${p.label.toUpperCase()}]` }));
+  if (profile && settings.maskName) {
+    namePatterns(profile.name).forEach(source => rules.push({ regex: new RegExp(wholeWord(source), 'giu'), replacement: '[PATIENT NAME]' }));
+  }
+  if (profile && settings.maskDob) {
+    dobPatterns(profile.dob).forEach(source => rules.push({ regex: new RegExp(wholeWord(source), 'giu'), replacement: '[DATE OF BIRTH]' }));
+  }
+
+  return text => rules.reduce((result, rule) => result.replace(rule.regex, rule.replacement), text.normalize('NFD')).normalize('NFC');
+};
+
+// Paints the boxes opaque black over an already drawn canvas.
+export const burnRedactionBoxes = (ctx: CanvasRenderingContext2D, width: number, height: number, boxes: RedactionBox[]) => {
+  ctx.fillStyle = '#000000';
+  boxes.forEach(box => ctx.fillRect(box.x * width, box.y * height, box.width * width, box.height * height));
+};
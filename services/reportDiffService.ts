@@ -0,0 +1,139 @@
+import { Locale, ReportData, ReportSection } from "../types";
+import { formatRegimen } from "./medicationService";
+import { translate } from "./i18nService";
+
+export type DiffKind = 'same' | 'added' | 'removed';
+
+export interface DiffSegment {
+  kind: DiffKind;
+  text: string;
+}
+
+export interface SectionDiff {
+  key: string;
+  title: string;
+  // One entry per paragraph; a paragraph only present in one version is a single added or removed segment.
+  paragraphs: DiffSegment[][];
+  changed: boolean;
+}
+
+export interface ReportComparison {
+  sections: SectionDiff[];
+  addedDocumentIds: string[];
+  removedDocumentIds: string[];
+}
+
+// Longest common subsequence of two token lists, walked back into edit operations.
+const diffTokens = (a: string[], b: string[]): DiffSegment[] => {
+  // Common prefix and suffix are trimmed first; reports usually change in a few places
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const cols = midB.length + 1;
+  const lengths = new Uint32Array((midA.length + 1) * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = a.slice(0, start).map(text => ({ kind: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      segments.push({ kind: 'same', text: midA[i++] });
+      j++;
+    } else if (i < midA.length && (j === midB.length || lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1])) {
+      segments.push({ kind: 'removed', text: midA[i++] });
+    } else {
+      segments.push({ kind: 'added', text: midB[j++] });
+    }
+  }
+  a.slice(endA).forEach(text => segments.push({ kind: 'same', text }));
+  return segments;
+};
+
+// Joins neighbouring segments of the same kind so the UI renders fewer spans.
+const mergeSegments = (segments: DiffSegment[]): DiffSegment[] =>
+  segments.reduce<DiffSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.kind === segment.kind) last.text += segment.text;
+    else merged.push({ ...segment });
+    return merged;
+  }, []);
+
+// Word-level diff; whitespace is kept as its own token so the text reassembles exactly.
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+  return mergeSegments(diffTokens(tokenize(before), tokenize(after)));
+};
+
+// Paragraphs are matched first; a run of removed paragraphs directly followed by
+// added ones is treated as edits and compared word by word, pair by pair.
+export const diffParagraphs = (before: string[], after: string[]): DiffSegment[][] => {
+  const ops = diffTokens(before, after);
+  const paragraphs: DiffSegment[][] = [];
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].kind === 'same') {
+      paragraphs.push([ops[i++]]);
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (i < ops.length && ops[i].kind !== 'same') {
+      (ops[i].kind === 'removed' ? removed : added).push(ops[i].text);
+      i++;
+    }
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) paragraphs.push(diffWords(removed[k], added[k]));
+    removed.slice(paired).forEach(text => paragraphs.push([{ kind: 'removed', text }]));
+    added.slice(paired).forEach(text => paragraphs.push([{ kind: 'added', text }]));
+  }
+  return paragraphs;
+};
+
+const sectionParagraphs = (section: ReportSection | undefined): string[] =>
+  !section ? [] : section.paragraphs?.map(p => p.text) ?? section.text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+const medicationLines = (report: ReportData, locale: Locale): string[] =>
+  (report.medications || []).map(m => translate(locale, 'history.medicationCourse', {
+    drug: m.drug,
+    regimen: formatRegimen(m, locale),
+    start: m.startDate || translate(locale, 'common.unknown'),
+    end: m.isActive ? translate(locale, 'history.present') : m.endDate || translate(locale, 'common.unknown'),
+  }));
+
+// Compares two report versions section by section, older first. Sections are
+// matched by key; one only present in a single version shows as added or removed.
+export const compareReports = (before: ReportData, after: ReportData, locale: Locale = 'en'): ReportComparison => {
+  const section = (key: string, title: string, a: string[], b: string[]): SectionDiff => {
+    const paragraphs = diffParagraphs(a, b);
+    return { key, title, paragraphs, changed: paragraphs.some(p => p.some(s => s.kind !== 'same')) };
+  };
+
+  const beforeIds = before.version?.documentIds || [];
+  const afterIds = after.version?.documentIds || [];
+  return {
+    sections: [
+      ...after.sections.map(s => section(s.key, s.title, sectionParagraphs(before.sections.find(b => b.key === s.key)), sectionParagraphs(s))),
+      ...before.sections
+        .filter(s => !after.sections.some(a => a.key === s.key))
+        .map(s => section(s.key, s.title, sectionParagraphs(s), [])),
+      section('medications', translate(locale, 'history.medications'), medicationLines(before, locale), medicationLines(after, locale)),
+    ],
+    addedDocumentIds: afterIds.filter(id => !beforeIds.includes(id)),
+    removedDocumentIds: beforeIds.filter(id => !afterIds.includes(id)),
+  };
+};
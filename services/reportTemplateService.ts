@@ -0,0 +1,177 @@
+import { LegacyReportData, Locale, ReportData, ReportLength, ReportSettings, ReportTemplateId } from "../types";
+import { getTemplateTranslation, isLocale, loadUiLocale } from "./i18nService";
+
+const STORAGE_KEY_REPORT_SETTINGS = 'medichronicle_report_settings';
+
+export interface ReportTemplateSection {
+  key: string;
+  title: string;
+  // What the model should write in this section.
+  instruction: string;
+}
+
+export interface ReportTemplate {
+  id: ReportTemplateId;
+  name: string;
+  description: string;
+  // Heading of the report on screen and in the exports.
+  title: string;
+  audience: string;
+  tone: string;
+  // Total words for the standard length.
+  wordTarget: number;
+  focus?: { label: string; placeholder: string; required: boolean };
+  recipient?: { label: string; placeholder: string };
+  sections: ReportTemplateSection[];
+}
+
+export const REPORT_TEMPLATES: ReportTemplate[] = [
+  {
+    id: 'clinical',
+    name: 'Clinical Overview',
+    description: 'Long-form synthesis of the whole record for clinicians.',
+    title: 'Clinical Case Portfolio',
+    audience: 'a treating clinician reviewing the full record',
+    tone: 'Precise clinical language. Professional, objective and complete.',
+    wordTarget: 1200,
+    sections: [
+      { key: 'history', title: 'Narrative History', instruction: 'The course of illness and care in chronological order.' },
+      { key: 'summary', title: 'Clinical Synthesis', instruction: 'An integrated assessment of the main problems and how they relate.' },
+      { key: 'prognosis', title: 'Clinical Observations', instruction: 'Trends, open issues and points that need follow-up.' },
+    ],
+  },
+  {
+    id: 'patient',
+    name: 'Patient Summary',
+    description: 'Plain-language overview the patient and family can read.',
+    title: 'Your Health Summary',
+    audience: 'the patient and their family, who have no medical training',
+    tone: 'Plain, warm language at a reading age of about 12. Explain every medical term the first time it is used. Do not speculate about outcomes.',
+    wordTarget: 700,
+    sections: [
+      { key: 'story', title: 'Your Health Story', instruction: 'What happened and when, told simply.' },
+      { key: 'results', title: 'What Your Results Mean', instruction: 'The important test results and what they mean in everyday words.' },
+      { key: 'questions', title: 'Questions to Ask Your Doctor', instruction: 'Open points from the records, phrased as questions for the next appointment.' },
+    ],
+  },
+  {
+    id: 'referral',
+    name: 'Referral Letter',
+    description: 'Letter to a specialist about one condition.',
+    title: 'Specialist Referral',
+    audience: 'a specialist receiving a referral',
+    tone: 'Concise letter style between colleagues. Only include what bears on the referred condition.',
+    wordTarget: 600,
+    focus: { label: 'Condition', placeholder: 'e.g. Type 2 diabetes', required: true },
+    recipient: { label: 'Addressed to', placeholder: 'e.g. Dr. Patel, Endocrinology' },
+    sections: [
+      { key: 'reason', title: 'Reason for Referral', instruction: 'Why the patient is referred now, opening with the salutation to the addressee if one is given.' },
+      { key: 'history', title: 'Relevant History', instruction: 'History that bears on the condition, including relevant comorbidities.' },
+      { key: 'investigations', title: 'Investigations', instruction: 'Results related to the condition, with dates and trends.' },
+      { key: 'treatment', title: 'Treatment to Date', instruction: 'Medication and other treatment for the condition, and the response to it.' },
+      { key: 'questions', title: 'Questions for the Specialist', instruction: 'The specific questions the referral should answer.' },
+    ],
+  },
+  {
+    id: 'claim',
+    name: 'Claim Chronology',
+    description: 'Dated, factual chronology for an insurance or disability claim.',
+    title: 'Medical Chronology for Claim',
+    audience: 'an insurer or disability assessor',
+    tone: 'Neutral and factual. Give a date for every event. Report what the records state, not opinions.',
+    wordTarget: 1000,
+    focus: { label: 'Claimed condition', placeholder: 'e.g. Lumbar disc herniation', required: false },
+    sections: [
+      { key: 'chronology', title: 'Chronology of Events', instruction: 'Every relevant encounter, test and treatment, one dated entry per paragraph.' },
+      { key: 'diagnoses', title: 'Diagnoses and Onset', instruction: 'Each documented diagnosis with the date it was first recorded.' },
+      { key: 'impact', title: 'Functional Impact', instruction: 'Documented limitations on daily activities and work.' },
+      { key: 'treatment', title: 'Treatment and Current Status', instruction: 'Treatment received and the most recent documented status.' },
+    ],
+  },
+];
+
+export const REPORT_LENGTHS: { id: ReportLength; factor: number }[] = [
+  { id: 'brief', factor: 0.5 },
+  { id: 'standard', factor: 1 },
+  { id: 'detailed', factor: 2 },
+];
+
+// The template with its display text in `locale`. Instructions to the model
+// stay in English whatever language the report is written in.
+export const getReportTemplate = (id: ReportTemplateId | undefined, locale: Locale = 'en'): ReportTemplate => {
+  const template = REPORT_TEMPLATES.find(t => t.id === id) || REPORT_TEMPLATES[0];
+  const translation = getTemplateTranslation(locale, template.id);
+  if (!translation) return template;
+  return {
+    ...template,
+    name: translation.name,
+    description: translation.description,
+    title: translation.title,
+    focus: template.focus && translation.focus && { ...template.focus, ...translation.focus },
+    recipient: template.recipient && translation.recipient,
+    sections: template.sections.map(section => ({ ...section, title: translation.sections[section.key] || section.title })),
+  };
+};
+
+export const DEFAULT_REPORT_SETTINGS: ReportSettings = { templateId: 'clinical', length: 'standard', focus: '', recipient: '', language: 'en' };
+
+// Only the template, length and language are remembered: the focus and
+// addressee are patient details, and localStorage is not covered by the vault.
+export const loadReportSettings = (): ReportSettings => {
+  const saved = localStorage.getItem(STORAGE_KEY_REPORT_SETTINGS);
+  // Until one is chosen, reports are written in the language of the interface
+  if (!saved) return { ...DEFAULT_REPORT_SETTINGS, language: loadUiLocale() };
+  const { templateId, length, language } = JSON.parse(saved);
+  return {
+    ...DEFAULT_REPORT_SETTINGS,
+    templateId: getReportTemplate(templateId).id,
+    length: REPORT_LENGTHS.some(l => l.id === length) ? length : 'standard',
+    language: isLocale(language) ? language : loadUiLocale(),
+  };
+};
+
+export const saveReportSettings = ({ templateId, length, language }: ReportSettings) => {
+  localStorage.setItem(STORAGE_KEY_REPORT_SETTINGS, JSON.stringify({ templateId, length, language }));
+};
+
+export const isReportSettingsComplete = (settings: ReportSettings): boolean =>
+  !getReportTemplate(settings.templateId).focus?.required || !!settings.focus.trim();
+
+export const getWordTarget = (settings: ReportSettings): number => {
+  const factor = REPORT_LENGTHS.find(l => l.id === settings.length)?.factor ?? 1;
+  return Math.round(getReportTemplate(settings.templateId).wordTarget * factor / 50) * 50;
+};
+
+const NUMERALS: [number, string][] = [[10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+
+// Sections are numbered I, II, III... on screen and in every export.
+export const sectionNumeral = (index: number): string => {
+  let rest = index + 1;
+  return NUMERALS.reduce((numeral, [value, symbol]) => {
+    while (rest >= value) {
+      numeral += symbol;
+      rest -= value;
+    }
+    return numeral;
+  }, '');
+};
+
+// Reports saved before templates existed become clinical-template reports,
+// and reports saved before the output language could be chosen are English.
+export const upgradeReport = (report: ReportData | LegacyReportData): ReportData => {
+  if ('sections' in report && Array.isArray(report.sections)) {
+    return report.settings.language ? report : { ...report, settings: { ...report.settings, language: 'en' } };
+  }
+  const { history, summary, prognosis, citations, ...rest } = report as LegacyReportData;
+  const text = { history, summary, prognosis };
+  return {
+    ...rest,
+    settings: DEFAULT_REPORT_SETTINGS,
+    sections: getReportTemplate('clinical').sections.map(({ key, title }) => ({
+      key,
+      title,
+      text: text[key as keyof typeof text] || '',
+      paragraphs: citations?.[key as keyof typeof text],
+    })),
+  };
+};
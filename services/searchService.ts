@@ -0,0 +1,74 @@
+import { ProcessedDocument } from "../types";
+
+export interface SearchMatch {
+  // Short excerpts of the full text around the matched terms.
+  snippets: string[];
+}
+
+const SNIPPET_RADIUS = 70;
+const MAX_SNIPPETS = 2;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits a query into lower-case terms; "quoted phrases" stay together.
+export const parseSearchQuery = (query: string): string[] => {
+  const terms: string[] = [];
+  query.replace(/"([^"]+)"|(\S+)/g, (_, phrase: string | undefined, word: string | undefined) => {
+    const term = (phrase || word || '').trim().toLowerCase();
+    if (term && !terms.includes(term)) terms.push(term);
+    return '';
+  });
+  return terms;
+};
+
+// Loose matching: "L4-L5" also finds "L4 - L5" and "L4/L5".
+const termPattern = (term: string) =>
+  term.split(/[\s\-/]+/).filter(Boolean).map(escapeRegExp).join('[\\s\\-/]*');
+
+const buildRegExp = (terms: string[]) => new RegExp(`(${terms.map(termPattern).join('|')})`, 'gi');
+
+const searchableText = (doc: ProcessedDocument) =>
+  [doc.summary, doc.type, doc.date || '', doc.file.name, doc.fullText || ''].join('\n');
+
+const buildSnippets = (text: string, terms: string[]): string[] => {
+  const flat = text.replace(/\s+/g, ' ');
+  const snippets: string[] = [];
+  let searchFrom = 0;
+  for (const term of terms) {
+    if (snippets.length >= MAX_SNIPPETS) break;
+    const match = new RegExp(termPattern(term), 'i').exec(flat.slice(searchFrom));
+    if (!match) continue;
+    const index = searchFrom + match.index;
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(flat.length, index + match[0].length + SNIPPET_RADIUS);
+    snippets.push(`${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`);
+    // Later snippets never repeat an excerpt already shown
+    searchFrom = end;
+  }
+  return snippets;
+};
+
+// Documents (already resolved) containing every term, keyed by id.
+export const searchDocuments = (docs: ProcessedDocument[], terms: string[]): Map<string, SearchMatch> => {
+  const results = new Map<string, SearchMatch>();
+  if (terms.length === 0) return results;
+  docs.forEach(doc => {
+    const haystack = searchableText(doc);
+    if (!terms.every(term => new RegExp(termPattern(term), 'i').test(haystack))) return;
+    results.set(doc.id, { snippets: doc.fullText ? buildSnippets(doc.fullText, terms) : [] });
+  });
+  return results;
+};
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// The capturing split alternates plain text and matches.
+export const splitHighlights = (text: string, terms: string[]): HighlightSegment[] => {
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+  return text.split(buildRegExp(terms))
+    .map((part, i) => ({ text: part, match: i % 2 === 1 }))
+    .filter(segment => segment.text);
+};
@@ -1,9 +1,54 @@
-
-import { ProcessedDocument } from "../types";
+import { AnalysisCheckpoint, DocumentMetadata, LegacyReportData, ProcessedDocument, ReportData } from "../types";
+import { LEGACY_DOSSIER_ID } from "./dossierService";
+import { upgradeReport } from "./reportTemplateService";
+import { EncryptedPayload, decryptBytes, decryptJson, encryptBytes, encryptJson } from "./cryptoService";
+import { getVaultKey } from "./vaultService";
 
 const DB_NAME = 'MediChronicleDB';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
 const STORE_NAME = 'documents';
+const REPORT_STORE_NAME = 'reports';
+const ANALYSIS_STORE_NAME = 'analysisJobs';
+const REPORT_HISTORY_STORE_NAME = 'reportHistory';
+const DOSSIER_INDEX = 'dossierId';
+
+type StoredDocument = Omit<ProcessedDocument, 'previewUrl'> & { dossierId: string };
+
+interface StoredFileInfo {
+  name: string;
+  type: string;
+  lastModified: number;
+}
+
+// In vault mode only the keys needed for lookups stay in the clear.
+interface SealedDocument {
+  id: string;
+  dossierId: string;
+  // `pages` holds the pages after the first of a grouped record.
+  sealed: { meta: EncryptedPayload; file: EncryptedPayload; pages?: EncryptedPayload[] };
+}
+
+interface StoredReport {
+  dossierId: string;
+  report?: ReportData | LegacyReportData;
+  sealed?: EncryptedPayload;
+}
+
+// Every generated report, kept alongside the current one in REPORT_STORE_NAME.
+interface StoredReportVersion {
+  id: string;
+  dossierId: string;
+  report?: ReportData | LegacyReportData;
+  sealed?: EncryptedPayload;
+}
+
+interface SealedCheckpoint {
+  dossierId: string;
+  sealed: { meta: EncryptedPayload; files: EncryptedPayload[] };
+}
+
+type DocumentRecord = StoredDocument | SealedDocument;
+type CheckpointRecord = AnalysisCheckpoint | SealedCheckpoint;
 
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -11,8 +56,33 @@ const openDB = (): Promise<IDBDatabase> => {
 
     request.onupgradeneeded = () => {
       const db = request.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      const upgradeTx = request.transaction!;
+      const docStore = db.objectStoreNames.contains(STORE_NAME)
+        ? upgradeTx.objectStore(STORE_NAME)
+        : db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+
+      if (!docStore.indexNames.contains(DOSSIER_INDEX)) {
+        docStore.createIndex(DOSSIER_INDEX, 'dossierId');
+        // Records saved before dossiers existed belong to the migrated profile
+        const cursorRequest = docStore.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          if (!cursor.value.dossierId) cursor.update({ ...cursor.value, dossierId: LEGACY_DOSSIER_ID });
+          cursor.continue();
+        };
+      }
+
+      if (!db.objectStoreNames.contains(REPORT_STORE_NAME)) {
+        db.createObjectStore(REPORT_STORE_NAME, { keyPath: 'dossierId' });
+      }
+
+      if (!db.objectStoreNames.contains(ANALYSIS_STORE_NAME)) {
+        db.createObjectStore(ANALYSIS_STORE_NAME, { keyPath: 'dossierId' });
+      }
+
+      if (!db.objectStoreNames.contains(REPORT_HISTORY_STORE_NAME)) {
+        db.createObjectStore(REPORT_HISTORY_STORE_NAME, { keyPath: 'id' }).createIndex(DOSSIER_INDEX, 'dossierId');
       }
     };
 
@@ -21,67 +91,269 @@ const openDB = (): Promise<IDBDatabase> => {
   });
 };
 
-export const saveDocumentsToStorage = async (docs: ProcessedDocument[]): Promise<void> => {
-  const db = await openDB();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
-  const store = tx.objectStore(STORE_NAME);
-
-  // Clear existing first to sync
-  store.clear();
-
-  for (const doc of docs) {
-    // We store the File object directly in IndexedDB. 
-    // We strip the previewUrl as it becomes invalid on refresh.
-    const { previewUrl, ...docToSave } = doc;
-    store.put(docToSave);
-  }
-
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
   return new Promise((resolve, reject) => {
     tx.oncomplete = () => resolve();
     tx.onerror = () => reject(tx.error);
   });
 };
 
-export const loadDocumentsFromStorage = async (): Promise<ProcessedDocument[]> => {
-  const db = await openDB();
-  const tx = db.transaction(STORE_NAME, 'readonly');
-  const store = tx.objectStore(STORE_NAME);
-  const request = store.getAll();
-
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
   return new Promise((resolve, reject) => {
-    request.onsuccess = () => {
-      const docs = request.result as (Omit<ProcessedDocument, 'previewUrl'> & { previewUrl?: string })[];
-      // Re-generate preview URLs for the UI
-      const processed = docs.map(doc => ({
-        ...doc,
-        previewUrl: URL.createObjectURL(doc.file)
-      })) as ProcessedDocument[];
-      resolve(processed);
-    };
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
 
-export const removeDocumentFromStorage = async (id: string): Promise<void> => {
+const requireKey = (key: CryptoKey | null): CryptoKey => {
+  if (!key) throw new Error("This record is encrypted. Unlock the vault to read it.");
+  return key;
+};
+
+const fileInfo = (file: File): StoredFileInfo => ({ name: file.name, type: file.type, lastModified: file.lastModified });
+
+const sealFile = async (key: CryptoKey, file: File) => encryptBytes(key, await file.arrayBuffer());
+
+const unsealFile = async (key: CryptoKey, payload: EncryptedPayload, info: StoredFileInfo) =>
+  new File([await decryptBytes(key, payload)], info.name, { type: info.type, lastModified: info.lastModified });
+
+// Encryption has to finish before a transaction is opened: IndexedDB commits
+// a transaction as soon as it is left idle across a non-IDB await.
+const encodeDocument = async (
+  dossierId: string,
+  doc: Omit<ProcessedDocument, 'previewUrl'> & { previewUrl?: string },
+  key: CryptoKey | null
+): Promise<DocumentRecord> => {
+  // We store the File object directly in IndexedDB.
+  // We strip the previewUrl as it becomes invalid on refresh.
+  const { previewUrl, file, pageFiles, ...meta } = doc;
+  if (!key) return { ...meta, file, pageFiles, dossierId };
+  const morePages = pageFiles?.slice(1);
+  return {
+    id: doc.id,
+    dossierId,
+    sealed: {
+      meta: await encryptJson(key, { ...meta, fileInfo: fileInfo(file), pageInfos: morePages?.map(fileInfo) }),
+      file: await sealFile(key, file),
+      pages: morePages && await Promise.all(morePages.map(page => sealFile(key, page)))
+    }
+  };
+};
+
+const decodeDocument = async (record: DocumentRecord, key: CryptoKey | null): Promise<Omit<ProcessedDocument, 'previewUrl'>> => {
+  if (!('sealed' in record)) {
+    const { dossierId: _, ...doc } = record;
+    return doc;
+  }
+  const unlocked = requireKey(key);
+  const { fileInfo: info, pageInfos, ...meta } = await decryptJson<DocumentMetadata & { fileInfo: StoredFileInfo; pageInfos?: StoredFileInfo[] }>(unlocked, record.sealed.meta);
+  const file = await unsealFile(unlocked, record.sealed.file, info);
+  if (!record.sealed.pages || !pageInfos) return { ...meta, file };
+  const morePages = await Promise.all(record.sealed.pages.map((payload, i) => unsealFile(unlocked, payload, pageInfos[i])));
+  return { ...meta, file, pageFiles: [file, ...morePages] };
+};
+
+const encodeReport = async (dossierId: string, report: ReportData, key: CryptoKey | null): Promise<StoredReport> =>
+  key ? { dossierId, sealed: await encryptJson(key, report) } : { dossierId, report };
+
+// Reports saved before templates existed are upgraded as they are read.
+const decodeReport = async (record: StoredReport, key: CryptoKey | null): Promise<ReportData | null> => {
+  const report = record.sealed ? await decryptJson<ReportData | LegacyReportData>(requireKey(key), record.sealed) : record.report;
+  return report ? upgradeReport(report) : null;
+};
+
+const encodeReportVersion = async (dossierId: string, report: ReportData, key: CryptoKey | null): Promise<StoredReportVersion> => {
+  const id = report.version!.id;
+  return key ? { id, dossierId, sealed: await encryptJson(key, report) } : { id, dossierId, report };
+};
+
+const encodeCheckpoint = async (checkpoint: AnalysisCheckpoint, key: CryptoKey | null): Promise<CheckpointRecord> => {
+  if (!key) return checkpoint;
+  const { files, ...meta } = checkpoint;
+  return {
+    dossierId: checkpoint.dossierId,
+    sealed: {
+      meta: await encryptJson(key, { ...meta, fileInfos: files.map(fileInfo) }),
+      files: await Promise.all(files.map(file => sealFile(key, file)))
+    }
+  };
+};
+
+const decodeCheckpoint = async (record: CheckpointRecord, key: CryptoKey | null): Promise<AnalysisCheckpoint> => {
+  if (!('sealed' in record)) return record;
+  const unlocked = requireKey(key);
+  const { fileInfos, ...meta } = await decryptJson<Omit<AnalysisCheckpoint, 'files'> & { fileInfos: StoredFileInfo[] }>(unlocked, record.sealed.meta);
+  const files = await Promise.all(record.sealed.files.map((payload, i) => unsealFile(unlocked, payload, fileInfos[i])));
+  return { ...meta, files };
+};
+
+// Deletes every record of a dossier except the ids in `keep`.
+const pruneDossierRecords = (store: IDBObjectStore, dossierId: string, keep: Set<string> = new Set()) => {
+  const keysRequest = store.index(DOSSIER_INDEX).getAllKeys(IDBKeyRange.only(dossierId));
+  keysRequest.onsuccess = () => {
+    keysRequest.result.forEach(key => {
+      if (!keep.has(key as string)) store.delete(key);
+    });
+  };
+};
+
+export const saveDocumentsToStorage = async (dossierId: string, docs: ProcessedDocument[]): Promise<void> => {
+  const key = getVaultKey();
+  const records = await Promise.all(docs.map(doc => encodeDocument(dossierId, doc, key)));
   const db = await openDB();
   const tx = db.transaction(STORE_NAME, 'readwrite');
   const store = tx.objectStore(STORE_NAME);
-  store.delete(id);
-  
-  return new Promise((resolve, reject) => {
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
+
+  // Drop records of this dossier that are no longer in the list to sync
+  pruneDossierRecords(store, dossierId, new Set(docs.map(d => d.id)));
+
+  records.forEach(record => store.put(record));
+
+  return transactionDone(tx);
 };
 
-export const clearDocumentsStorage = async (): Promise<void> => {
+export const saveDocumentToStorage = async (dossierId: string, doc: ProcessedDocument): Promise<void> => {
+  const record = await encodeDocument(dossierId, doc, getVaultKey());
   const db = await openDB();
   const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).put(record);
+
+  return transactionDone(tx);
+};
+
+export const loadDocumentsFromStorage = async (dossierId: string): Promise<ProcessedDocument[]> => {
+  const key = getVaultKey();
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readonly');
   const store = tx.objectStore(STORE_NAME);
-  store.clear();
+  const records = await requestResult(store.index(DOSSIER_INDEX).getAll(IDBKeyRange.only(dossierId))) as DocumentRecord[];
+  const docs = await Promise.all(records.map(record => decodeDocument(record, key)));
 
-  return new Promise((resolve, reject) => {
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
+  // Re-generate preview URLs for the UI
+  return docs.map(doc => ({ ...doc, previewUrl: URL.createObjectURL(doc.file) }));
+};
+
+export const clearDocumentsStorage = async (dossierId: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([STORE_NAME, REPORT_STORE_NAME, ANALYSIS_STORE_NAME, REPORT_HISTORY_STORE_NAME], 'readwrite');
+  pruneDossierRecords(tx.objectStore(STORE_NAME), dossierId);
+  pruneDossierRecords(tx.objectStore(REPORT_HISTORY_STORE_NAME), dossierId);
+  tx.objectStore(REPORT_STORE_NAME).delete(dossierId);
+  tx.objectStore(ANALYSIS_STORE_NAME).delete(dossierId);
+
+  return transactionDone(tx);
+};
+
+export const saveReportToStorage = async (dossierId: string, report: ReportData): Promise<void> => {
+  const record = await encodeReport(dossierId, report, getVaultKey());
+  const db = await openDB();
+  const tx = db.transaction(REPORT_STORE_NAME, 'readwrite');
+  tx.objectStore(REPORT_STORE_NAME).put(record);
+
+  return transactionDone(tx);
+};
+
+export const loadReportFromStorage = async (dossierId: string): Promise<ReportData | null> => {
+  const key = getVaultKey();
+  const db = await openDB();
+  const tx = db.transaction(REPORT_STORE_NAME, 'readonly');
+  const record: StoredReport | undefined = await requestResult(tx.objectStore(REPORT_STORE_NAME).get(dossierId));
+  return record ? decodeReport(record, key) : null;
+};
+
+export const saveReportVersion = async (dossierId: string, report: ReportData): Promise<void> => {
+  const record = await encodeReportVersion(dossierId, report, getVaultKey());
+  const db = await openDB();
+  const tx = db.transaction(REPORT_HISTORY_STORE_NAME, 'readwrite');
+  tx.objectStore(REPORT_HISTORY_STORE_NAME).put(record);
+
+  return transactionDone(tx);
+};
+
+// All versions of a dossier's report, oldest first.
+export const loadReportHistory = async (dossierId: string): Promise<ReportData[]> => {
+  const key = getVaultKey();
+  const db = await openDB();
+  const tx = db.transaction(REPORT_HISTORY_STORE_NAME, 'readonly');
+  const records = await requestResult(
+    tx.objectStore(REPORT_HISTORY_STORE_NAME).index(DOSSIER_INDEX).getAll(IDBKeyRange.only(dossierId))
+  ) as StoredReportVersion[];
+  const reports = await Promise.all(records.map(record => decodeReport(record, key)));
+  return reports
+    .filter((r): r is ReportData => !!r?.version)
+    .sort((a, b) => a.version!.generatedAt.localeCompare(b.version!.generatedAt));
+};
+
+export const saveAnalysisCheckpoint = async (checkpoint: AnalysisCheckpoint): Promise<void> => {
+  const record = await encodeCheckpoint(checkpoint, getVaultKey());
+  const db = await openDB();
+  const tx = db.transaction(ANALYSIS_STORE_NAME, 'readwrite');
+  tx.objectStore(ANALYSIS_STORE_NAME).put(record);
+
+  return transactionDone(tx);
+};
+
+export const loadAnalysisCheckpoint = async (dossierId: string): Promise<AnalysisCheckpoint | null> => {
+  const key = getVaultKey();
+  const db = await openDB();
+  const tx = db.transaction(ANALYSIS_STORE_NAME, 'readonly');
+  const record: CheckpointRecord | undefined = await requestResult(tx.objectStore(ANALYSIS_STORE_NAME).get(dossierId));
+  return record ? decodeCheckpoint(record, key) : null;
+};
+
+export const clearAnalysisCheckpoint = async (dossierId: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(ANALYSIS_STORE_NAME, 'readwrite');
+  tx.objectStore(ANALYSIS_STORE_NAME).delete(dossierId);
+
+  return transactionDone(tx);
+};
+
+// Re-encrypts every stored record from `fromKey` to `toKey` (null means plaintext).
+// All records are rewritten in a single transaction, so a failure part-way
+// leaves the previous data untouched.
+export const resealStorage = async (fromKey: CryptoKey | null, toKey: CryptoKey | null): Promise<void> => {
+  const db = await openDB();
+  const readTx = db.transaction([STORE_NAME, REPORT_STORE_NAME, ANALYSIS_STORE_NAME, REPORT_HISTORY_STORE_NAME], 'readonly');
+  const [docs, reports, checkpoints, versions] = await Promise.all([
+    requestResult(readTx.objectStore(STORE_NAME).getAll()) as Promise<DocumentRecord[]>,
+    requestResult(readTx.objectStore(REPORT_STORE_NAME).getAll()) as Promise<StoredReport[]>,
+    requestResult(readTx.objectStore(ANALYSIS_STORE_NAME).getAll()) as Promise<CheckpointRecord[]>,
+    requestResult(readTx.objectStore(REPORT_HISTORY_STORE_NAME).getAll()) as Promise<StoredReportVersion[]>,
+  ]);
+
+  const docRecords = await Promise.all(docs.map(async record =>
+    encodeDocument(record.dossierId, await decodeDocument(record, fromKey), toKey)
+  ));
+  const reportRecords = await Promise.all(reports.map(async record => {
+    const report = await decodeReport(record, fromKey);
+    return report ? encodeReport(record.dossierId, report, toKey) : record;
+  }));
+  const checkpointRecords = await Promise.all(checkpoints.map(async record =>
+    encodeCheckpoint(await decodeCheckpoint(record, fromKey), toKey)
+  ));
+  const versionRecords = await Promise.all(versions.map(async record => {
+    const report = await decodeReport(record, fromKey);
+    return report ? encodeReportVersion(record.dossierId, report, toKey) : record;
+  }));
+
+  const tx = db.transaction([STORE_NAME, REPORT_STORE_NAME, ANALYSIS_STORE_NAME, REPORT_HISTORY_STORE_NAME], 'readwrite');
+  docRecords.forEach(record => tx.objectStore(STORE_NAME).put(record));
+  reportRecords.forEach(record => tx.objectStore(REPORT_STORE_NAME).put(record));
+  checkpointRecords.forEach(record => tx.objectStore(ANALYSIS_STORE_NAME).put(record));
+  versionRecords.forEach(record => tx.objectStore(REPORT_HISTORY_STORE_NAME).put(record));
+
+  return transactionDone(tx);
+};
+
+// Removes every dossier's records; used when a forgotten vault is reset.
+export const clearAllStorage = async (): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([STORE_NAME, REPORT_STORE_NAME, ANALYSIS_STORE_NAME, REPORT_HISTORY_STORE_NAME], 'readwrite');
+  tx.objectStore(STORE_NAME).clear();
+  tx.objectStore(REPORT_STORE_NAME).clear();
+  tx.objectStore(ANALYSIS_STORE_NAME).clear();
+  tx.objectStore(REPORT_HISTORY_STORE_NAME).clear();
+
+  return transactionDone(tx);
 };
@@ -0,0 +1,70 @@
+import { PageRange, ProcessedDocument } from "../types";
+import { extractPdfPageTexts, isPdfFile } from "./pdfService";
+import { extractWordText, isWordFile } from "./wordDocumentService";
+
+export type TextSource = NonNullable<ProcessedDocument['textSource']>;
+
+export interface ExtractedText {
+  text: string;
+  source: TextSource;
+  // Text of each PDF page, so parts of a compound PDF can be told apart.
+  pages?: string[];
+}
+
+// Whether the text of a file can be read in the browser; everything else
+// (photos, scanned pages) needs a model transcription.
+export const hasLocalText = (file: File) => isPdfFile(file) || isWordFile(file);
+
+const cleanText = (text: string) => text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+
+// Reads the PDF text layer or the Word text. Null when the file has neither,
+// including scanned PDFs whose pages are only images.
+export const extractLocalText = async (file: File): Promise<ExtractedText | null> => {
+  try {
+    if (isPdfFile(file)) {
+      const pages = (await extractPdfPageTexts(file)).map(cleanText);
+      const text = pages.filter(Boolean).join('\n\n');
+      return text ? { text, source: 'pdf', pages } : null;
+    }
+    if (isWordFile(file)) {
+      const text = cleanText(await extractWordText(file));
+      return text ? { text, source: 'docx' } : null;
+    }
+  } catch (e) {
+    console.error("Text extraction failed:", file.name, e);
+  }
+  return null;
+};
+
+// 1-based numbers of the pages in `range` with no text layer, such as scanned
+// pages bound into an otherwise digital PDF.
+export const pagesWithoutText = (text: ExtractedText, range?: PageRange): number[] => {
+  if (!text.pages) return [];
+  const start = range?.start ?? 1;
+  return text.pages.slice(start - 1, range?.end ?? text.pages.length).flatMap((page, i) => page ? [] : [start + i]);
+};
+
+// Text of the pages in `range`, for one encounter of a compound PDF.
+export const textOfPages = (text: ExtractedText, range: PageRange): ExtractedText | null => {
+  if (!text.pages) return text;
+  const ranged = text.pages.slice(range.start - 1, range.end).filter(Boolean).join('\n\n');
+  return ranged ? { text: ranged, source: text.source } : null;
+};
+
+export const normalizeTranscription = (value: unknown): ExtractedText | null => {
+  const text = typeof value === 'string' ? cleanText(value) : '';
+  return text ? { text, source: 'transcription' } : null;
+};
+
+// Fills in the text of PDF and Word records stored before text extraction
+// existed. Images need the model and keep their text absent until re-analyzed.
+export const ensureDocumentText = async (docs: ProcessedDocument[]): Promise<ProcessedDocument[]> => {
+  return Promise.all(docs.map(async (doc) => {
+    if (doc.fullText !== undefined || !hasLocalText(doc.file)) return doc;
+    const extracted = await extractLocalText(doc.file);
+    return { ...doc, fullText: extracted?.text ?? null, textSource: extracted?.source };
+  }));
+};
+
+export const needsTextExtraction = (docs: ProcessedDocument[]) =>
+  docs.some(doc => doc.fullText === undefined && hasLocalText(doc.file));
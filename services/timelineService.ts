@@ -0,0 +1,104 @@
+import { Locale, ProcessedDocument } from "../types";
+import { getLanguage, translate } from "./i18nService";
+
+export type DuplicateFilter = 'all' | 'hide' | 'only';
+export type TimelineGrouping = 'none' | 'year' | 'month';
+export type SortOrder = 'asc' | 'desc';
+
+export interface TimelineFilters {
+  // Empty means every type.
+  types: ProcessedDocument['type'][];
+  from: string; // ISO YYYY-MM-DD, empty for no bound
+  to: string;
+  duplicates: DuplicateFilter;
+}
+
+export const EMPTY_FILTERS: TimelineFilters = { types: [], from: '', to: '', duplicates: 'all' };
+
+export const hasActiveFilters = (filters: TimelineFilters) =>
+  filters.types.length > 0 || !!filters.from || !!filters.to || filters.duplicates !== 'all';
+
+export interface TimelineGroup {
+  key: string;
+  label: string;
+  documents: ProcessedDocument[];
+}
+
+// A month of the chronology; months without records are included so gaps show.
+export interface ChronologyBucket {
+  key: string; // YYYY-MM
+  year: number;
+  month: number; // 0-11
+  documents: ProcessedDocument[];
+}
+
+const UNDATED_KEY = 'undated';
+
+// Expects resolved documents so human corrections are filtered on.
+export const filterDocuments = (docs: ProcessedDocument[], filters: TimelineFilters): ProcessedDocument[] =>
+  docs.filter(doc => {
+    if (filters.types.length > 0 && !filters.types.includes(doc.type)) return false;
+    if (filters.duplicates === 'hide' && doc.isDuplicate) return false;
+    if (filters.duplicates === 'only' && !doc.isDuplicate) return false;
+    // Undated records cannot satisfy a date bound
+    if (filters.from && (!doc.date || doc.date < filters.from)) return false;
+    if (filters.to && (!doc.date || doc.date > filters.to)) return false;
+    return true;
+  });
+
+// Undated records always go last, whichever the direction.
+export const sortDocuments = (docs: ProcessedDocument[], order: SortOrder): ProcessedDocument[] =>
+  [...docs].sort((a, b) => {
+    if (!a.date || !b.date) return (a.date ? 0 : 1) - (b.date ? 0 : 1);
+    return order === 'asc' ? a.date.localeCompare(b.date) : b.date.localeCompare(a.date);
+  });
+
+export const getGroupKey = (doc: ProcessedDocument, grouping: TimelineGrouping) => {
+  if (!doc.date) return UNDATED_KEY;
+  return grouping === 'year' ? doc.date.slice(0, 4) : doc.date.slice(0, 7);
+};
+
+const groupLabel = (key: string, grouping: TimelineGrouping, locale: Locale) => {
+  if (key === UNDATED_KEY) return translate(locale, 'common.undated');
+  if (grouping === 'year') return key;
+  const [year, month] = key.split('-').map(Number);
+  return new Date(year, month - 1).toLocaleDateString(getLanguage(locale).tag, { year: 'numeric', month: 'long' });
+};
+
+// Groups already sorted documents, keeping their order.
+export const groupDocuments = (docs: ProcessedDocument[], grouping: TimelineGrouping, locale: Locale = 'en'): TimelineGroup[] => {
+  if (grouping === 'none') return [{ key: 'all', label: '', documents: docs }];
+  const groups = new Map<string, TimelineGroup>();
+  docs.forEach(doc => {
+    const key = getGroupKey(doc, grouping);
+    if (!groups.has(key)) groups.set(key, { key, label: groupLabel(key, grouping, locale), documents: [] });
+    groups.get(key)!.documents.push(doc);
+  });
+  return Array.from(groups.values());
+};
+
+export const buildChronology = (docs: ProcessedDocument[]): ChronologyBucket[] => {
+  const dated = docs.filter(d => d.date && /^\d{4}-\d{2}/.test(d.date));
+  if (dated.length === 0) return [];
+
+  const byMonth = new Map<string, ProcessedDocument[]>();
+  dated.forEach(doc => {
+    const key = doc.date!.slice(0, 7);
+    byMonth.set(key, [...(byMonth.get(key) || []), doc]);
+  });
+
+  // Months counted from year 0, so the range can be walked with one index
+  const monthIndex = (key: string) => {
+    const [year, month] = key.split('-').map(Number);
+    return year * 12 + month - 1;
+  };
+  const keys = Array.from(byMonth.keys()).sort();
+  const buckets: ChronologyBucket[] = [];
+  for (let i = monthIndex(keys[0]); i <= monthIndex(keys[keys.length - 1]); i++) {
+    const year = Math.floor(i / 12);
+    const month = i % 12;
+    const key = `${year}-${String(month + 1).padStart(2, '0')}`;
+    buckets.push({ key, year, month, documents: sortDocuments(byMonth.get(key) || [], 'asc') });
+  }
+  return buckets;
+};
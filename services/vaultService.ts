@@ -0,0 +1,76 @@
+import { EncodedPayload, PBKDF2_ITERATIONS, decodePayload, decryptJson, deriveKey, encodePayload, encryptJson, fromBase64, generateSalt, toBase64 } from "./cryptoService";
+
+const STORAGE_KEY_VAULT = 'medichronicle_vault';
+const VERIFIER_TOKEN = 'medichronicle-vault';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export interface VaultConfig {
+  salt: string;
+  iterations: number;
+  // The token encrypted with the vault key, used to check a passphrase.
+  verifier: EncodedPayload;
+  autoLockMinutes: number;
+}
+
+// Key for the current session; never persisted.
+let sessionKey: CryptoKey | null = null;
+
+export const loadVaultConfig = (): VaultConfig | null => {
+  const saved = localStorage.getItem(STORAGE_KEY_VAULT);
+  return saved ? JSON.parse(saved) : null;
+};
+
+export const saveVaultConfig = (config: VaultConfig | null) => {
+  if (config) {
+    localStorage.setItem(STORAGE_KEY_VAULT, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(STORAGE_KEY_VAULT);
+  }
+};
+
+export const isVaultEnabled = () => loadVaultConfig() !== null;
+
+export const isVaultUnlocked = () => sessionKey !== null;
+
+// Key that storage must encrypt with: null when vault mode is off.
+export const getVaultKey = (): CryptoKey | null => {
+  if (!isVaultEnabled()) return null;
+  if (!sessionKey) throw new Error("The vault is locked. Unlock it to access records.");
+  return sessionKey;
+};
+
+export const setVaultKey = (key: CryptoKey | null) => {
+  sessionKey = key;
+};
+
+// Derives a fresh key and the config describing it. Nothing is saved.
+export const createVaultKey = async (passphrase: string, autoLockMinutes: number): Promise<{ key: CryptoKey; config: VaultConfig }> => {
+  const salt = generateSalt();
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const verifier = encodePayload(await encryptJson(key, VERIFIER_TOKEN));
+  return { key, config: { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, verifier, autoLockMinutes } };
+};
+
+// Returns the key for `passphrase`, or null if it does not open the vault.
+export const verifyPassphrase = async (passphrase: string): Promise<CryptoKey | null> => {
+  const config = loadVaultConfig();
+  if (!config) return null;
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    const token = await decryptJson<string>(key, decodePayload(config.verifier));
+    return token === VERIFIER_TOKEN ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const key = await verifyPassphrase(passphrase);
+  if (key) sessionKey = key;
+  return key !== null;
+};
+
+export const lockVault = () => {
+  sessionKey = null;
+};
@@ -0,0 +1,53 @@
+import { clearDossiers, loadDossiers, saveDossiers } from "./dossierService";
+import { clearRedactionSettings, resealRedactionSettings } from "./redactionService";
+import { clearAllStorage, resealStorage } from "./storageService";
+import { createVaultKey, loadVaultConfig, saveVaultConfig, setVaultKey, verifyPassphrase } from "./vaultService";
+
+// Moves every record and profile, and the redaction settings, from `fromKey` to `toKey`. The vault config
+// is written last, right after the profile list, so the window in which the
+// data and the config disagree is as small as localStorage allows.
+const rekey = async (fromKey: CryptoKey | null, toKey: CryptoKey | null, commitConfig: () => void) => {
+  const dossiers = await loadDossiers(fromKey);
+  await resealStorage(fromKey, toKey);
+  await resealRedactionSettings(fromKey, toKey);
+  await saveDossiers(dossiers, toKey);
+  commitConfig();
+  setVaultKey(toKey);
+};
+
+export const enableVault = async (passphrase: string, autoLockMinutes: number) => {
+  const { key, config } = await createVaultKey(passphrase, autoLockMinutes);
+  await rekey(null, key, () => saveVaultConfig(config));
+};
+
+// Returns false when `currentPassphrase` is wrong; nothing is changed then.
+export const changeVaultPassphrase = async (currentPassphrase: string, nextPassphrase: string): Promise<boolean> => {
+  const currentKey = await verifyPassphrase(currentPassphrase);
+  const currentConfig = loadVaultConfig();
+  if (!currentKey || !currentConfig) return false;
+  const { key, config } = await createVaultKey(nextPassphrase, currentConfig.autoLockMinutes);
+  await rekey(currentKey, key, () => saveVaultConfig(config));
+  return true;
+};
+
+// Decrypts everything back to plaintext storage and removes the vault.
+export const disableVault = async (currentPassphrase: string): Promise<boolean> => {
+  const currentKey = await verifyPassphrase(currentPassphrase);
+  if (!currentKey) return false;
+  await rekey(currentKey, null, () => saveVaultConfig(null));
+  return true;
+};
+
+export const setAutoLockMinutes = (minutes: number) => {
+  const config = loadVaultConfig();
+  if (config) saveVaultConfig({ ...config, autoLockMinutes: minutes });
+};
+
+// A forgotten passphrase cannot be recovered: this erases every dossier.
+export const resetVault = async () => {
+  await clearAllStorage();
+  clearDossiers();
+  clearRedactionSettings();
+  saveVaultConfig(null);
+  setVaultKey(null);
+};
@@ -0,0 +1,86 @@
+// Declare mammoth for TypeScript (loaded via global script in index.html)
+declare const mammoth: any;
+
+export const isWordFile = (file: File) =>
+  file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || /\.docx$/i.test(file.name);
+
+export interface TextRunSpec {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+// Block-level structure of a Word document, enough to re-typeset it in the exports.
+export interface TextBlock {
+  kind: 'heading' | 'paragraph' | 'listItem';
+  // Heading level (1-6) or list nesting depth (0-based).
+  level: number;
+  runs: TextRunSpec[];
+}
+
+const HEADING_TAGS = ['H1', 'H2', 'H3', 'H4', 'H5', 'H6'];
+
+const collectRuns = (node: Node, style: Omit<TextRunSpec, 'text'>, runs: TextRunSpec[]) => {
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      const text = child.textContent || '';
+      if (text) runs.push({ text, ...style });
+      return;
+    }
+    if (!(child instanceof HTMLElement)) return;
+    // Nested lists are emitted as their own blocks
+    if (child.tagName === 'UL' || child.tagName === 'OL') return;
+    if (child.tagName === 'BR') {
+      runs.push({ text: '\n', ...style });
+      return;
+    }
+    collectRuns(child, {
+      bold: style.bold || child.tagName === 'STRONG' || child.tagName === 'B',
+      italic: style.italic || child.tagName === 'EM' || child.tagName === 'I',
+    }, runs);
+  });
+  return runs;
+};
+
+const hasText = (runs: TextRunSpec[]) => runs.some(r => r.text.trim());
+
+const walk = (element: Element, listDepth: number, blocks: TextBlock[]) => {
+  Array.from(element.children).forEach(child => {
+    const tag = child.tagName;
+    if (HEADING_TAGS.includes(tag)) {
+      const runs = collectRuns(child, { bold: true }, []);
+      if (hasText(runs)) blocks.push({ kind: 'heading', level: Number(tag[1]), runs });
+    } else if (tag === 'P') {
+      const runs = collectRuns(child, {}, []);
+      if (hasText(runs)) blocks.push({ kind: 'paragraph', level: 0, runs });
+    } else if (tag === 'UL' || tag === 'OL') {
+      walk(child, listDepth + 1, blocks);
+    } else if (tag === 'LI') {
+      const runs = collectRuns(child, {}, []);
+      if (hasText(runs)) blocks.push({ kind: 'listItem', level: Math.max(0, listDepth - 1), runs });
+      walk(child, listDepth, blocks);
+    } else if (tag === 'TR') {
+      // Table rows are flattened to one line per row
+      const runs = Array.from(child.children).flatMap((cell, i) => [
+        ...(i > 0 ? [{ text: '  |  ' }] : []),
+        ...collectRuns(cell, { bold: cell.tagName === 'TH' }, []),
+      ]);
+      if (hasText(runs)) blocks.push({ kind: 'paragraph', level: 0, runs });
+    } else {
+      walk(child, listDepth, blocks);
+    }
+  });
+};
+
+export const extractWordText = async (file: File): Promise<string> => {
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value;
+};
+
+export const extractWordBlocks = async (file: File): Promise<TextBlock[]> => {
+  const { value: html } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const blocks: TextBlock[] = [];
+  walk(body, 0, blocks);
+  return blocks;
+};
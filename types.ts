@@ -1,5 +1,6 @@
 
 export interface PatientProfile {
+  id: string;
   name: string;
   dob: string;
   gender: 'Male' | 'Female' | 'Other';
@@ -7,19 +8,203 @@ export interface PatientProfile {
 
 export interface ProcessedDocument {
   id: string;
+  // The first page when the record spans several files.
   file: File;
   previewUrl: string;
+  // Every page in order, `file` included, for records grouped from several
+  // scans; absent for single-file records.
+  pageFiles?: File[];
+  // Pages of `file` this record covers, for one encounter of a compound PDF
+  // that holds several; absent when the record is the whole file.
+  pageRange?: PageRange;
   date: string | null; // ISO YYYY-MM-DD
   type: 'LAB' | 'IMAGING' | 'PRESCRIPTION' | 'NOTE' | 'OTHER';
   summary: string;
   isDuplicate: boolean;
   originalIndex?: number;
+  // SHA-256 of the file bytes, for exact copies.
+  contentHash?: string;
+  // dHash of the rendered image, for re-photographed or re-scanned pages.
+  perceptualHash?: string | null;
+  // Shared by every document holding the same content.
+  duplicateGroupId?: string;
+  labResults?: LabResult[];
+  medications?: MedicationMention[];
+  // Full text of the record: the PDF text layer, the Word text, or a model
+  // transcription of photos and scanned pages. Null when none could be read;
+  // absent on records analyzed before text extraction existed.
+  fullText?: string | null;
+  textSource?: 'pdf' | 'docx' | 'transcription';
+  // Human overrides of the AI-extracted values above. A field present here
+  // was set by a person and always wins over the model's value.
+  corrections?: DocumentCorrections;
+}
+
+// 1-based, inclusive page numbers.
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+export type DocumentMetadata = Omit<ProcessedDocument, 'file' | 'previewUrl' | 'pageFiles'> & {
+  // Number of consecutive files, from `originalIndex`, that make up the record.
+  pageCount?: number;
+};
+
+export interface AnalysisProgressState {
+  // Index of the first file that has not been analyzed yet.
+  nextIndex: number;
+  // Files after `nextIndex` whose batches finished first; batches run in parallel.
+  completedIndices?: number[];
+  documents: DocumentMetadata[];
+  unmatchedIndices: number[];
+}
+
+// A rectangle in fractions of the page size, so it survives any rescaling.
+export interface RedactionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RedactionPattern {
+  id: string;
+  label: string;
+  // Regular expression source, matched case-insensitively.
+  pattern: string;
+  enabled: boolean;
+  builtIn?: boolean;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  maskName: boolean;
+  maskDob: boolean;
+  patterns: RedactionPattern[];
+}
+
+// What was chosen in the redaction review for one analysis run.
+export interface AnalysisRedaction {
+  settings: RedactionSettings;
+  // Boxes drawn per file (aligned with the run's files), then per page.
+  boxes: RedactionBox[][][];
+}
+
+// Persisted state of a metadata analysis run so it can resume after a failure or reload.
+export interface AnalysisCheckpoint extends AnalysisProgressState {
+  dossierId: string;
+  files: File[];
+  // Documents already in the dossier that the results are merged after.
+  baseDocumentIds: string[];
+  // Absent when the files were sent unredacted.
+  redaction?: AnalysisRedaction;
+  // Per file: whether it is a further page of the file before it.
+  continuesPrevious?: boolean[];
+  updatedAt: string;
+}
+
+export type EditableDocumentField = 'date' | 'type' | 'summary' | 'isDuplicate' | 'labResults' | 'medications';
+
+export type DocumentCorrections = Partial<Pick<ProcessedDocument, EditableDocumentField>>;
+
+export type FieldSource = 'ai' | 'human';
+
+export interface LabResult {
+  analyte: string; // Canonical name, e.g. "HbA1c"
+  value: number | null; // In `unit`; null when the printed value is not numeric
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  referenceRange?: string; // As printed on the report
+  collectionDate: string | null; // ISO YYYY-MM-DD
+  rawValue: string;
+  rawUnit: string;
+}
+
+// A drug as mentioned on one prescription or note.
+export interface MedicationMention {
+  drug: string;
+  dose: string | null;
+  frequency: string | null;
+  prescriber: string | null;
+  date: string | null; // ISO YYYY-MM-DD
+  action: 'START' | 'CONTINUE' | 'CHANGE' | 'STOP';
+}
+
+// A continuous period on one drug at one regimen, reconstructed from mentions.
+export interface MedicationCourse {
+  drug: string;
+  dose: string | null;
+  frequency: string | null;
+  prescriber: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  // True when the stop date is inferred (regimen change, no recent mention)
+  // rather than documented.
+  endInferred: boolean;
+  isActive: boolean;
+  documentIds: string[];
+}
+
+// One paragraph of a report section and the documents it was drawn from.
+export interface CitedParagraph {
+  text: string;
+  sourceIds: string[]; // ProcessedDocument ids
+}
+
+// Sections are defined by the report template (see reportTemplateService).
+export interface ReportSection {
+  key: string;
+  title: string;
+  text: string;
+  // Paragraph-level sources; absent on reports made before citations.
+  paragraphs?: CitedParagraph[];
+}
+
+export type ReportTemplateId = 'clinical' | 'patient' | 'referral' | 'claim';
+
+export type ReportLength = 'brief' | 'standard' | 'detailed';
+
+// Languages of the interface and of generated reports (see i18nService).
+export type Locale = 'en' | 'es' | 'ar';
+
+export interface ReportSettings {
+  templateId: ReportTemplateId;
+  length: ReportLength;
+  // Condition the report concentrates on, for templates that ask for one.
+  focus: string;
+  // Addressee of a referral letter.
+  recipient: string;
+  // Language the report is written in, independent of the interface language.
+  language: Locale;
 }
 
 export interface ReportData {
+  settings: ReportSettings;
+  sections: ReportSection[];
+  medications?: MedicationCourse[];
+  // Set when records were added after the report was generated.
+  isStale?: boolean;
+  // Absent on reports generated before version history was kept.
+  version?: ReportVersion;
+}
+
+// Shape of reports saved before templates existed; upgraded when loaded.
+export interface LegacyReportData extends Omit<ReportData, 'settings' | 'sections'> {
   history: string;
   summary: string;
   prognosis: string;
+  citations?: Partial<Record<'history' | 'summary' | 'prognosis', CitedParagraph[]>>;
+}
+
+export interface ReportVersion {
+  id: string;
+  generatedAt: string;
+  provider: string;
+  model: string;
+  // The records the synthesis was based on (duplicates excluded, except repeated imaging).
+  documentIds: string[];
 }
 
 export enum AppStep {
@@ -12,7 +12,16 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_API_KEY': JSON.stringify(env.AI_API_KEY),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL),
+        'process.env.AI_MODEL_METADATA': JSON.stringify(env.AI_MODEL_METADATA),
+        'process.env.AI_MODEL_REPORT': JSON.stringify(env.AI_MODEL_REPORT),
+        'process.env.AI_MAX_REQUEST_MB': JSON.stringify(env.AI_MAX_REQUEST_MB),
+        'process.env.AI_MAX_PAGES_PER_REQUEST': JSON.stringify(env.AI_MAX_PAGES_PER_REQUEST),
+        'process.env.AI_MAX_FILES_PER_REQUEST': JSON.stringify(env.AI_MAX_FILES_PER_REQUEST),
+        'process.env.AI_CONCURRENCY': JSON.stringify(env.AI_CONCURRENCY)
       },
       resolve: {
         alias: {